@@ -0,0 +1,95 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreCanceledError } from './canceled-error';
+
+/**
+ * Token to cancel long-running operations, like writing or unzipping big files.
+ *
+ * Create a token, pass it to the operation and call cancel to stop it. The operation is rejected with a CoreCanceledError,
+ * or with a CoreFileCanceledError (whose cause is the CoreCanceledError) if it's an operation of CoreFileProvider:
+ * const token = new CoreCancellationToken();
+ * fileProvider.writeFileDataInFile(blob, path, onProgress, 0, false, {cancelToken: token});
+ * ...
+ * token.cancel();
+ */
+export class CoreCancellationToken {
+    protected canceled = false;
+    protected reason: string;
+    protected callbacks: Function[] = [];
+
+    /**
+     * Cancel the operations using this token. Calling it again has no effect.
+     *
+     * @param reason Reason to cancel, used as the message of the error.
+     */
+    cancel(reason?: string): void {
+        if (this.canceled) {
+            return;
+        }
+
+        this.canceled = true;
+        this.reason = reason;
+
+        const callbacks = this.callbacks;
+        this.callbacks = [];
+        callbacks.forEach((callback) => {
+            callback(reason);
+        });
+    }
+
+    /**
+     * Check whether the token has been canceled.
+     *
+     * @return Whether it's canceled.
+     */
+    isCanceled(): boolean {
+        return this.canceled;
+    }
+
+    /**
+     * Throw a CoreCanceledError if the token has been canceled. CoreFileProvider converts it to a CoreFileCanceledError.
+     */
+    throwIfCanceled(): void {
+        if (this.canceled) {
+            throw new CoreCanceledError(this.reason);
+        }
+    }
+
+    /**
+     * Register a function to call when the token is canceled. If it's already canceled, it's called immediately.
+     *
+     * @param callback Function to call. It receives the reason.
+     * @return Function to unregister the callback.
+     */
+    onCancel(callback: (reason?: string) => void): () => void {
+        if (this.canceled) {
+            callback(this.reason);
+
+            return (): void => {
+                // Nothing to unregister.
+            };
+        }
+
+        this.callbacks.push(callback);
+
+        return (): void => {
+            const index = this.callbacks.indexOf(callback);
+            if (index != -1) {
+                this.callbacks.splice(index, 1);
+            }
+        };
+    }
+}
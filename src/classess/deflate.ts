@@ -0,0 +1,520 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreError } from './error';
+
+// Base values and extra bits of the length and distance codes (RFC 1951).
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097,
+    6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order of the code length codes in a dynamic block header.
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_BITS = 15;
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+
+/**
+ * Canonical Huffman code used to decode.
+ */
+interface CoreDeflateHuffman {
+    counts: Int16Array; // Number of codes of each length.
+    symbols: Int16Array; // Symbols ordered by code.
+}
+
+/**
+ * Growable output buffer.
+ */
+class CoreDeflateOutput {
+    data: Uint8Array;
+    length = 0;
+
+    constructor(size: number) {
+        this.data = new Uint8Array(Math.max(size, 1024));
+    }
+
+    /**
+     * Make sure there's room for some more bytes.
+     *
+     * @param bytes Number of bytes to add.
+     */
+    ensure(bytes: number): void {
+        if (this.length + bytes > this.data.length) {
+            const data = new Uint8Array(Math.max(this.data.length * 2, this.length + bytes));
+            data.set(this.data.subarray(0, this.length));
+            this.data = data;
+        }
+    }
+
+    /**
+     * Get the bytes written.
+     *
+     * @return Bytes, in a new buffer.
+     */
+    getResult(): ArrayBuffer {
+        return this.data.buffer.slice(0, this.length);
+    }
+}
+
+/**
+ * Pure TypeScript implementation of the raw DEFLATE format (RFC 1951) and CRC-32, used to read and write zip files
+ * without native plugins.
+ *
+ * The compressor uses LZ77 with the fixed Huffman codes. It compresses less than zlib, but it's fast and any inflater
+ * can read its output. The decompressor supports all the block types.
+ */
+export class CoreDeflate {
+    protected static crcTable: Int32Array;
+    protected static fixedCodes: { lengths: Uint8Array, codes: Uint16Array };
+    protected static fixedLengthCode: CoreDeflateHuffman;
+    protected static fixedDistCode: CoreDeflateHuffman;
+
+    /**
+     * Calculate the CRC-32 of some data.
+     *
+     * @param data Data.
+     * @param crc CRC of the previous data, to calculate it incrementally.
+     * @return CRC-32, as an unsigned number.
+     */
+    static crc32(data: Uint8Array, crc: number = 0): number {
+        if (!CoreDeflate.crcTable) {
+            CoreDeflate.crcTable = new Int32Array(256);
+
+            for (let n = 0; n < 256; n++) {
+                let c = n;
+                for (let k = 0; k < 8; k++) {
+                    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+                }
+                CoreDeflate.crcTable[n] = c;
+            }
+        }
+
+        const table = CoreDeflate.crcTable;
+        crc = crc ^ -1;
+
+        for (let i = 0; i < data.length; i++) {
+            crc = (crc >>> 8) ^ table[(crc ^ data[i]) & 0xFF];
+        }
+
+        return (crc ^ -1) >>> 0;
+    }
+
+    /**
+     * Compress some data with raw DEFLATE.
+     *
+     * @param data Data to compress.
+     * @param maxChain Max number of previous matches to check for each position. Higher is slower but compresses more.
+     * @return Compressed data.
+     */
+    static deflateRaw(data: Uint8Array, maxChain: number = 64): ArrayBuffer {
+        const fixed = CoreDeflate.getFixedCodes();
+        const output = new CoreDeflateOutput(Math.ceil(data.length * 9 / 8) + 16);
+        const head = new Int32Array(1 << HASH_BITS);
+        const prev = new Int32Array(WINDOW_SIZE);
+        let bitBuffer = 0,
+            bitCount = 0;
+
+        head.fill(-1);
+
+        // Write some bits, least significant bit first.
+        const writeBits = (value: number, count: number): void => {
+            bitBuffer |= value << bitCount;
+            bitCount += count;
+
+            while (bitCount >= 8) {
+                output.ensure(1);
+                output.data[output.length++] = bitBuffer & 0xFF;
+                bitBuffer >>>= 8;
+                bitCount -= 8;
+            }
+        };
+
+        const writeSymbol = (symbol: number): void => {
+            writeBits(fixed.codes[symbol], fixed.lengths[symbol]);
+        };
+
+        const hash = (pos: number): number => {
+            return ((data[pos] << 10) ^ (data[pos + 1] << 5) ^ data[pos + 2]) & ((1 << HASH_BITS) - 1);
+        };
+
+        const insert = (pos: number): void => {
+            if (pos + MIN_MATCH <= data.length) {
+                const h = hash(pos);
+                prev[pos & (WINDOW_SIZE - 1)] = head[h];
+                head[h] = pos;
+            }
+        };
+
+        // Single final block with fixed codes.
+        writeBits(1, 1);
+        writeBits(1, 2);
+
+        let pos = 0;
+        while (pos < data.length) {
+            let bestLength = 0,
+                bestDistance = 0;
+
+            if (pos + MIN_MATCH <= data.length) {
+                const maxLength = Math.min(MAX_MATCH, data.length - pos);
+                let candidate = head[hash(pos)],
+                    chain = maxChain;
+
+                while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain-- > 0) {
+                    let length = 0;
+                    while (length < maxLength && data[candidate + length] == data[pos + length]) {
+                        length++;
+                    }
+
+                    if (length > bestLength) {
+                        bestLength = length;
+                        bestDistance = pos - candidate;
+                        if (length == maxLength) {
+                            break;
+                        }
+                    }
+
+                    const next = prev[candidate & (WINDOW_SIZE - 1)];
+                    if (next >= candidate) {
+                        // The slot was overwritten by a newer position, the chain ends here.
+                        break;
+                    }
+                    candidate = next;
+                }
+            }
+
+            if (bestLength >= MIN_MATCH) {
+                const lengthIndex = CoreDeflate.findBase(LENGTH_BASE, bestLength),
+                    distIndex = CoreDeflate.findBase(DIST_BASE, bestDistance);
+
+                writeSymbol(257 + lengthIndex);
+                writeBits(bestLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+                writeBits(CoreDeflate.reverseBits(distIndex, 5), 5);
+                writeBits(bestDistance - DIST_BASE[distIndex], DIST_EXTRA[distIndex]);
+
+                for (let i = 0; i < bestLength; i++) {
+                    insert(pos + i);
+                }
+                pos += bestLength;
+            } else {
+                writeSymbol(data[pos]);
+                insert(pos);
+                pos++;
+            }
+        }
+
+        writeSymbol(256); // End of block.
+        if (bitCount > 0) {
+            writeBits(0, 8 - bitCount);
+        }
+
+        return output.getResult();
+    }
+
+    /**
+     * Decompress some raw DEFLATE data.
+     *
+     * @param data Compressed data.
+     * @param expectedSize Size of the decompressed data, if known. Used to allocate the memory.
+     * @return Decompressed data.
+     */
+    static inflateRaw(data: Uint8Array, expectedSize?: number): ArrayBuffer {
+        const output = new CoreDeflateOutput(expectedSize || data.length * 4);
+        let pos = 0,
+            bitBuffer = 0,
+            bitCount = 0,
+            last = 0;
+
+        const bits = (count: number): number => {
+            while (bitCount < count) {
+                if (pos >= data.length) {
+                    throw new CoreError('Invalid compressed data: unexpected end of data.');
+                }
+                bitBuffer |= data[pos++] << bitCount;
+                bitCount += 8;
+            }
+
+            const value = bitBuffer & ((1 << count) - 1);
+            bitBuffer >>>= count;
+            bitCount -= count;
+
+            return value;
+        };
+
+        const decode = (huffman: CoreDeflateHuffman): number => {
+            let code = 0,
+                first = 0,
+                index = 0;
+
+            for (let length = 1; length <= MAX_BITS; length++) {
+                code |= bits(1);
+                const count = huffman.counts[length];
+                if (code - count < first) {
+                    return huffman.symbols[index + (code - first)];
+                }
+                index += count;
+                first += count;
+                first <<= 1;
+                code <<= 1;
+            }
+
+            throw new CoreError('Invalid compressed data: invalid code.');
+        };
+
+        const inflateCodes = (lengthCode: CoreDeflateHuffman, distCode: CoreDeflateHuffman): void => {
+            for (;;) {
+                let symbol = decode(lengthCode);
+
+                if (symbol < 256) {
+                    output.ensure(1);
+                    output.data[output.length++] = symbol;
+                } else if (symbol == 256) {
+                    return;
+                } else {
+                    symbol -= 257;
+                    if (symbol >= 29) {
+                        throw new CoreError('Invalid compressed data: invalid length.');
+                    }
+
+                    const length = LENGTH_BASE[symbol] + bits(LENGTH_EXTRA[symbol]);
+                    const distSymbol = decode(distCode);
+                    if (distSymbol >= 30) {
+                        throw new CoreError('Invalid compressed data: invalid distance.');
+                    }
+
+                    const distance = DIST_BASE[distSymbol] + bits(DIST_EXTRA[distSymbol]);
+                    if (distance > output.length) {
+                        throw new CoreError('Invalid compressed data: distance too far back.');
+                    }
+
+                    output.ensure(length);
+                    const out = output.data;
+                    for (let i = 0; i < length; i++) {
+                        out[output.length] = out[output.length - distance];
+                        output.length++;
+                    }
+                }
+            }
+        };
+
+        while (!last) {
+            last = bits(1);
+            const type = bits(2);
+
+            if (type == 0) {
+                // Stored block. Discard the remaining bits of the current byte.
+                bitBuffer = 0;
+                bitCount = 0;
+
+                if (pos + 4 > data.length) {
+                    throw new CoreError('Invalid compressed data: unexpected end of data.');
+                }
+
+                const length = data[pos] | (data[pos + 1] << 8);
+                const nlength = data[pos + 2] | (data[pos + 3] << 8);
+                pos += 4;
+
+                if (length != (~nlength & 0xFFFF) || pos + length > data.length) {
+                    throw new CoreError('Invalid compressed data: invalid stored block.');
+                }
+
+                output.ensure(length);
+                output.data.set(data.subarray(pos, pos + length), output.length);
+                output.length += length;
+                pos += length;
+            } else if (type == 1) {
+                CoreDeflate.getFixedCodes();
+                inflateCodes(CoreDeflate.fixedLengthCode, CoreDeflate.fixedDistCode);
+            } else if (type == 2) {
+                const codes = CoreDeflate.readDynamicCodes(bits, decode);
+                inflateCodes(codes[0], codes[1]);
+            } else {
+                throw new CoreError('Invalid compressed data: invalid block type.');
+            }
+        }
+
+        return output.getResult();
+    }
+
+    /**
+     * Read the Huffman codes of a dynamic block.
+     *
+     * @param bits Function to read bits.
+     * @param decode Function to decode a symbol.
+     * @return Literal/length code and distance code.
+     */
+    protected static readDynamicCodes(bits: (count: number) => number, decode: (huffman: CoreDeflateHuffman) => number)
+        : CoreDeflateHuffman[] {
+
+        const lengthCount = bits(5) + 257,
+            distCount = bits(5) + 1,
+            codeCount = bits(4) + 4;
+
+        if (lengthCount > 286 || distCount > 30) {
+            throw new CoreError('Invalid compressed data: too many codes.');
+        }
+
+        const lengths = new Uint8Array(320);
+        for (let i = 0; i < codeCount; i++) {
+            lengths[CODE_LENGTH_ORDER[i]] = bits(3);
+        }
+
+        const lengthsCode = CoreDeflate.buildHuffman(lengths, 19);
+        const codeLengths = new Uint8Array(lengthCount + distCount);
+        let index = 0;
+
+        while (index < lengthCount + distCount) {
+            const symbol = decode(lengthsCode);
+            let value = 0,
+                repeat: number;
+
+            if (symbol < 16) {
+                codeLengths[index++] = symbol;
+                continue;
+            } else if (symbol == 16) {
+                if (index == 0) {
+                    throw new CoreError('Invalid compressed data: repeat with no previous length.');
+                }
+                value = codeLengths[index - 1];
+                repeat = 3 + bits(2);
+            } else if (symbol == 17) {
+                repeat = 3 + bits(3);
+            } else {
+                repeat = 11 + bits(7);
+            }
+
+            if (index + repeat > lengthCount + distCount) {
+                throw new CoreError('Invalid compressed data: too many lengths.');
+            }
+            while (repeat--) {
+                codeLengths[index++] = value;
+            }
+        }
+
+        return [
+            CoreDeflate.buildHuffman(codeLengths.subarray(0, lengthCount), lengthCount),
+            CoreDeflate.buildHuffman(codeLengths.subarray(lengthCount), distCount)
+        ];
+    }
+
+    /**
+     * Build a canonical Huffman code from the lengths of the codes of each symbol.
+     *
+     * @param lengths Length of the code of each symbol.
+     * @param count Number of symbols.
+     * @return Huffman code.
+     */
+    protected static buildHuffman(lengths: Uint8Array, count: number): CoreDeflateHuffman {
+        const counts = new Int16Array(MAX_BITS + 1),
+            offsets = new Int16Array(MAX_BITS + 1),
+            symbols = new Int16Array(count);
+
+        for (let i = 0; i < count; i++) {
+            counts[lengths[i]]++;
+        }
+        counts[0] = 0;
+
+        for (let length = 1; length < MAX_BITS; length++) {
+            offsets[length + 1] = offsets[length] + counts[length];
+        }
+
+        for (let i = 0; i < count; i++) {
+            if (lengths[i]) {
+                symbols[offsets[lengths[i]]++] = i;
+            }
+        }
+
+        return { counts: counts, symbols: symbols };
+    }
+
+    /**
+     * Get the fixed Huffman codes, creating them if needed.
+     *
+     * @return Length and code (bit-reversed, ready to write) of each literal/length symbol.
+     */
+    protected static getFixedCodes(): { lengths: Uint8Array, codes: Uint16Array } {
+        if (!CoreDeflate.fixedCodes) {
+            const lengths = new Uint8Array(288),
+                codes = new Uint16Array(288);
+
+            for (let i = 0; i < 288; i++) {
+                let code: number;
+
+                if (i < 144) {
+                    lengths[i] = 8;
+                    code = 0x30 + i;
+                } else if (i < 256) {
+                    lengths[i] = 9;
+                    code = 0x190 + i - 144;
+                } else if (i < 280) {
+                    lengths[i] = 7;
+                    code = i - 256;
+                } else {
+                    lengths[i] = 8;
+                    code = 0xC0 + i - 280;
+                }
+
+                codes[i] = CoreDeflate.reverseBits(code, lengths[i]);
+            }
+
+            const distLengths = new Uint8Array(30);
+            distLengths.fill(5);
+
+            CoreDeflate.fixedCodes = { lengths: lengths, codes: codes };
+            CoreDeflate.fixedLengthCode = CoreDeflate.buildHuffman(lengths, 288);
+            CoreDeflate.fixedDistCode = CoreDeflate.buildHuffman(distLengths, 30);
+        }
+
+        return CoreDeflate.fixedCodes;
+    }
+
+    /**
+     * Reverse the bits of a code. Huffman codes are written starting with the most significant bit.
+     *
+     * @param code Code.
+     * @param length Number of bits of the code.
+     * @return Reversed code.
+     */
+    protected static reverseBits(code: number, length: number): number {
+        let result = 0;
+
+        for (let i = 0; i < length; i++) {
+            result = (result << 1) | (code & 1);
+            code >>>= 1;
+        }
+
+        return result;
+    }
+
+    /**
+     * Find the index of the greatest base value that is less than or equal to a value.
+     *
+     * @param bases Base values, in ascending order.
+     * @param value Value.
+     * @return Index.
+     */
+    protected static findBase(bases: number[], value: number): number {
+        let index = bases.length - 1;
+
+        while (bases[index] > value) {
+            index--;
+        }
+
+        return index;
+    }
+}
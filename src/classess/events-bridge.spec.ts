@@ -0,0 +1,121 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { Subject } from 'rxjs';
+import { CoreEventsBridge, CoreEventsBridgeMessage } from './events-bridge';
+import { CoreEventsProvider } from '../providers/events';
+import { CoreLoggerProvider } from '../providers/logger';
+
+describe('CoreEventsBridge', () => {
+    let events: CoreEventsProvider;
+    let bridge: CoreEventsBridge;
+    let iab: any;
+    let iabEvents: { [name: string]: Subject<any> };
+
+    /**
+     * Create a message as sent by another context.
+     *
+     * @param name Name of the event.
+     * @return Message.
+     */
+    function createMessage(name: string): CoreEventsBridgeMessage {
+        return {
+            type: CoreEventsBridge.MESSAGE_TYPE,
+            channel: 'core_events',
+            id: 'other_' + Math.random(),
+            source: 'other',
+            name: name,
+            data: { siteId: 'site' },
+        };
+    }
+
+    beforeEach(() => {
+        const logger = new CoreLoggerProvider();
+        logger.getTransports().forEach((transport) => {
+            logger.removeTransport(transport);
+        });
+
+        events = new CoreEventsProvider(logger);
+        bridge = new CoreEventsBridge(events, logger.getInstance('CoreEventsBridge'), [CoreEventsProvider.LOGOUT],
+            { allowedOrigins: ['https://app.example.com'] });
+
+        iabEvents = { loadstart: new Subject(), loadstop: new Subject(), message: new Subject() };
+        iab = {
+            on: (name: string): Subject<any> => iabEvents[name],
+            executeScript: jasmine.createSpy('executeScript'),
+        };
+    });
+
+    it('exchanges events with InAppBrowser pages from the allowed origins', () => {
+        spyOn(events, 'trigger').and.callThrough();
+        bridge.addInAppBrowser(iab, ['https://site.example.com']);
+        iabEvents.loadstart.next({ url: 'https://site.example.com/page' });
+        iabEvents.loadstop.next({ url: 'https://site.example.com/page' });
+
+        iabEvents.message.next({ data: createMessage(CoreEventsProvider.LOGOUT) });
+        expect(events.trigger).toHaveBeenCalledWith(CoreEventsProvider.LOGOUT, { siteId: 'site' });
+
+        bridge.send(CoreEventsProvider.LOGOUT, { siteId: 'site' });
+        expect(iab.executeScript).toHaveBeenCalledTimes(1);
+
+        const code = iab.executeScript.calls.mostRecent().args[0].code;
+        expect(code).toContain(', "https://site.example.com");');
+        expect(code).not.toContain('"*"');
+    });
+
+    it('ignores InAppBrowser pages from other origins or still loading', () => {
+        spyOn(events, 'trigger').and.callThrough();
+        bridge.addInAppBrowser(iab, ['https://site.example.com']);
+
+        // Still loading the first page.
+        iabEvents.loadstart.next({ url: 'https://site.example.com/page' });
+        iabEvents.message.next({ data: createMessage(CoreEventsProvider.LOGOUT) });
+        bridge.send(CoreEventsProvider.LOGOUT, {});
+
+        // Navigated to another origin.
+        iabEvents.loadstop.next({ url: 'https://evil.example.com/page' });
+        iabEvents.message.next({ data: createMessage(CoreEventsProvider.LOGOUT) });
+        bridge.send(CoreEventsProvider.LOGOUT, {});
+
+        expect(events.trigger).not.toHaveBeenCalled();
+        expect(iab.executeScript).not.toHaveBeenCalled();
+    });
+
+    it('requires the allowed origins to add an InAppBrowser', () => {
+        spyOn(events, 'trigger').and.callThrough();
+        bridge.addInAppBrowser(iab, ['*']);
+        iabEvents.loadstop.next({ url: 'https://evil.example.com/page' });
+        iabEvents.message.next({ data: createMessage(CoreEventsProvider.LOGOUT) });
+        bridge.send(CoreEventsProvider.LOGOUT, {});
+
+        expect(events.trigger).not.toHaveBeenCalled();
+        expect(iab.executeScript).not.toHaveBeenCalled();
+    });
+
+    it('doesn\'t send events to windows with any origin', () => {
+        const target = <any> { postMessage: jasmine.createSpy('postMessage') };
+        bridge.addTarget(target, '*');
+        bridge.send(CoreEventsProvider.LOGOUT, {});
+
+        expect(target.postMessage).not.toHaveBeenCalled();
+    });
+
+    it('gets the origin of URLs', () => {
+        expect(CoreEventsBridge.getUrlOrigin('https://site.example.com:8080/a?b=c')).toEqual('https://site.example.com:8080');
+        expect(CoreEventsBridge.getUrlOrigin('file:///data/index.html')).toBeUndefined();
+        expect(CoreEventsBridge.getUrlOrigin('not a url')).toBeUndefined();
+        expect(CoreEventsBridge.getUrlOrigin(undefined)).toBeUndefined();
+    });
+});
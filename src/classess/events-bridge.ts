@@ -0,0 +1,384 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { InAppBrowserObject } from '@ionic-native/in-app-browser';
+import { Subscription } from 'rxjs';
+import { CoreEventsProvider, CoreEventName } from '../providers/events';
+
+/**
+ * Options to create a bridge.
+ */
+export interface CoreEventsBridgeOptions {
+    /**
+     * Name of the channel. Only the contexts using the same channel name receive the events. Defaults to 'core_events'.
+     */
+    channelName?: string;
+
+    /**
+     * Origins allowed to send events through postMessage. Defaults to the origin of the current window.
+     */
+    allowedOrigins?: string[];
+}
+
+/**
+ * Message sent between contexts.
+ */
+export interface CoreEventsBridgeMessage {
+    type: string; // Always CoreEventsBridge.MESSAGE_TYPE.
+    channel: string; // Name of the channel.
+    id: string; // Unique ID of the message.
+    source: string; // ID of the context that sent the message.
+    name: string; // Name of the event.
+    data: any; // Data of the event.
+    unique?: boolean; // Whether it's a unique event.
+}
+
+/**
+ * Target window that receives the events through postMessage.
+ */
+interface CoreEventsBridgeTarget {
+    window: Window;
+    origin: string;
+}
+
+/**
+ * InAppBrowser window that exchanges events with the bridge.
+ */
+interface CoreEventsBridgeInAppBrowser {
+    iab: InAppBrowserObject;
+    allowedOrigins: string[]; // Origins of the pages allowed to exchange events.
+    origin?: string; // Origin of the page currently loaded. Undefined while a page is loading.
+    subscription: Subscription;
+}
+
+/**
+ * Class to send some events to other contexts (windows, iframes, InAppBrowser) and to trigger the events received from them.
+ * It uses BroadcastChannel to reach the windows with the same origin, and postMessage for the rest of targets and when
+ * BroadcastChannel isn't supported.
+ *
+ * Use CoreEventsProvider.enableBridge to create it.
+ */
+export class CoreEventsBridge {
+    static MESSAGE_TYPE = 'core_events_bridge';
+    static MAX_RECEIVED_IDS = 200;
+
+    protected contextId: string;
+    protected channelName: string;
+    protected allowedOrigins: string[];
+    protected channel: any; // BroadcastChannel. Undefined if not supported.
+    protected targets: CoreEventsBridgeTarget[] = [];
+    protected inAppBrowsers: CoreEventsBridgeInAppBrowser[] = [];
+    protected receivedIds: string[] = []; // Last received messages, to ignore messages received more than once.
+    protected receiving = false; // Whether a received event is being triggered.
+    protected messageCounter = 0;
+    protected messageListener: (event: MessageEvent) => void;
+
+    /**
+     * Constructor.
+     *
+     * @param eventsProvider Events provider.
+     * @param logger Logger instance.
+     * @param eventNames Names of the events to bridge.
+     * @param options Options.
+     */
+    constructor(protected eventsProvider: CoreEventsProvider, protected logger: any, protected eventNames: CoreEventName[],
+            options: CoreEventsBridgeOptions = {}) {
+
+        this.contextId = Date.now().toString(36) + Math.random().toString(36).substr(2);
+        this.channelName = options.channelName || 'core_events';
+        this.allowedOrigins = options.allowedOrigins || [window.location.origin];
+    }
+
+    /**
+     * Get the origin of a URL.
+     *
+     * @param url URL.
+     * @return Origin, undefined if the URL isn't valid or has an opaque origin (e.g. file: URLs).
+     */
+    static getUrlOrigin(url: string): string {
+        if (!url) {
+            return;
+        }
+
+        try {
+            const origin = new URL(url).origin;
+
+            return origin && origin != 'null' ? origin : undefined;
+        } catch (error) {
+            // Not a valid URL.
+            return;
+        }
+    }
+
+    /**
+     * Start listening to messages from other contexts.
+     */
+    start(): void {
+        this.messageListener = (event: MessageEvent): void => {
+            this.receive(event.data, event.origin);
+        };
+
+        const BroadcastChannelClass = (<any> window).BroadcastChannel;
+        if (BroadcastChannelClass) {
+            this.channel = new BroadcastChannelClass(this.channelName);
+            this.channel.onmessage = (event: MessageEvent): void => {
+                // BroadcastChannel only communicates windows with the same origin, no need to check it.
+                this.receive(event.data, event.origin, true);
+            };
+        } else {
+            // Not supported, use postMessage with the windows that opened or embed this one.
+            if (window.parent && window.parent !== window) {
+                this.addTarget(window.parent, window.location.origin);
+            }
+            if (window.opener) {
+                this.addTarget(window.opener, window.location.origin);
+            }
+        }
+
+        window.addEventListener('message', this.messageListener);
+    }
+
+    /**
+     * Stop listening to messages and sending events.
+     */
+    stop(): void {
+        if (this.channel) {
+            this.channel.close();
+            delete this.channel;
+        }
+
+        window.removeEventListener('message', this.messageListener);
+        this.inAppBrowsers.forEach((entry) => {
+            entry.subscription.unsubscribe();
+        });
+        this.inAppBrowsers = [];
+        this.targets = [];
+    }
+
+    /**
+     * Send the events to a window using postMessage, e.g. an iframe with embedded content.
+     *
+     * @param target Window to send the events to.
+     * @param origin Origin of the window. Its messages will be accepted too. It cannot be '*'.
+     */
+    addTarget(target: Window, origin: string): void {
+        if (!origin || origin == '*') {
+            this.logger.error('Events cannot be sent to a window without specifying its origin.');
+
+            return;
+        }
+
+        this.removeTarget(target);
+        this.targets.push({ window: target, origin: origin });
+
+        if (this.allowedOrigins.indexOf(origin) == -1) {
+            this.allowedOrigins.push(origin);
+        }
+    }
+
+    /**
+     * Stop sending the events to a window.
+     *
+     * @param target Window.
+     */
+    removeTarget(target: Window): void {
+        this.targets = this.targets.filter((entry) => {
+            return entry.window !== target;
+        });
+    }
+
+    /**
+     * Exchange events with an InAppBrowser window. The page loaded in the InAppBrowser receives the events as window
+     * messages, and it can send events using webkit.messageHandlers.cordova_iab.postMessage(JSON.stringify(message)).
+     * Events are only exchanged while the InAppBrowser displays a page from one of the allowed origins.
+     *
+     * @param iab InAppBrowser instance.
+     * @param allowedOrigins Origins of the pages allowed to exchange events, e.g. ['https://example.com'].
+     */
+    addInAppBrowser(iab: InAppBrowserObject, allowedOrigins: string[]): void {
+        this.removeInAppBrowser(iab);
+
+        allowedOrigins = (allowedOrigins || []).filter((origin) => {
+            return !!origin && origin != '*' && origin != 'null';
+        });
+        if (!allowedOrigins.length) {
+            this.logger.error('Events cannot be exchanged with an InAppBrowser without specifying the allowed origins.');
+
+            return;
+        }
+
+        const entry: CoreEventsBridgeInAppBrowser = {
+            iab: iab,
+            allowedOrigins: allowedOrigins,
+            subscription: new Subscription(),
+        };
+
+        entry.subscription.add(iab.on('loadstart').subscribe(() => {
+            // The page is changing, don't exchange events until we know the new origin.
+            delete entry.origin;
+        }));
+        entry.subscription.add(iab.on('loadstop').subscribe((event: any) => {
+            entry.origin = CoreEventsBridge.getUrlOrigin(event && event.url);
+        }));
+        entry.subscription.add(iab.on('message').subscribe((event: any) => {
+            if (!this.isInAppBrowserAllowed(entry)) {
+                this.logger.warn(`Ignored message received from an InAppBrowser page with a not allowed origin: ${entry.origin}`);
+
+                return;
+            }
+
+            this.receive(event && event.data, entry.origin, true);
+        }));
+
+        this.inAppBrowsers.push(entry);
+    }
+
+    /**
+     * Stop exchanging events with an InAppBrowser window.
+     *
+     * @param iab InAppBrowser instance.
+     */
+    removeInAppBrowser(iab: InAppBrowserObject): void {
+        this.inAppBrowsers = this.inAppBrowsers.filter((entry) => {
+            if (entry.iab === iab) {
+                entry.subscription.unsubscribe();
+
+                return false;
+            }
+
+            return true;
+        });
+    }
+
+    /**
+     * Send an event triggered in this context to the rest of contexts.
+     *
+     * @param eventName Name of the event.
+     * @param data Data of the event.
+     * @param unique Whether it's a unique event.
+     */
+    send(eventName: string, data: any, unique?: boolean): void {
+        if (this.receiving || this.eventNames.indexOf(<CoreEventName> eventName) == -1) {
+            // Don't send back the events received from other contexts.
+            return;
+        }
+
+        let message: CoreEventsBridgeMessage;
+        try {
+            message = {
+                type: CoreEventsBridge.MESSAGE_TYPE,
+                channel: this.channelName,
+                id: this.contextId + '_' + (this.messageCounter++),
+                source: this.contextId,
+                name: eventName,
+                // Make sure the data can be cloned, it will be received as a plain object.
+                data: typeof data == 'undefined' ? data : JSON.parse(JSON.stringify(data)),
+                unique: !!unique
+            };
+        } catch (error) {
+            this.logger.error(`Event '${eventName}' cannot be sent to other contexts, its data cannot be serialized.`, error);
+
+            return;
+        }
+
+        this.logger.debug(`Sending event '${eventName}' to other contexts.`);
+
+        if (this.channel) {
+            this.channel.postMessage(message);
+        }
+
+        this.targets.forEach((target) => {
+            try {
+                target.window.postMessage(message, target.origin);
+            } catch (error) {
+                this.logger.error('Error sending event to a window.', error);
+            }
+        });
+
+        this.inAppBrowsers.forEach((entry) => {
+            if (!this.isInAppBrowserAllowed(entry)) {
+                // The page loaded isn't allowed to receive events.
+                return;
+            }
+
+            // Use the origin as target, so the message isn't delivered if the page changed after checking it.
+            entry.iab.executeScript({
+                code: 'window.postMessage(' + JSON.stringify(message) + ', ' + JSON.stringify(entry.origin) + ');'
+            });
+        });
+    }
+
+    /**
+     * Check whether the page loaded in an InAppBrowser is allowed to exchange events.
+     *
+     * @param entry InAppBrowser entry.
+     * @return Whether it's allowed.
+     */
+    protected isInAppBrowserAllowed(entry: CoreEventsBridgeInAppBrowser): boolean {
+        return !!entry.origin && entry.allowedOrigins.indexOf(entry.origin) != -1;
+    }
+
+    /**
+     * Treat a message received from another context.
+     *
+     * @param message Message received. It can be an object or a JSON string.
+     * @param origin Origin of the sender.
+     * @param trusted Whether the sender is trusted, so the origin doesn't need to be checked.
+     */
+    protected receive(message: any, origin?: string, trusted?: boolean): void {
+        if (typeof message == 'string') {
+            try {
+                message = JSON.parse(message);
+            } catch (error) {
+                // Not a bridge message.
+                return;
+            }
+        }
+
+        if (!message || message.type != CoreEventsBridge.MESSAGE_TYPE || message.channel != this.channelName) {
+            // Not a bridge message or belongs to another channel.
+            return;
+        }
+
+        if (!trusted && this.allowedOrigins.indexOf(origin) == -1) {
+            this.logger.warn(`Ignored event '${message.name}' received from a not allowed origin: ${origin}`);
+
+            return;
+        }
+
+        if (message.source == this.contextId || this.receivedIds.indexOf(message.id) != -1 ||
+                this.eventNames.indexOf(message.name) == -1) {
+            // Sent by this context, already received or not bridged.
+            return;
+        }
+
+        this.receivedIds.push(message.id);
+        if (this.receivedIds.length > CoreEventsBridge.MAX_RECEIVED_IDS) {
+            this.receivedIds.shift();
+        }
+
+        this.logger.debug(`Event '${message.name}' received from another context.`);
+
+        this.receiving = true;
+        try {
+            if (message.unique) {
+                this.eventsProvider.triggerUnique(message.name, message.data);
+            } else {
+                this.eventsProvider.trigger(message.name, message.data);
+            }
+        } finally {
+            this.receiving = false;
+        }
+    }
+}
@@ -0,0 +1,60 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { CoreEventsStore, CoreEventStoredEvent } from '../providers/events';
+import { CoreFileProvider } from '../providers/file';
+
+/**
+ * Store to persist unique events in a JSON file using CoreFileProvider. To use it:
+ * eventsProvider.enablePersistence(new CoreEventsFileStore(fileProvider), [CoreEventsProvider.DEVICE_REGISTERED_IN_MOODLE]);
+ */
+export class CoreEventsFileStore implements CoreEventsStore {
+    static FILE_PATH = 'events/persistent.json';
+
+    /**
+     * Constructor.
+     *
+     * @param fileProvider File provider.
+     * @param path Relative path of the file where to store the events.
+     */
+    constructor(protected fileProvider: CoreFileProvider, protected path: string = CoreEventsFileStore.FILE_PATH) { }
+
+    /**
+     * Load the stored events.
+     *
+     * @return Promise resolved with the stored events.
+     */
+    async load(): Promise<CoreEventStoredEvent[]> {
+        await this.fileProvider.init();
+
+        try {
+            const events = await this.fileProvider.readFile(this.path, CoreFileProvider.FORMATJSON);
+
+            return Array.isArray(events) ? events : [];
+        } catch (error) {
+            // The file doesn't exist yet.
+            return [];
+        }
+    }
+
+    /**
+     * Store the events, replacing the ones already stored.
+     *
+     * @param events Events to store.
+     * @return Promise resolved when done.
+     */
+    save(events: CoreEventStoredEvent[]): Promise<any> {
+        return this.fileProvider.writeFileAtomic(this.path, JSON.stringify(events));
+    }
+}
@@ -0,0 +1,179 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { CoreEventsProvider, CoreEventName } from '../providers/events';
+
+/**
+ * Event recorded by CoreEventsRecorder.
+ */
+export interface CoreEventRecord {
+    name: CoreEventName; // Name of the event.
+    data: any; // Snapshot of the data passed to the event.
+    siteId?: string; // Site of the event, if any.
+    timestamp: number; // Time when the event was triggered.
+    listeners: number; // Number of listeners notified.
+    unique?: boolean; // Whether it was triggered with triggerUnique.
+}
+
+/**
+ * Options to replay the recorded events.
+ */
+export interface CoreEventsReplayOptions {
+    /**
+     * Whether to wait between events the same time that passed between them when they were recorded. Defaults to false.
+     */
+    preserveTiming?: boolean;
+
+    /**
+     * Function to filter the events to replay.
+     */
+    filter?: (record: CoreEventRecord) => boolean;
+}
+
+/**
+ * Class to keep a bounded history of the events triggered, export it and replay it in another CoreEventsProvider.
+ *
+ * Use CoreEventsProvider.startRecording to create it. To reproduce a recorded session in a unit test:
+ * CoreEventsRecorder.fromJSON(json).replay(eventsProvider);
+ */
+export class CoreEventsRecorder {
+    static DEFAULT_MAX_ENTRIES = 500;
+    static EXPORT_VERSION = 1;
+
+    protected records: CoreEventRecord[] = [];
+
+    /**
+     * Constructor.
+     *
+     * @param maxEntries Max number of events to keep. When the limit is reached the oldest events are discarded.
+     */
+    constructor(protected maxEntries: number = CoreEventsRecorder.DEFAULT_MAX_ENTRIES) { }
+
+    /**
+     * Create a recorder with the events exported by another recorder.
+     *
+     * @param json Exported events.
+     * @return Recorder.
+     */
+    static fromJSON(json: string): CoreEventsRecorder {
+        const exported = JSON.parse(json);
+        const records: CoreEventRecord[] = Array.isArray(exported) ? exported : (exported && exported.records) || [];
+        const recorder = new CoreEventsRecorder(Math.max(records.length, CoreEventsRecorder.DEFAULT_MAX_ENTRIES));
+
+        recorder.records = records;
+
+        return recorder;
+    }
+
+    /**
+     * Record an event.
+     *
+     * @param eventName Name of the event.
+     * @param data Data passed to the event.
+     * @param listeners Number of listeners notified.
+     * @param unique Whether it was triggered with triggerUnique.
+     */
+    record(eventName: CoreEventName, data: any, listeners: number, unique?: boolean): void {
+        this.records.push({
+            name: eventName,
+            data: this.snapshot(data),
+            siteId: data && typeof data == 'object' ? data.siteId : undefined,
+            timestamp: Date.now(),
+            listeners: listeners,
+            unique: !!unique
+        });
+
+        if (this.records.length > this.maxEntries) {
+            this.records.splice(0, this.records.length - this.maxEntries);
+        }
+    }
+
+    /**
+     * Get the recorded events, from oldest to newest.
+     *
+     * @return Recorded events.
+     */
+    getRecords(): CoreEventRecord[] {
+        return this.records.slice();
+    }
+
+    /**
+     * Remove all the recorded events.
+     */
+    clear(): void {
+        this.records = [];
+    }
+
+    /**
+     * Export the recorded events as JSON.
+     *
+     * @return JSON string.
+     */
+    export(): string {
+        return JSON.stringify({
+            version: CoreEventsRecorder.EXPORT_VERSION,
+            records: this.records
+        });
+    }
+
+    /**
+     * Trigger the recorded events in a CoreEventsProvider, in the same order they were recorded.
+     *
+     * @param eventsProvider Provider where to trigger the events, usually a new one.
+     * @param options Options.
+     * @return Promise resolved when all the events have been triggered.
+     */
+    async replay(eventsProvider: CoreEventsProvider, options: CoreEventsReplayOptions = {}): Promise<void> {
+        const records = this.records.filter((record) => {
+            return !options.filter || options.filter(record);
+        });
+
+        for (let i = 0; i < records.length; i++) {
+            const record = records[i];
+
+            if (options.preserveTiming && i > 0) {
+                await new Promise((resolve): void => {
+                    setTimeout(resolve, Math.max(0, record.timestamp - records[i - 1].timestamp));
+                });
+            }
+
+            // Use a copy of the data, listeners could modify it.
+            const data = this.snapshot(record.data);
+
+            if (record.unique) {
+                eventsProvider.triggerUnique(record.name, data, record.siteId);
+            } else {
+                eventsProvider.trigger(record.name, data, record.siteId);
+            }
+        }
+    }
+
+    /**
+     * Get a copy of some data that doesn't change if the original data is modified.
+     *
+     * @param data Data to copy.
+     * @return Copy of the data. If it cannot be serialized, a string describing it.
+     */
+    protected snapshot(data: any): any {
+        if (typeof data == 'undefined') {
+            return data;
+        }
+
+        try {
+            return JSON.parse(JSON.stringify(data));
+        } catch (error) {
+            return String(data);
+        }
+    }
+}
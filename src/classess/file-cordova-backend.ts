@@ -0,0 +1,356 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Platform } from 'ionic-angular';
+import { File, FileEntry, DirectoryEntry, Entry, Metadata } from '@ionic-native/file';
+import { CoreAppProvider } from '../providers/app';
+import { CoreFileBackend, CoreFileProvider } from '../providers/file';
+import { CoreMimetypeUtilsProvider } from '../providers/utils/mimetype';
+import { CoreTextUtilsProvider } from '../providers/utils/text';
+
+/**
+ * Storage backend that uses the Cordova File plugin. It's the default backend of CoreFileProvider.
+ */
+export class CoreFileCordovaBackend implements CoreFileBackend {
+    protected basePath = '';
+    protected isHTMLAPI = false;
+
+    /**
+     * Constructor.
+     *
+     * @param file Ionic Native File.
+     * @param platform Platform.
+     * @param coreApp App provider.
+     * @param mimeUtils Mimetype utils.
+     * @param textUtils Text utils.
+     * @param logger Logger instance to use.
+     */
+    constructor(protected file: File,
+        protected platform: Platform,
+        protected coreApp: CoreAppProvider,
+        protected mimeUtils: CoreMimetypeUtilsProvider,
+        protected textUtils: CoreTextUtilsProvider,
+        protected logger: any
+    ) { }
+
+    /**
+     * Sets basePath to use with HTML API.
+     *
+     * @param path Base path to use.
+     */
+    setHTMLBasePath(path: string): void {
+        this.isHTMLAPI = true;
+        this.basePath = path;
+    }
+
+    /**
+     * Initialize the backend.
+     *
+     * @return Promise resolved with the base path.
+     */
+    init(): Promise<string> {
+        return this.platform.ready().then((): string | Promise<string> => {
+
+            if (this.coreApp.isAndroid()) {
+                this.basePath = this.file.externalApplicationStorageDirectory || this.basePath;
+            } else if (this.coreApp.isIOS()) {
+                this.basePath = this.file.documentsDirectory || this.basePath;
+            } else if (this.basePath === '') {
+                this.logger.error('Error getting device OS.');
+
+                return Promise.reject(null);
+            }
+
+            return this.basePath;
+        });
+    }
+
+    /**
+     * Get a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with the file.
+     */
+    getFile(path: string): Promise<FileEntry> {
+        return this.file.resolveLocalFilesystemUrl(this.addBasePathIfNeeded(path)).then((entry) => {
+            return <FileEntry> entry;
+        });
+    }
+
+    /**
+     * Get a directory.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the directory.
+     */
+    getDir(path: string): Promise<DirectoryEntry> {
+        return this.file.resolveDirectoryUrl(this.addBasePathIfNeeded(path));
+    }
+
+    /**
+     * Create a directory, including the parent directories.
+     *
+     * @param path Relative path to the directory.
+     * @param failIfExists True if it should fail if the directory exists, false otherwise.
+     * @return Promise resolved with the directory.
+     */
+    createDir(path: string, failIfExists?: boolean): Promise<DirectoryEntry> {
+        return this.create(true, path, failIfExists);
+    }
+
+    /**
+     * Create a file, including the parent directories.
+     *
+     * @param path Relative path to the file.
+     * @param failIfExists True if it should fail if the file exists, false otherwise.
+     * @return Promise resolved with the file.
+     */
+    createFile(path: string, failIfExists?: boolean): Promise<FileEntry> {
+        return this.create(false, path, failIfExists);
+    }
+
+    /**
+     * Remove a directory and all its contents.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved when done.
+     */
+    removeDir(path: string): Promise<any> {
+        return this.file.removeRecursively(this.basePath, path);
+    }
+
+    /**
+     * Remove a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved when done.
+     */
+    removeFile(path: string): Promise<any> {
+        return this.file.removeFile(this.basePath, path).catch((error) => {
+            // The delete can fail if the path has encoded characters. Try again if that's the case.
+            const decodedPath = decodeURI(path);
+
+            if (decodedPath != path) {
+                return this.file.removeFile(this.basePath, decodedPath);
+            } else {
+                return Promise.reject(error);
+            }
+        });
+    }
+
+    /**
+     * Get the contents of a directory (not subdirectories).
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the entries.
+     */
+    listDir(path: string): Promise<Entry[]> {
+        return this.file.listDir(this.basePath, path);
+    }
+
+    /**
+     * Read a file.
+     *
+     * @param path Relative path to the file.
+     * @param format Format to read the file: FORMATTEXT, FORMATDATAURL, FORMATBINARYSTRING or FORMATARRAYBUFFER.
+     * @return Promise resolved with the contents.
+     */
+    readFile(path: string, format: number): Promise<any> {
+        switch (format) {
+            case CoreFileProvider.FORMATDATAURL:
+                return this.file.readAsDataURL(this.basePath, path);
+            case CoreFileProvider.FORMATBINARYSTRING:
+                return this.file.readAsBinaryString(this.basePath, path);
+            case CoreFileProvider.FORMATARRAYBUFFER:
+                return this.file.readAsArrayBuffer(this.basePath, path);
+            default:
+                return this.file.readAsText(this.basePath, path);
+        }
+    }
+
+    /**
+     * Read a part of a file.
+     *
+     * @param path Relative path to the file.
+     * @param offset Position where to start reading, in bytes.
+     * @param length Number of bytes to read.
+     * @return Promise resolved with the data read.
+     */
+    readFileChunk(path: string, offset: number, length: number): Promise<ArrayBuffer> {
+        return this.getFile(path).then((fileEntry) => {
+            return new Promise<Blob>((resolve, reject): void => {
+                fileEntry.file(resolve, reject);
+            });
+        }).then((file) => {
+            return new Promise<ArrayBuffer>((resolve, reject): void => {
+                // Only the slice is loaded in memory.
+                const reader = new FileReader();
+
+                reader.onloadend = (): void => {
+                    if (reader.result !== undefined && reader.result !== null) {
+                        resolve(reader.result);
+                    } else {
+                        reject(reader.error || { code: null, message: 'READER_ONLOADEND_ERR' });
+                    }
+                };
+
+                reader.readAsArrayBuffer(file.slice(offset, offset + length));
+            });
+        });
+    }
+
+    /**
+     * Write some data in a file. The file and its parent directories are created if needed.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write.
+     * @param append Whether to append the data to the end of the file.
+     * @return Promise resolved with the file.
+     */
+    writeFile(path: string, data: any, append?: boolean): Promise<FileEntry> {
+        // Create file (and parent folders) to prevent errors.
+        return this.createFile(path).then((fileEntry) => {
+            if (this.isHTMLAPI && !this.coreApp.isDesktop() &&
+                (typeof data == 'string' || data.toString() == '[object ArrayBuffer]')) {
+                // We need to write Blobs.
+                const type = this.mimeUtils.getMimeType(this.mimeUtils.getFileExtension(path));
+                data = new Blob([data], { type: type || 'text/plain' });
+            }
+
+            return this.file.writeFile(this.basePath, path, data, { replace: !append, append: !!append }).then(() => {
+                return fileEntry;
+            });
+        });
+    }
+
+    /**
+     * Copy or move a file or a directory. The parent directory of the destination must exist.
+     *
+     * @param from Relative path to the file/dir.
+     * @param to Relative new path of the file/dir.
+     * @param isDir Whether it's a dir or a file.
+     * @param copy Whether to copy. If false, it will move the file.
+     * @return Promise resolved with the new entry.
+     */
+    async copyOrMove(from: string, to: string, isDir: boolean, copy: boolean): Promise<Entry> {
+        const moveCopyFn = copy ?
+            (isDir ? this.file.copyDir.bind(this.file) : this.file.copyFile.bind(this.file)) :
+            (isDir ? this.file.moveDir.bind(this.file) : this.file.moveFile.bind(this.file));
+
+        try {
+            const entry = await moveCopyFn(this.basePath, from, this.basePath, to);
+
+            return entry;
+        } catch (error) {
+            // The copy can fail if the path has encoded characters. Try again if that's the case.
+            const decodedFrom = decodeURI(from);
+            const decodedTo = decodeURI(to);
+
+            if (from != decodedFrom || to != decodedTo) {
+                return moveCopyFn(this.basePath, decodedFrom, this.basePath, decodedTo);
+            } else {
+                return Promise.reject(error);
+            }
+        }
+    }
+
+    /**
+     * Get the metadata of a file or directory.
+     *
+     * @param path Relative path to the file/dir.
+     * @param isDir True if directory, false if file.
+     * @return Promise resolved with the metadata.
+     */
+    getMetadata(path: string, isDir?: boolean): Promise<Metadata> {
+        const promise: Promise<Entry> = isDir ? this.getDir(path) : this.getFile(path);
+
+        return promise.then((entry) => {
+            return new Promise<Metadata>((resolve, reject): void => {
+                entry.getMetadata(resolve, reject);
+            });
+        });
+    }
+
+    /**
+     * Calculate the free space in the disk.
+     * Please notice that this function isn't reliable and it's not documented in the Cordova File plugin.
+     *
+     * @return Promise resolved with the estimated free space in bytes.
+     */
+    calculateFreeSpace(): Promise<number> {
+        return this.file.getFreeDiskSpace().then((size) => {
+            if (this.coreApp.isIOS()) {
+                // In iOS the size is in bytes.
+                return Number(size);
+            }
+
+            // The size is in KB, convert it to bytes.
+            return Number(size) * 1024;
+        });
+    }
+
+    /**
+     * Create a directory or a file.
+     *
+     * @param isDirectory True if a directory should be created, false if it should create a file.
+     * @param path Relative path to the dir/file.
+     * @param failIfExists True if it should fail if the dir/file exists, false otherwise.
+     * @param base Base path to create the dir/file in. If not set, use basePath.
+     * @return Promise to be resolved when the dir/file is created.
+     */
+    protected create(isDirectory: boolean, path: string, failIfExists?: boolean, base?: string): Promise<any> {
+        base = base || this.basePath;
+
+        if (path.indexOf('/') == -1) {
+            if (isDirectory) {
+                this.logger.debug('Create dir ' + path + ' in ' + base);
+
+                return this.file.createDir(base, path, !failIfExists);
+            } else {
+                this.logger.debug('Create file ' + path + ' in ' + base);
+
+                return this.file.createFile(base, path, !failIfExists);
+            }
+        } else {
+            // The file plugin doesn't allow creating more than 1 level at a time (e.g. tmp/folder).
+            // We need to create them 1 by 1.
+            const firstDir = path.substr(0, path.indexOf('/')),
+                restOfPath = path.substr(path.indexOf('/') + 1);
+
+            this.logger.debug('Create dir ' + firstDir + ' in ' + base);
+
+            return this.file.createDir(base, firstDir, true).then((newDirEntry) => {
+                return this.create(isDirectory, restOfPath, failIfExists, newDirEntry.toURL());
+            }).catch((error) => {
+                this.logger.error('Error creating directory ' + firstDir + ' in ' + base);
+
+                return Promise.reject(error);
+            });
+        }
+    }
+
+    /**
+     * Adds the basePath to a path if it doesn't have it already.
+     *
+     * @param path Path to treat.
+     * @return Path with basePath added.
+     */
+    protected addBasePathIfNeeded(path: string): string {
+        if (path.indexOf(this.basePath) > -1) {
+            return path;
+        } else {
+            return this.textUtils.concatenatePaths(this.basePath, path);
+        }
+    }
+}
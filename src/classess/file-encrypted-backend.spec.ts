@@ -0,0 +1,221 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreFileEncryptedBackend } from './file-encrypted-backend';
+import { CoreFileMemoryBackend } from './file-memory-backend';
+import { CoreFileCorruptError } from './file-error';
+import { CoreFileProvider } from '../providers/file';
+
+describe('CoreFileEncryptedBackend', () => {
+    const recordSize = CoreFileEncryptedBackend.RECORD_SIZE;
+    let memory: CoreFileMemoryBackend;
+    let backend: CoreFileEncryptedBackend;
+    let key: CryptoKey;
+
+    /**
+     * Get the error of a promise that must be rejected.
+     *
+     * @param promise Promise.
+     * @return Promise resolved with the error.
+     */
+    async function getError(promise: Promise<any>): Promise<any> {
+        try {
+            await promise;
+        } catch (error) {
+            return error;
+        }
+
+        fail('The promise was not rejected.');
+    }
+
+    /**
+     * Read the stored data of a file and split it in the header and the records.
+     *
+     * @param path Path of the file.
+     * @return Promise resolved with the header and the records, including their length.
+     */
+    async function readRecords(path: string): Promise<Uint8Array[]> {
+        const data = new Uint8Array(await memory.readFile(path, CoreFileProvider.FORMATARRAYBUFFER)),
+            parts = [data.slice(0, CoreFileEncryptedBackend.HEADER_LENGTH)];
+
+        for (let offset = CoreFileEncryptedBackend.HEADER_LENGTH; offset < data.length;) {
+            const end = offset + 4 + CoreFileEncryptedBackend.IV_LENGTH + new DataView(data.buffer, offset).getUint32(0, true);
+
+            parts.push(data.slice(offset, end));
+            offset = end;
+        }
+
+        return parts;
+    }
+
+    /**
+     * Store some parts as the data of a file, without encrypting them.
+     *
+     * @param path Path of the file.
+     * @param parts Parts.
+     * @return Promise resolved when done.
+     */
+    async function writeRecords(path: string, parts: Uint8Array[]): Promise<void> {
+        await memory.writeFile(path, new Blob(parts));
+    }
+
+    beforeEach(async () => {
+        // Use small records so the files have several of them.
+        CoreFileEncryptedBackend.RECORD_SIZE = 4;
+
+        key = await CoreFileEncryptedBackend.generateKey();
+        memory = new CoreFileMemoryBackend();
+        backend = new CoreFileEncryptedBackend(memory, { getKey: (): Promise<CryptoKey> => Promise.resolve(key) });
+        await backend.init();
+    });
+
+    afterEach(() => {
+        CoreFileEncryptedBackend.RECORD_SIZE = recordSize;
+    });
+
+    it('encrypts and decrypts the files', async () => {
+        await backend.writeFile('dir/file.txt', 'Hello world');
+
+        const stored = await memory.readFile('dir/file.txt', CoreFileProvider.FORMATARRAYBUFFER);
+        expect(CoreFileEncryptedBackend.isEncrypted(stored)).toBe(true);
+        expect(new TextDecoder().decode(new Uint8Array(stored))).not.toContain('Hello');
+
+        expect(await backend.readFile('dir/file.txt', CoreFileProvider.FORMATTEXT)).toEqual('Hello world');
+        expect(new TextDecoder().decode(new Uint8Array(await backend.readFileChunk('dir/file.txt', 3, 5)))).toEqual('lo wo');
+        expect((await backend.getMetadata('dir/file.txt')).size).toEqual(11);
+
+        await backend.writeFile('dir/empty.txt', '');
+        expect(await backend.readFile('dir/empty.txt', CoreFileProvider.FORMATTEXT)).toEqual('');
+    });
+
+    it('appends data to encrypted files', async () => {
+        await backend.writeFile('file.txt', 'Hello');
+        await backend.writeFile('file.txt', ' world', true);
+        await backend.writeFile('file.txt', '!', true);
+
+        expect(await backend.readFile('file.txt', CoreFileProvider.FORMATTEXT)).toEqual('Hello world!');
+        expect(new TextDecoder().decode(new Uint8Array(await backend.readFileChunk('file.txt', 8, 10)))).toEqual('rld!');
+    });
+
+    it('only writes the new records when appending', async () => {
+        await backend.writeFile('file.txt', 'Chunk 0;');
+        spyOn(memory, 'writeFile').and.callThrough();
+
+        let expected = 'Chunk 0;';
+        for (let i = 1; i < 5; i++) {
+            const previous = new Uint8Array(await memory.readFile('file.txt', CoreFileProvider.FORMATARRAYBUFFER));
+
+            await backend.writeFile('file.txt', 'Chunk ' + i + ';', true);
+            expected += 'Chunk ' + i + ';';
+
+            const stored = new Uint8Array(await memory.readFile('file.txt', CoreFileProvider.FORMATARRAYBUFFER));
+            expect(stored.slice(0, previous.length)).toEqual(previous);
+            expect(memory.writeFile).toHaveBeenCalledWith('file.txt', jasmine.anything(), true);
+        }
+
+        const emptyRecordLength = 4 + CoreFileEncryptedBackend.IV_LENGTH + CoreFileEncryptedBackend.TAG_LENGTH;
+        (<jasmine.Spy> memory.writeFile).calls.all().forEach((call) => {
+            // Only the records of the new data and the trailer: 2 records of data and 1 trailer.
+            expect(call.args[2]).toBe(true);
+            expect(call.args[1].byteLength).toEqual(3 * emptyRecordLength + 8);
+        });
+        expect(await backend.readFile('file.txt', CoreFileProvider.FORMATTEXT)).toEqual(expected);
+    });
+
+    it('reuses the index of the records to read the files', async () => {
+        for (let i = 0; i < 10; i++) {
+            await backend.writeFile('file.txt', 'Chunk ' + i + ';', i > 0);
+            await backend.readFileChunk('file.txt', 0, 4);
+        }
+        spyOn(memory, 'readFileChunk').and.callThrough();
+
+        // Header, trailer and the 2 records with the data. The lengths of the 30 records aren't read again.
+        expect(new TextDecoder().decode(new Uint8Array(await backend.readFileChunk('file.txt', 72, 8)))).toEqual('Chunk 9;');
+        expect(memory.readFileChunk).toHaveBeenCalledTimes(4);
+
+        await backend.writeFile('file.txt', 'Hello world');
+        expect(new TextDecoder().decode(new Uint8Array(await backend.readFileChunk('file.txt', 4, 7)))).toEqual('o world');
+    });
+
+    it('keeps the files readable after copying or moving them', async () => {
+        await backend.writeFile('dir/a.txt', 'First file');
+        await backend.writeFile('dir/sub/b.txt', 'Second file');
+
+        await backend.copyOrMove('dir/a.txt', 'copy.txt', false, true);
+        await backend.copyOrMove('dir', 'moved', true, false);
+
+        expect(await backend.readFile('copy.txt', CoreFileProvider.FORMATTEXT)).toEqual('First file');
+        expect(await backend.readFile('moved/a.txt', CoreFileProvider.FORMATTEXT)).toEqual('First file');
+        expect(await backend.readFile('moved/sub/b.txt', CoreFileProvider.FORMATTEXT)).toEqual('Second file');
+        expect((await memory.listDir('moved')).map((entry) => entry.name).sort()).toEqual(['a.txt', 'sub']);
+    });
+
+    it('detects reordered, removed and modified records', async () => {
+        await backend.writeFile('file.txt', 'Hello world');
+        const parts = await readRecords('file.txt');
+        expect(parts.length).toEqual(5); // Header, 3 records of data and the trailer.
+
+        await writeRecords('file.txt', [parts[0], parts[2], parts[1], parts[3], parts[4]]);
+        expect(await getError(backend.readFile('file.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+
+        await writeRecords('file.txt', parts.slice(0, 4));
+        expect(await getError(backend.readFile('file.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+        expect(await getError(backend.readFileChunk('file.txt', 4, 2))).toEqual(jasmine.any(CoreFileCorruptError));
+        expect(await getError(backend.writeFile('file.txt', 'data', true))).toEqual(jasmine.any(CoreFileCorruptError));
+
+        await writeRecords('file.txt', [parts[0], parts[1], parts[2], parts[4]]);
+        expect(await getError(backend.readFile('file.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+        expect(await getError(backend.readFileChunk('file.txt', 0, 2))).toEqual(jasmine.any(CoreFileCorruptError));
+
+        await writeRecords('file.txt', parts.slice(0, 1));
+        expect(await getError(backend.readFile('file.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+
+        const modified = parts[2].slice();
+        modified[modified.length - 1] ^= 1;
+        await writeRecords('file.txt', [parts[0], parts[1], modified, parts[3], parts[4]]);
+        expect(await getError(backend.readFile('file.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+    });
+
+    it('detects records or files copied from another path', async () => {
+        await backend.writeFile('a.txt', 'AAAAAAAA');
+        await backend.writeFile('b.txt', 'BBBBBBBB');
+        const partsA = await readRecords('a.txt'),
+            partsB = await readRecords('b.txt');
+
+        await writeRecords('a.txt', [partsA[0], partsB[1], partsA[2], partsA[3]]);
+        expect(await getError(backend.readFile('a.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+
+        await writeRecords('a.txt', partsB);
+        expect(await getError(backend.readFile('a.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+    });
+
+    it('fails to decrypt with another key', async () => {
+        await backend.writeFile('file.txt', 'Hello world');
+        key = await CoreFileEncryptedBackend.generateKey();
+
+        expect(await getError(backend.readFile('file.txt', CoreFileProvider.FORMATTEXT))).toEqual(jasmine.any(CoreFileCorruptError));
+    });
+
+    it('only treats missing files as empty', async () => {
+        await backend.createDir('dir');
+
+        const error = await getError(backend.writeFile('dir', 'data', true));
+        expect(error).toBeDefined();
+        expect(await memory.listDir('dir')).toEqual([]);
+
+        await backend.writeFile('new.txt', 'data', true);
+        expect(await backend.readFile('new.txt', CoreFileProvider.FORMATTEXT)).toEqual('data');
+    });
+});
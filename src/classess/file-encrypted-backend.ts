@@ -0,0 +1,775 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { FileEntry, DirectoryEntry, Entry, Metadata } from '@ionic-native/file';
+import { CoreFileBackend, CoreFileEncryptionOptions, CoreFileKeyProvider, CoreFileProvider } from '../providers/file';
+import { CoreFileError, CoreFileCorruptError, CoreFileNotFoundError } from './file-error';
+import { arrayBufferToBinaryString, dataToArrayBuffer } from './file-virtual-backend';
+
+/**
+ * Encrypted record of a file: position in the file and sizes.
+ */
+interface CoreFileEncryptedRecord {
+    offset: number; // Position of the record in the file.
+    cipherLength: number; // Length of the encrypted data, including the authentication tag.
+    plainOffset: number; // Position of the decrypted data in the decrypted file.
+    plainLength: number; // Length of the decrypted data. Trailers don't have data.
+}
+
+/**
+ * Index of the records of an encrypted file.
+ */
+interface CoreFileEncryptedIndex {
+    size: number; // Size of the stored file when it was indexed.
+    records: CoreFileEncryptedRecord[];
+}
+
+/**
+ * Storage backend that encrypts the files written using AES-GCM and decrypts them when read. It wraps another backend,
+ * use CoreFileProvider.enableEncryption to use it.
+ *
+ * Encrypted files start with a header (CENC + version) followed by records. Each record contains the length of the
+ * encrypted data (4 bytes), the IV (12 bytes) and the encrypted data. Each write ends with a trailer: a record without data
+ * that marks the end of the file. The index of the record, whether it's a trailer and the path of the file are authenticated
+ * with each record, and the last record of a file must be a trailer, so reordering, truncating or mixing files is detected.
+ * Appending data adds its records and a new trailer, the previous records are never encrypted or written again.
+ * Files without the header are read as they are, so existing files can still be read.
+ *
+ * Only the data read through readFile and readFileChunk is decrypted. The URLs of the files and the File objects
+ * return the encrypted data, so don't encrypt files that are displayed using their URL.
+ */
+export class CoreFileEncryptedBackend implements CoreFileBackend {
+    static MAGIC = [0x43, 0x45, 0x4E, 0x43]; // CENC.
+    static VERSION = 1;
+    static HEADER_LENGTH = 8; // Magic, version and 3 reserved bytes.
+    static IV_LENGTH = 12;
+    static TAG_LENGTH = 16;
+    static RECORD_SIZE = 1048576; // Max bytes encrypted in each record. Same as CoreFileProvider.CHUNK_SIZE.
+    static TMP_SUFFIX = '.encrypting'; // Suffix of the temporary files used when encrypting a file for another path.
+
+    protected indexes: {[path: string]: CoreFileEncryptedIndex} = {}; // Records of the files read or written, by path.
+
+    /**
+     * Constructor.
+     *
+     * @param backend Backend where to store the encrypted files.
+     * @param keyProvider Provider of the encryption keys.
+     * @param options Options.
+     * @param logger Logger instance to use.
+     */
+    constructor(protected backend: CoreFileBackend,
+        protected keyProvider: CoreFileKeyProvider,
+        protected options: CoreFileEncryptionOptions = {},
+        protected logger?: any
+    ) { }
+
+    /**
+     * Generate a random AES-GCM key of 256 bits.
+     *
+     * @param extractable Whether the key can be exported, e.g. to store it in a secure storage.
+     * @return Promise resolved with the key.
+     */
+    static generateKey(extractable?: boolean): Promise<CryptoKey> {
+        return Promise.resolve(crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, !!extractable, ['encrypt', 'decrypt']));
+    }
+
+    /**
+     * Check whether some data starts with the header of the encrypted files.
+     *
+     * @param data Data, at least the first bytes of the file.
+     * @return Whether it's encrypted.
+     */
+    static isEncrypted(data: ArrayBuffer): boolean {
+        const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, CoreFileEncryptedBackend.MAGIC.length));
+
+        return bytes.length == CoreFileEncryptedBackend.MAGIC.length && CoreFileEncryptedBackend.MAGIC.every((byte, index) => {
+            return bytes[index] == byte;
+        });
+    }
+
+    /**
+     * Get the wrapped backend.
+     *
+     * @return Backend.
+     */
+    getBackend(): CoreFileBackend {
+        return this.backend;
+    }
+
+    /**
+     * Initialize the backend.
+     *
+     * @return Promise resolved with the base path.
+     */
+    init(): Promise<string> {
+        return this.backend.init();
+    }
+
+    /**
+     * Get a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with the file.
+     */
+    getFile(path: string): Promise<FileEntry> {
+        return this.backend.getFile(path);
+    }
+
+    /**
+     * Get a directory.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the directory.
+     */
+    getDir(path: string): Promise<DirectoryEntry> {
+        return this.backend.getDir(path);
+    }
+
+    /**
+     * Create a directory, including the parent directories.
+     *
+     * @param path Relative path to the directory.
+     * @param failIfExists True if it should fail if the directory exists, false otherwise.
+     * @return Promise resolved with the directory.
+     */
+    createDir(path: string, failIfExists?: boolean): Promise<DirectoryEntry> {
+        return this.backend.createDir(path, failIfExists);
+    }
+
+    /**
+     * Create a file, including the parent directories.
+     *
+     * @param path Relative path to the file.
+     * @param failIfExists True if it should fail if the file exists, false otherwise.
+     * @return Promise resolved with the file.
+     */
+    createFile(path: string, failIfExists?: boolean): Promise<FileEntry> {
+        this.invalidateIndex(path);
+
+        return this.backend.createFile(path, failIfExists);
+    }
+
+    /**
+     * Remove a directory and all its contents.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved when done.
+     */
+    removeDir(path: string): Promise<any> {
+        this.invalidateIndex(path);
+
+        return this.backend.removeDir(path);
+    }
+
+    /**
+     * Remove a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved when done.
+     */
+    removeFile(path: string): Promise<any> {
+        this.invalidateIndex(path);
+
+        return this.backend.removeFile(path);
+    }
+
+    /**
+     * Get the contents of a directory (not subdirectories).
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the entries.
+     */
+    listDir(path: string): Promise<Entry[]> {
+        return this.backend.listDir(path);
+    }
+
+    /**
+     * Read a file, decrypting it if needed.
+     *
+     * @param path Relative path to the file.
+     * @param format Format to read the file: FORMATTEXT, FORMATDATAURL, FORMATBINARYSTRING or FORMATARRAYBUFFER.
+     * @return Promise resolved with the contents.
+     */
+    async readFile(path: string, format: number): Promise<any> {
+        if (await this.getFileState(path) != 'encrypted') {
+            return this.backend.readFile(path, format);
+        }
+
+        const decrypted = await this.decryptFile(path);
+
+        switch (format) {
+            case CoreFileProvider.FORMATDATAURL:
+                return 'data:application/octet-stream;base64,' + btoa(arrayBufferToBinaryString(decrypted));
+            case CoreFileProvider.FORMATBINARYSTRING:
+                return arrayBufferToBinaryString(decrypted);
+            case CoreFileProvider.FORMATARRAYBUFFER:
+                return decrypted;
+            default:
+                return new TextDecoder().decode(new Uint8Array(decrypted));
+        }
+    }
+
+    /**
+     * Read a part of a file, decrypting it if needed. Only the records that contain the data are decrypted.
+     *
+     * @param path Relative path to the file.
+     * @param offset Position where to start reading, in bytes of the decrypted file.
+     * @param length Number of bytes to read.
+     * @return Promise resolved with the data read.
+     */
+    async readFileChunk(path: string, offset: number, length: number): Promise<ArrayBuffer> {
+        if (await this.getFileState(path) != 'encrypted') {
+            return this.backend.readFileChunk(path, offset, length);
+        }
+
+        const key = await this.keyProvider.getKey(path),
+            records = await this.getRecords(path),
+            end = offset + length,
+            parts: ArrayBuffer[] = [];
+
+        await this.checkTrailer(key, path, records);
+
+        for (let i = 0; i < records.length; i++) {
+            const record = records[i],
+                recordEnd = record.plainOffset + record.plainLength;
+
+            if (!record.plainLength || recordEnd <= offset || record.plainOffset >= end) {
+                continue;
+            }
+
+            const decrypted = await this.decryptRecord(key, path, path, records, i);
+
+            parts.push(decrypted.slice(Math.max(offset - record.plainOffset, 0), Math.min(end, recordEnd) - record.plainOffset));
+        }
+
+        return this.concat(parts);
+    }
+
+    /**
+     * Write some data in a file, encrypting it if the path must be encrypted.
+     * When appending to a file that isn't encrypted, the data is appended without encrypting it. When appending to an
+     * encrypted file, only the records of the new data and a new trailer are written.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write: string, ArrayBuffer, typed array or Blob.
+     * @param append Whether to append the data to the end of the file.
+     * @return Promise resolved with the file.
+     */
+    async writeFile(path: string, data: any, append?: boolean): Promise<FileEntry> {
+        if (!this.shouldEncrypt(path)) {
+            this.invalidateIndex(path);
+
+            return this.backend.writeFile(path, data, append);
+        }
+
+        const state = append ? await this.getFileState(path) : 'empty';
+        if (state == 'plain') {
+            this.invalidateIndex(path);
+            this.logger && this.logger.warn('Appending data to a file that isn\'t encrypted, it won\'t be encrypted: ' + path);
+
+            return this.backend.writeFile(path, data, append);
+        }
+
+        const buffer = await dataToArrayBuffer(data),
+            key = await this.keyProvider.getKey(path);
+
+        if (state == 'empty') {
+            // The file is indexed again once written, don't keep the current index if the write fails.
+            this.invalidateIndex(path);
+
+            const records = await this.encryptRecords(key, path, new Uint8Array(buffer), 0),
+                entry = await this.backend.writeFile(path, this.concat([this.getHeader()].concat(records)));
+
+            this.addToIndex(path, [], records);
+
+            return entry;
+        }
+
+        // Check the file isn't truncated before appending, the new records would authenticate the missing data otherwise.
+        const previous = await this.getRecords(path);
+
+        await this.checkTrailer(key, path, previous);
+        this.invalidateIndex(path);
+
+        const encrypted = await this.encryptRecords(key, path, new Uint8Array(buffer), previous.length),
+            entry = await this.backend.writeFile(path, this.concat(encrypted), true);
+
+        this.addToIndex(path, previous, encrypted);
+
+        return entry;
+    }
+
+    /**
+     * Copy or move a file or a directory. The parent directory of the destination must exist.
+     * The path is part of the authenticated data of the encrypted files, so they're encrypted again for the new path.
+     * If a directory is copied or moved, its files are encrypted again after copying or moving it.
+     *
+     * @param from Relative path to the file/dir.
+     * @param to Relative new path of the file/dir.
+     * @param isDir Whether it's a dir or a file.
+     * @param copy Whether to copy. If false, it will move the file.
+     * @return Promise resolved with the new entry.
+     */
+    async copyOrMove(from: string, to: string, isDir: boolean, copy: boolean): Promise<Entry> {
+        this.invalidateIndex(from);
+        this.invalidateIndex(to);
+
+        if (isDir) {
+            const dirEntry = await this.backend.copyOrMove(from, to, isDir, copy);
+
+            await this.encryptDirForPath(to, from);
+
+            return dirEntry;
+        }
+
+        if (await this.getFileState(from) != 'encrypted') {
+            return this.backend.copyOrMove(from, to, isDir, copy);
+        }
+
+        const fileEntry = await this.encryptFileForPath(from, to);
+
+        if (!copy) {
+            await this.backend.removeFile(from);
+        }
+
+        return fileEntry;
+    }
+
+    /**
+     * Get the metadata of a file or directory. The size of the encrypted files is the size of the decrypted data.
+     *
+     * @param path Relative path to the file/dir.
+     * @param isDir True if directory, false if file.
+     * @return Promise resolved with the metadata.
+     */
+    async getMetadata(path: string, isDir?: boolean): Promise<Metadata> {
+        const metadata = await this.backend.getMetadata(path, isDir);
+
+        if (isDir || await this.getFileState(path) != 'encrypted') {
+            return metadata;
+        }
+
+        const records = await this.getRecords(path);
+
+        return {
+            modificationTime: metadata.modificationTime,
+            size: records.reduce((size, record) => {
+                return size + record.plainLength;
+            }, 0)
+        };
+    }
+
+    /**
+     * Calculate the free space available.
+     *
+     * @return Promise resolved with the estimated free space in bytes.
+     */
+    calculateFreeSpace(): Promise<number> {
+        return this.backend.calculateFreeSpace ? this.backend.calculateFreeSpace() : Promise.reject(null);
+    }
+
+    /**
+     * Check whether a file is encrypted.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with the state: empty if it doesn't exist or it's empty, encrypted or plain. Rejected if the
+     *         file cannot be read, so an existing file isn't treated as empty.
+     */
+    protected getFileState(path: string): Promise<string> {
+        return this.backend.readFileChunk(path, 0, CoreFileEncryptedBackend.HEADER_LENGTH).then((data) => {
+            if (!data.byteLength) {
+                return 'empty';
+            }
+
+            if (!CoreFileEncryptedBackend.isEncrypted(data)) {
+                return 'plain';
+            }
+
+            if (new Uint8Array(data)[CoreFileEncryptedBackend.MAGIC.length] != CoreFileEncryptedBackend.VERSION) {
+                throw new CoreFileCorruptError('Unsupported version of encrypted file: ' + path, path);
+            }
+
+            return 'encrypted';
+        }).catch((error) => {
+            if (CoreFileError.fromError(error, path) instanceof CoreFileNotFoundError) {
+                return 'empty';
+            }
+
+            throw error;
+        });
+    }
+
+    /**
+     * Check whether a path must be encrypted.
+     *
+     * @param path Relative path.
+     * @return Whether to encrypt it.
+     */
+    protected shouldEncrypt(path: string): boolean {
+        if (!this.options.paths || !this.options.paths.length) {
+            return true;
+        }
+
+        return this.options.paths.some((prefix) => {
+            prefix = prefix.replace(/\/+$/, '');
+
+            return path == prefix || path.indexOf(prefix + '/') === 0;
+        });
+    }
+
+    /**
+     * Get the records of an encrypted file, reading only their lengths. The records are indexed, so they're only read
+     * again if the file changed.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with the records.
+     */
+    protected async getRecords(path: string): Promise<CoreFileEncryptedRecord[]> {
+        const size = (await this.backend.getMetadata(path)).size,
+            records: CoreFileEncryptedRecord[] = [];
+
+        if (this.indexes[path] && this.indexes[path].size == size) {
+            return this.indexes[path].records;
+        }
+
+        let offset = CoreFileEncryptedBackend.HEADER_LENGTH,
+            plainOffset = 0;
+
+        while (offset < size) {
+            const lengthData = await this.backend.readFileChunk(path, offset, 4);
+            if (lengthData.byteLength < 4) {
+                throw new CoreFileCorruptError('Encrypted file is truncated: ' + path, path);
+            }
+
+            const cipherLength = new DataView(lengthData).getUint32(0, true),
+                plainLength = cipherLength - CoreFileEncryptedBackend.TAG_LENGTH;
+            if (plainLength < 0) {
+                throw new CoreFileCorruptError('Encrypted file is corrupt: ' + path, path);
+            }
+
+            records.push({ offset: offset, cipherLength: cipherLength, plainOffset: plainOffset, plainLength: plainLength });
+            offset += 4 + CoreFileEncryptedBackend.IV_LENGTH + cipherLength;
+            plainOffset += plainLength;
+        }
+
+        this.indexes[path] = { size: size, records: records };
+
+        return records;
+    }
+
+    /**
+     * Add the records written to a file to its index.
+     *
+     * @param path Relative path to the file.
+     * @param previous Records the file had before writing.
+     * @param written Records written, as returned by encryptRecords.
+     */
+    protected addToIndex(path: string, previous: CoreFileEncryptedRecord[], written: ArrayBuffer[]): void {
+        const records = previous.slice(),
+            last = records[records.length - 1];
+        let offset = last ? last.offset + 4 + CoreFileEncryptedBackend.IV_LENGTH + last.cipherLength :
+                CoreFileEncryptedBackend.HEADER_LENGTH,
+            plainOffset = last ? last.plainOffset + last.plainLength : 0;
+
+        written.forEach((record) => {
+            const cipherLength = record.byteLength - 4 - CoreFileEncryptedBackend.IV_LENGTH,
+                plainLength = cipherLength - CoreFileEncryptedBackend.TAG_LENGTH;
+
+            records.push({ offset: offset, cipherLength: cipherLength, plainOffset: plainOffset, plainLength: plainLength });
+            offset += record.byteLength;
+            plainOffset += plainLength;
+        });
+
+        this.indexes[path] = { size: offset, records: records };
+    }
+
+    /**
+     * Remove the index of a file, or the indexes of the files in a directory.
+     *
+     * @param path Relative path to the file or directory.
+     */
+    protected invalidateIndex(path: string): void {
+        for (const indexedPath in this.indexes) {
+            if (indexedPath == path || indexedPath.indexOf(path + '/') === 0) {
+                delete this.indexes[indexedPath];
+            }
+        }
+    }
+
+    /**
+     * Check that the last record of an encrypted file is an authentic trailer, so the file wasn't truncated.
+     *
+     * @param key Key.
+     * @param path Relative path to the file.
+     * @param records Records of the file.
+     * @return Promise resolved if the file is complete, rejected with CoreFileCorruptError otherwise.
+     */
+    protected async checkTrailer(key: CryptoKey, path: string, records: CoreFileEncryptedRecord[]): Promise<void> {
+        if (!records.length || records[records.length - 1].plainLength) {
+            throw new CoreFileCorruptError('Encrypted file is truncated: ' + path, path);
+        }
+
+        await this.decryptRecord(key, path, path, records, records.length - 1);
+    }
+
+    /**
+     * Decrypt a whole file.
+     *
+     * @param path Relative path to the file.
+     * @param encryptedPath Path used to encrypt the file. Defaults to the path of the file.
+     * @return Promise resolved with the decrypted data.
+     */
+    protected async decryptFile(path: string, encryptedPath: string = path): Promise<ArrayBuffer> {
+        const key = await this.keyProvider.getKey(encryptedPath),
+            data = new Uint8Array(await this.backend.readFile(path, CoreFileProvider.FORMATARRAYBUFFER)),
+            view = new DataView(data.buffer, data.byteOffset, data.byteLength),
+            records: Uint8Array[] = [],
+            parts: ArrayBuffer[] = [];
+
+        for (let offset = CoreFileEncryptedBackend.HEADER_LENGTH; offset < data.length;) {
+            if (offset + 4 > data.length) {
+                throw new CoreFileCorruptError('Encrypted file is truncated: ' + path, path);
+            }
+
+            const end = offset + 4 + CoreFileEncryptedBackend.IV_LENGTH + view.getUint32(offset, true);
+            if (end > data.length) {
+                throw new CoreFileCorruptError('Encrypted file is truncated: ' + path, path);
+            }
+
+            records.push(data.subarray(offset + 4, end));
+            offset = end;
+        }
+
+        if (!records.length || records[records.length - 1].length != CoreFileEncryptedBackend.IV_LENGTH +
+                CoreFileEncryptedBackend.TAG_LENGTH) {
+            throw new CoreFileCorruptError('Encrypted file is truncated: ' + path, path);
+        }
+
+        for (let i = 0; i < records.length; i++) {
+            const trailer = records[i].length == CoreFileEncryptedBackend.IV_LENGTH + CoreFileEncryptedBackend.TAG_LENGTH;
+
+            parts.push(await this.decrypt(key, records[i].subarray(0, CoreFileEncryptedBackend.IV_LENGTH),
+                records[i].subarray(CoreFileEncryptedBackend.IV_LENGTH),
+                this.getAdditionalData(encryptedPath, i, trailer), path));
+        }
+
+        return this.concat(parts);
+    }
+
+    /**
+     * Read and decrypt a record of a file.
+     *
+     * @param key Key.
+     * @param path Relative path to the file.
+     * @param encryptedPath Path used to encrypt the file.
+     * @param records Records of the file.
+     * @param index Index of the record to decrypt.
+     * @return Promise resolved with the decrypted data.
+     */
+    protected async decryptRecord(key: CryptoKey, path: string, encryptedPath: string, records: CoreFileEncryptedRecord[],
+        index: number): Promise<ArrayBuffer> {
+
+        const record = records[index],
+            data = new Uint8Array(await this.backend.readFileChunk(path, record.offset + 4,
+                CoreFileEncryptedBackend.IV_LENGTH + record.cipherLength));
+
+        return this.decrypt(key, data.subarray(0, CoreFileEncryptedBackend.IV_LENGTH), data.subarray(CoreFileEncryptedBackend.IV_LENGTH),
+            this.getAdditionalData(encryptedPath, index, !record.plainLength), path);
+    }
+
+    /**
+     * Encrypt the files of a directory that was copied or moved, so they can be decrypted in the new path.
+     *
+     * @param path Relative path to the directory.
+     * @param encryptedPath Path of the directory when the files were encrypted.
+     * @return Promise resolved when done.
+     */
+    protected async encryptDirForPath(path: string, encryptedPath: string): Promise<void> {
+        const entries = await this.backend.listDir(path);
+
+        for (let i = 0; i < entries.length; i++) {
+            const entryPath = path + '/' + entries[i].name,
+                entryEncryptedPath = encryptedPath + '/' + entries[i].name;
+
+            if (entries[i].isDirectory) {
+                await this.encryptDirForPath(entryPath, entryEncryptedPath);
+            } else if (await this.getFileState(entryPath) == 'encrypted') {
+                await this.encryptFileForPath(entryPath, entryPath, entryEncryptedPath);
+            }
+        }
+    }
+
+    /**
+     * Decrypt a file and encrypt it for another path. The data is written in a temporary file that is moved to the
+     * destination, so the destination is never left half written.
+     *
+     * @param from Relative path to the file.
+     * @param to Relative path where to store the file.
+     * @param encryptedPath Path used to encrypt the file. Defaults to the path of the file.
+     * @return Promise resolved with the new file.
+     */
+    protected async encryptFileForPath(from: string, to: string, encryptedPath: string = from): Promise<Entry> {
+        const decrypted = await this.decryptFile(from, encryptedPath),
+            data = this.shouldEncrypt(to) ? await this.encryptFile(to, decrypted) : decrypted,
+            tmpPath = to + '.' + Date.now() + CoreFileEncryptedBackend.TMP_SUFFIX;
+
+        try {
+            await this.backend.writeFile(tmpPath, data);
+
+            return await this.backend.copyOrMove(tmpPath, to, false, false);
+        } catch (error) {
+            await this.backend.removeFile(tmpPath).catch(() => {
+                // Ignore errors, maybe it wasn't created.
+            });
+
+            throw error;
+        }
+    }
+
+    /**
+     * Encrypt the whole data of a file.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to encrypt.
+     * @return Promise resolved with the data to store: header and records.
+     */
+    protected async encryptFile(path: string, data: ArrayBuffer): Promise<ArrayBuffer> {
+        const key = await this.keyProvider.getKey(path);
+
+        return this.concat([this.getHeader()].concat(await this.encryptRecords(key, path, new Uint8Array(data), 0)));
+    }
+
+    /**
+     * Get the header of the encrypted files.
+     *
+     * @return Header.
+     */
+    protected getHeader(): ArrayBuffer {
+        const header = new Uint8Array(CoreFileEncryptedBackend.HEADER_LENGTH);
+
+        header.set(CoreFileEncryptedBackend.MAGIC);
+        header[CoreFileEncryptedBackend.MAGIC.length] = CoreFileEncryptedBackend.VERSION;
+
+        return header.buffer;
+    }
+
+    /**
+     * Encrypt some data in records.
+     *
+     * @param key Key.
+     * @param path Relative path to the file.
+     * @param data Data to encrypt.
+     * @param firstIndex Index of the first record in the file.
+     * @return Promise resolved with the records of the data followed by a trailer. Data records are never empty.
+     */
+    protected async encryptRecords(key: CryptoKey, path: string, data: Uint8Array, firstIndex: number): Promise<ArrayBuffer[]> {
+        const count = Math.ceil(data.length / CoreFileEncryptedBackend.RECORD_SIZE),
+            records: ArrayBuffer[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const offset = i * CoreFileEncryptedBackend.RECORD_SIZE;
+
+            records.push(await this.encrypt(key, data.subarray(offset, offset + CoreFileEncryptedBackend.RECORD_SIZE),
+                this.getAdditionalData(path, firstIndex + i, false)));
+        }
+
+        records.push(await this.encrypt(key, new Uint8Array(0), this.getAdditionalData(path, firstIndex + count, true)));
+
+        return records;
+    }
+
+    /**
+     * Get the data authenticated along with a record: its index, whether it's a trailer and the path of the file.
+     * This way the records cannot be reordered, removed or moved to another file without being detected.
+     *
+     * @param path Relative path to the file.
+     * @param index Index of the record.
+     * @param trailer Whether it's a trailer, the record that ends a write.
+     * @return Additional data.
+     */
+    protected getAdditionalData(path: string, index: number, trailer: boolean): Uint8Array {
+        const pathBytes = new TextEncoder().encode(path),
+            data = new Uint8Array(5 + pathBytes.length);
+
+        new DataView(data.buffer).setUint32(0, index, true);
+        data[4] = trailer ? 1 : 0;
+        data.set(pathBytes, 5);
+
+        return data;
+    }
+
+    /**
+     * Encrypt some data in a record.
+     *
+     * @param key Key.
+     * @param data Data to encrypt.
+     * @param additionalData Data to authenticate along with the record, see getAdditionalData.
+     * @return Promise resolved with the record: length, IV and encrypted data.
+     */
+    protected async encrypt(key: CryptoKey, data: Uint8Array, additionalData: Uint8Array): Promise<ArrayBuffer> {
+        const iv = new Uint8Array(CoreFileEncryptedBackend.IV_LENGTH);
+        crypto.getRandomValues(iv);
+
+        const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv, additionalData: additionalData }, key, data);
+        const record = new Uint8Array(4 + iv.length + encrypted.byteLength);
+
+        new DataView(record.buffer).setUint32(0, encrypted.byteLength, true);
+        record.set(iv, 4);
+        record.set(new Uint8Array(encrypted), 4 + iv.length);
+
+        return record.buffer;
+    }
+
+    /**
+     * Decrypt the data of a record.
+     *
+     * @param key Key.
+     * @param iv IV of the record.
+     * @param data Encrypted data.
+     * @param additionalData Data authenticated along with the record, see getAdditionalData.
+     * @param path Path of the file, used in the error message.
+     * @return Promise resolved with the decrypted data.
+     */
+    protected async decrypt(key: CryptoKey, iv: Uint8Array, data: Uint8Array, additionalData: Uint8Array,
+        path: string): Promise<ArrayBuffer> {
+
+        try {
+            return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv, additionalData: additionalData }, key, data);
+        } catch (error) {
+            // Wrong key, or the data was modified, reordered, truncated or copied from another file.
+            throw new CoreFileCorruptError('Cannot decrypt file: ' + path, path, undefined, error);
+        }
+    }
+
+    /**
+     * Concatenate some buffers.
+     *
+     * @param parts Buffers.
+     * @return Buffer with all the data.
+     */
+    protected concat(parts: ArrayBuffer[]): ArrayBuffer {
+        const result = new Uint8Array(parts.reduce((size, part) => {
+            return size + part.byteLength;
+        }, 0));
+        let offset = 0;
+
+        parts.forEach((part) => {
+            result.set(new Uint8Array(part), offset);
+            offset += part.byteLength;
+        });
+
+        return result.buffer;
+    }
+}
@@ -0,0 +1,199 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreError } from './error';
+import { CoreCanceledError } from './canceled-error';
+
+/**
+ * Messages of the Cordova FileError codes.
+ */
+const FILE_ERROR_MESSAGES: { [code: number]: string } = {
+    1: 'File or directory not found',
+    2: 'Access to the file denied',
+    3: 'File operation aborted',
+    4: 'File cannot be read',
+    5: 'Invalid file path',
+    6: 'File cannot be modified',
+    7: 'Invalid state of the file',
+    8: 'Invalid file syntax',
+    9: 'Invalid file modification',
+    10: 'Not enough storage space',
+    11: 'Wrong type of entry',
+    12: 'File or directory already exists',
+    13: 'Wrong type of entry'
+};
+
+/**
+ * Error returned by CoreFileProvider. Specific errors extend this class, e.g. CoreFileNotFoundError.
+ *
+ * try {
+ *     await fileProvider.readFile(path);
+ * } catch (error) {
+ *     if (error instanceof CoreFileNotFoundError) { ... }
+ * }
+ */
+export class CoreFileError extends CoreError {
+    // Codes of the Cordova FileError.
+    static NOT_FOUND_ERR = 1;
+    static SECURITY_ERR = 2;
+    static ABORT_ERR = 3;
+    static NOT_READABLE_ERR = 4;
+    static ENCODING_ERR = 5;
+    static NO_MODIFICATION_ALLOWED_ERR = 6;
+    static INVALID_STATE_ERR = 7;
+    static SYNTAX_ERR = 8;
+    static INVALID_MODIFICATION_ERR = 9;
+    static QUOTA_EXCEEDED_ERR = 10;
+    static TYPE_MISMATCH_ERR = 11;
+    static PATH_EXISTS_ERR = 12;
+
+    /**
+     * Constructor.
+     *
+     * @param message Error message.
+     * @param path Relative path of the file or directory.
+     * @param operation Operation that failed, e.g. 'readFile'.
+     * @param cause Original error.
+     * @param code Code of the Cordova FileError, if any.
+     */
+    constructor(message?: string, public path?: string, public operation?: string, public cause?: any, public code?: number) {
+        super(message);
+    }
+
+    /**
+     * Convert any error to a file error. The errors that are already file errors are returned as they are, adding the path
+     * and operation if they don't have them. CoreCanceledError is converted to CoreFileCanceledError, keeping it as cause.
+     *
+     * @param error Original error: Cordova FileError, DOMException, Error, string, etc.
+     * @param path Relative path of the file or directory.
+     * @param operation Operation that failed.
+     * @return File error.
+     */
+    static fromError(error: any, path?: string, operation?: string): CoreFileError {
+        if (error instanceof CoreFileError) {
+            error.path = error.path || path;
+            error.operation = error.operation || operation;
+
+            return error;
+        }
+
+        if (error instanceof CoreCanceledError) {
+            return new CoreFileCanceledError(error.message, path, operation, error);
+        }
+
+        const code = CoreFileError.getErrorCode(error);
+        let message: string;
+
+        if (typeof error == 'string') {
+            message = error;
+        } else if (error instanceof Error && error.message) {
+            message = error.message;
+        } else {
+            message = (FILE_ERROR_MESSAGES[code] || 'File operation failed') + (path ? ': ' + path : '');
+        }
+
+        switch (code) {
+            case CoreFileError.NOT_FOUND_ERR:
+                return new CoreFileNotFoundError(message, path, operation, error, code);
+            case CoreFileError.PATH_EXISTS_ERR:
+                return new CoreFileExistsError(message, path, operation, error, code);
+            case CoreFileError.QUOTA_EXCEEDED_ERR:
+                return new CoreQuotaExceededError(message, path, operation, error, code);
+            case CoreFileError.ABORT_ERR:
+                return new CoreFileCanceledError(message, path, operation, error);
+            default:
+        }
+
+        if (error instanceof SyntaxError) {
+            // Error parsing the contents of the file.
+            return new CoreFileCorruptError(message, path, operation, error);
+        }
+
+        return new CoreFileError(message, path, operation, error, code);
+    }
+
+    /**
+     * Get the Cordova FileError code of an error. DOMExceptions are converted to the equivalent code.
+     *
+     * @param error Error.
+     * @return Code, undefined if it doesn't have any.
+     */
+    static getErrorCode(error: any): number {
+        if (!error) {
+            return;
+        }
+
+        switch (error.name) {
+            case 'NotFoundError':
+                return CoreFileError.NOT_FOUND_ERR;
+            case 'QuotaExceededError':
+                return CoreFileError.QUOTA_EXCEEDED_ERR;
+            case 'AbortError':
+                return CoreFileError.ABORT_ERR;
+            case 'PathExistsError':
+                return CoreFileError.PATH_EXISTS_ERR;
+            default:
+        }
+
+        if (typeof DOMException != 'undefined' && error instanceof DOMException) {
+            // The codes of DOMException don't match the FileError codes.
+            return;
+        }
+
+        return typeof error.code == 'number' ? error.code : undefined;
+    }
+}
+
+/**
+ * Error returned when a file or directory doesn't exist.
+ */
+export class CoreFileNotFoundError extends CoreFileError { }
+
+/**
+ * Error returned when a file or directory already exists.
+ */
+export class CoreFileExistsError extends CoreFileError { }
+
+/**
+ * Error returned when there isn't enough storage space or a storage quota has been exceeded.
+ */
+export class CoreQuotaExceededError extends CoreFileError { }
+
+/**
+ * Error returned when the contents of a file are invalid, e.g. a zip with a wrong checksum or a file that cannot be decrypted.
+ */
+export class CoreFileCorruptError extends CoreFileError { }
+
+/**
+ * Error returned when a file operation is canceled, e.g. using a CoreCancellationToken. Its code is ABORT_ERR.
+ * It's a CoreFileError like the rest of errors returned by CoreFileProvider, so it isn't a CoreCanceledError. If the operation
+ * was canceled with a CoreCancellationToken, the CoreCanceledError thrown by the token is the cause.
+ */
+export class CoreFileCanceledError extends CoreFileError {
+
+    /**
+     * Constructor.
+     *
+     * @param message Error message.
+     * @param path Relative path of the file or directory.
+     * @param operation Operation that was canceled, e.g. 'copyFile'.
+     * @param cause Original error.
+     * @param code Code of the Cordova FileError.
+     */
+    constructor(message?: string, path?: string, operation?: string, cause?: any, code: number = CoreFileError.ABORT_ERR) {
+        super(message, path, operation, cause, code);
+    }
+
+}
@@ -0,0 +1,196 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { CoreFileVirtualBackend, CoreFileVirtualRecord } from './file-virtual-backend';
+
+/**
+ * Storage backend that stores the files in IndexedDB. It can be used in browsers, e.g. when running "ionic serve":
+ * fileProvider.setBackend(new CoreFileIndexedDBBackend());
+ */
+export class CoreFileIndexedDBBackend extends CoreFileVirtualBackend {
+    static DB_VERSION = 1;
+    static STORE_NAME = 'files';
+
+    protected dbPromise: Promise<IDBDatabase>;
+
+    /**
+     * Constructor.
+     *
+     * @param dbName Name of the database.
+     * @param baseURL URL used as base path. It must end with a slash.
+     */
+    constructor(protected dbName: string = 'CoreFile', baseURL: string = 'indexeddb:///') {
+        super(baseURL);
+    }
+
+    /**
+     * Calculate the free space available for the app, using the Storage API.
+     *
+     * @return Promise resolved with the estimated free space in bytes.
+     */
+    calculateFreeSpace(): Promise<number> {
+        const storage = (<any> navigator).storage;
+
+        if (!storage || !storage.estimate) {
+            return Promise.reject(null);
+        }
+
+        return storage.estimate().then((estimate) => {
+            return Math.max(estimate.quota - estimate.usage, 0);
+        });
+    }
+
+    /**
+     * Close the database. It will be opened again if needed.
+     */
+    close(): void {
+        if (this.dbPromise) {
+            this.dbPromise.then((db) => {
+                db.close();
+            }).catch(() => {
+                // Ignore errors, the database wasn't opened.
+            });
+            delete this.dbPromise;
+        }
+    }
+
+    /**
+     * Open the database.
+     *
+     * @return Promise resolved when done.
+     */
+    protected open(): Promise<void> {
+        return this.getDB().then(() => {
+            // Nothing to return.
+        });
+    }
+
+    /**
+     * Get the database, opening it if needed.
+     *
+     * @return Promise resolved with the database.
+     */
+    protected getDB(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject): void => {
+                if (typeof indexedDB == 'undefined') {
+                    reject('IndexedDB not supported.');
+
+                    return;
+                }
+
+                const request = indexedDB.open(this.dbName, CoreFileIndexedDBBackend.DB_VERSION);
+
+                request.onupgradeneeded = (): void => {
+                    request.result.createObjectStore(CoreFileIndexedDBBackend.STORE_NAME, { keyPath: 'path' });
+                };
+                request.onsuccess = (): void => {
+                    resolve(request.result);
+                };
+                request.onerror = (): void => {
+                    reject(request.error);
+                };
+            });
+
+            this.dbPromise.catch(() => {
+                // Try to open it again next time.
+                delete this.dbPromise;
+            });
+        }
+
+        return this.dbPromise;
+    }
+
+    /**
+     * Run some operations in a transaction of the files store.
+     *
+     * @param mode Transaction mode.
+     * @param operation Function that receives the store and returns the request whose result to return, if any.
+     * @return Promise resolved with the result of the request when the transaction completes.
+     */
+    protected async transaction(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest | void): Promise<any> {
+        const db = await this.getDB();
+
+        return new Promise((resolve, reject): void => {
+            const transaction = db.transaction(CoreFileIndexedDBBackend.STORE_NAME, mode);
+            const request = operation(transaction.objectStore(CoreFileIndexedDBBackend.STORE_NAME));
+
+            transaction.oncomplete = (): void => {
+                resolve(request ? request.result : undefined);
+            };
+            transaction.onerror = transaction.onabort = (): void => {
+                reject(transaction.error);
+            };
+        });
+    }
+
+    /**
+     * Load a stored record.
+     *
+     * @param path Normalized path of the record.
+     * @return Promise resolved with the record, undefined if not found.
+     */
+    protected loadRecord(path: string): Promise<CoreFileVirtualRecord> {
+        return this.transaction('readonly', (store) => {
+            return store.get(path);
+        });
+    }
+
+    /**
+     * Get the records inside a directory.
+     *
+     * @param path Normalized path of the directory.
+     * @param recursive Whether to include the contents of the subdirectories.
+     * @return Promise resolved with the records.
+     */
+    protected async getChildRecords(path: string, recursive: boolean): Promise<CoreFileVirtualRecord[]> {
+        const prefix = path ? path + '/' : '';
+        const records: CoreFileVirtualRecord[] = await this.transaction('readonly', (store) => {
+            // All the keys starting with the prefix.
+            return (<any> store).getAll(prefix ? IDBKeyRange.bound(prefix, prefix + '\uffff') : undefined);
+        });
+
+        return records.filter((record) => {
+            return recursive || record.path.indexOf('/', prefix.length) == -1;
+        });
+    }
+
+    /**
+     * Store some records, replacing the existing ones with the same path.
+     *
+     * @param records Records to store.
+     * @return Promise resolved when done.
+     */
+    protected putRecords(records: CoreFileVirtualRecord[]): Promise<void> {
+        return this.transaction('readwrite', (store) => {
+            records.forEach((record) => {
+                store.put(record);
+            });
+        });
+    }
+
+    /**
+     * Delete some records.
+     *
+     * @param paths Normalized paths of the records to delete.
+     * @return Promise resolved when done.
+     */
+    protected deleteRecords(paths: string[]): Promise<void> {
+        return this.transaction('readwrite', (store) => {
+            paths.forEach((path) => {
+                store.delete(path);
+            });
+        });
+    }
+}
@@ -0,0 +1,105 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { CoreFileVirtualBackend, CoreFileVirtualRecord } from './file-virtual-backend';
+
+/**
+ * Storage backend that keeps the files in memory. The files are lost when the app is closed.
+ * Useful in unit tests and in Node, e.g.: fileProvider.setBackend(new CoreFileMemoryBackend());
+ */
+export class CoreFileMemoryBackend extends CoreFileVirtualBackend {
+    protected records: { [path: string]: CoreFileVirtualRecord } = {};
+
+    /**
+     * Constructor.
+     *
+     * @param baseURL URL used as base path. It must end with a slash.
+     */
+    constructor(baseURL: string = 'memory:///') {
+        super(baseURL);
+    }
+
+    /**
+     * Remove all the files and directories.
+     */
+    clear(): void {
+        this.records = {};
+    }
+
+    /**
+     * Prepare the storage of the records.
+     *
+     * @return Promise resolved when done.
+     */
+    protected open(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /**
+     * Load a stored record.
+     *
+     * @param path Normalized path of the record.
+     * @return Promise resolved with the record, undefined if not found.
+     */
+    protected loadRecord(path: string): Promise<CoreFileVirtualRecord> {
+        const record = this.records[path];
+
+        return Promise.resolve(record && Object.assign({}, record));
+    }
+
+    /**
+     * Get the records inside a directory.
+     *
+     * @param path Normalized path of the directory.
+     * @param recursive Whether to include the contents of the subdirectories.
+     * @return Promise resolved with the records.
+     */
+    protected getChildRecords(path: string, recursive: boolean): Promise<CoreFileVirtualRecord[]> {
+        const prefix = path ? path + '/' : '';
+
+        return Promise.resolve(Object.keys(this.records).filter((recordPath) => {
+            return recordPath.indexOf(prefix) === 0 && (recursive || recordPath.indexOf('/', prefix.length) == -1);
+        }).sort().map((recordPath) => {
+            return Object.assign({}, this.records[recordPath]);
+        }));
+    }
+
+    /**
+     * Store some records, replacing the existing ones with the same path.
+     *
+     * @param records Records to store.
+     * @return Promise resolved when done.
+     */
+    protected putRecords(records: CoreFileVirtualRecord[]): Promise<void> {
+        records.forEach((record) => {
+            this.records[record.path] = Object.assign({}, record);
+        });
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Delete some records.
+     *
+     * @param paths Normalized paths of the records to delete.
+     * @return Promise resolved when done.
+     */
+    protected deleteRecords(paths: string[]): Promise<void> {
+        paths.forEach((path) => {
+            delete this.records[path];
+        });
+
+        return Promise.resolve();
+    }
+}
@@ -0,0 +1,101 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreFileProvider } from '../providers/file';
+import { CoreLoggerProvider } from '../providers/logger';
+import { CoreLogMemoryTransport } from './log-transports';
+import { createTestFileProvider } from '../test-utils';
+
+describe('CoreFileTransaction', () => {
+    let fileProvider: CoreFileProvider;
+    let logger: CoreLoggerProvider;
+
+    /**
+     * Get the error of a promise that must be rejected.
+     *
+     * @param promise Promise.
+     * @return Promise resolved with the error.
+     */
+    async function getError(promise: Promise<any>): Promise<any> {
+        try {
+            await promise;
+        } catch (error) {
+            return error;
+        }
+
+        fail('The promise was not rejected.');
+    }
+
+    /**
+     * Get the names of the files and directories inside a directory.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the sorted names, empty if the directory doesn't exist.
+     */
+    async function listDir(path: string): Promise<string[]> {
+        try {
+            const entries = await fileProvider.getDirectoryContents(path);
+
+            return entries.map((entry) => entry.name).sort();
+        } catch (error) {
+            return [];
+        }
+    }
+
+    beforeEach(async () => {
+        const test = createTestFileProvider();
+        fileProvider = test.fileProvider;
+        logger = test.logger;
+
+        await fileProvider.writeFile('data/a.txt', 'A');
+        await fileProvider.writeFile('data/b.txt', 'B');
+        await fileProvider.writeFile('data/sub/c.txt', 'C');
+    });
+
+    it('applies the operations and removes the backups', async () => {
+        await fileProvider.createTransaction().writeFile('data/a.txt', 'A2').moveFile('data/b.txt', 'data/d.txt')
+            .removeDir('data/sub').commit();
+
+        expect(await listDir('data')).toEqual(['a.txt', 'd.txt']);
+        expect(await fileProvider.readFile('data/a.txt')).toEqual('A2');
+        expect(await listDir(CoreFileProvider.TMPFOLDER + '/transactions')).toEqual([]);
+    });
+
+    it('reverts the operations done when one fails', async () => {
+        const error = await getError(fileProvider.createTransaction().writeFile('data/a.txt', 'A2').writeFile('new/e.txt', 'E')
+            .moveFile('data/b.txt', 'data/a.txt').removeDir('data/sub').moveFile('data/missing.txt', 'data/f.txt').commit());
+
+        expect(error).toBeDefined();
+        expect(await listDir('')).toEqual(['data', CoreFileProvider.TMPFOLDER]);
+        expect(await listDir('data')).toEqual(['a.txt', 'b.txt', 'sub']);
+        expect(await fileProvider.readFile('data/a.txt')).toEqual('A');
+        expect(await fileProvider.readFile('data/b.txt')).toEqual('B');
+        expect(await fileProvider.readFile('data/sub/c.txt')).toEqual('C');
+        expect(await listDir(CoreFileProvider.TMPFOLDER + '/transactions')).toEqual([]);
+    });
+
+    it('doesn\'t restore the files that couldn\'t be removed', async () => {
+        const transport = new CoreLogMemoryTransport();
+        logger.addTransport(transport);
+
+        const error = await getError(fileProvider.createTransaction().writeFile('data/a.txt', 'A2').removeFile('data/missing.txt')
+            .commit());
+
+        expect(error).toBeDefined();
+        expect(await fileProvider.readFile('data/a.txt')).toEqual('A');
+        expect(await listDir(CoreFileProvider.TMPFOLDER + '/transactions')).toEqual([]);
+        expect(transport.getEntries().filter((entry) => /couldn't be reverted|Error reverting/.test(entry.message))).toEqual([]);
+    });
+});
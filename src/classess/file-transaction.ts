@@ -0,0 +1,410 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreFileProvider } from '../providers/file';
+import { CoreError } from './error';
+
+/**
+ * Function to undo an operation of a transaction.
+ */
+type CoreFileUndoFunction = () => Promise<any>;
+
+/**
+ * Operation of a transaction.
+ */
+interface CoreFileTransactionOperation {
+    description: string; // Description used in the logs.
+    prepare?: () => Promise<CoreFileUndoFunction>; // Prepare the undo of the operation, called before running it.
+    run: () => Promise<any>; // Run the operation. If it resolves with a function, it's used to undo the operation.
+}
+
+/**
+ * Group of file operations that are applied in order. If one of them fails, the ones already done are reverted,
+ * so the files are left as they were before the transaction.
+ *
+ * const transaction = fileProvider.createTransaction();
+ * transaction.writeFile('data/new.json', json).moveFile('data/old.json', 'data/backup.json').removeDir('data/cache');
+ * await transaction.commit();
+ *
+ * The files replaced or removed are kept in a temporary folder until the transaction finishes, so there must be enough
+ * space to store a copy of them.
+ */
+export class CoreFileTransaction {
+    protected operations: CoreFileTransactionOperation[] = [];
+    protected committed = false;
+    protected backupFolder: string;
+    protected backups = 0;
+
+    /**
+     * Constructor.
+     *
+     * @param fileProvider File provider.
+     * @param logger Logger instance to use.
+     */
+    constructor(protected fileProvider: CoreFileProvider, protected logger: any) {
+        this.backupFolder = CoreFileProvider.TMPFOLDER + '/transactions/' + Date.now() + '-' + Math.floor(Math.random() * 1e6);
+    }
+
+    /**
+     * Add an operation to create a directory, including its parent directories.
+     *
+     * @param path Relative path to the directory.
+     * @return The transaction, to chain calls.
+     */
+    createDir(path: string): this {
+        return this.add('Create dir ' + path, () => this.protectTarget(path, true, false), () => {
+            return this.fileProvider.createDir(path);
+        });
+    }
+
+    /**
+     * Add an operation to create an empty file, including its parent directories. If the file exists, it's emptied.
+     *
+     * @param path Relative path to the file.
+     * @return The transaction, to chain calls.
+     */
+    createFile(path: string): this {
+        return this.writeFile(path, '');
+    }
+
+    /**
+     * Add an operation to write a file, including its parent directories.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write.
+     * @return The transaction, to chain calls.
+     */
+    writeFile(path: string, data: any): this {
+        return this.add('Write file ' + path, () => this.protectTarget(path, false), () => {
+            return this.fileProvider.writeFile(path, data);
+        });
+    }
+
+    /**
+     * Add an operation to copy a file. If the destination exists, it's replaced.
+     *
+     * @param from Relative path to the file.
+     * @param to Relative path of the copy.
+     * @return The transaction, to chain calls.
+     */
+    copyFile(from: string, to: string): this {
+        return this.add('Copy file ' + from + ' to ' + to, () => this.protectTarget(to, false), () => {
+            return this.fileProvider.copyFile(from, to);
+        });
+    }
+
+    /**
+     * Add an operation to copy a directory. If the destination exists, it's replaced.
+     *
+     * @param from Relative path to the directory.
+     * @param to Relative path of the copy.
+     * @return The transaction, to chain calls.
+     */
+    copyDir(from: string, to: string): this {
+        return this.add('Copy dir ' + from + ' to ' + to, () => this.protectTarget(to, true), () => {
+            return this.fileProvider.copyDir(from, to);
+        });
+    }
+
+    /**
+     * Add an operation to move a file. If the destination exists, it's replaced.
+     *
+     * @param from Relative path to the file.
+     * @param to New relative path of the file.
+     * @return The transaction, to chain calls.
+     */
+    moveFile(from: string, to: string): this {
+        return this.add('Move file ' + from + ' to ' + to, () => this.protectMove(from, to, false), () => {
+            return this.fileProvider.moveFile(from, to);
+        });
+    }
+
+    /**
+     * Add an operation to move a directory. If the destination exists, it's replaced.
+     *
+     * @param from Relative path to the directory.
+     * @param to New relative path of the directory.
+     * @return The transaction, to chain calls.
+     */
+    moveDir(from: string, to: string): this {
+        return this.add('Move dir ' + from + ' to ' + to, () => this.protectMove(from, to, true), () => {
+            return this.fileProvider.moveDir(from, to);
+        });
+    }
+
+    /**
+     * Add an operation to remove a file.
+     *
+     * @param path Relative path to the file.
+     * @return The transaction, to chain calls.
+     */
+    removeFile(path: string): this {
+        return this.addRemove(path, false);
+    }
+
+    /**
+     * Add an operation to remove a directory and all its contents.
+     *
+     * @param path Relative path to the directory.
+     * @return The transaction, to chain calls.
+     */
+    removeDir(path: string): this {
+        return this.addRemove(path, true);
+    }
+
+    /**
+     * Run all the operations in order. If one of them fails, the ones already done are reverted.
+     *
+     * @return Promise resolved when all the operations are done. Rejected with the error of the operation that failed.
+     */
+    async commit(): Promise<void> {
+        if (this.committed) {
+            throw new CoreError('The transaction has already been committed.');
+        }
+        this.committed = true;
+
+        const undos: CoreFileUndoFunction[] = [];
+
+        for (let i = 0; i < this.operations.length; i++) {
+            const operation = this.operations[i];
+
+            try {
+                if (operation.prepare) {
+                    // The undo is added before running the operation, in case it fails halfway.
+                    undos.push(await operation.prepare());
+                }
+
+                this.logger.debug('Transaction: ' + operation.description);
+                const undo = await operation.run();
+
+                if (typeof undo == 'function') {
+                    undos.push(undo);
+                }
+            } catch (error) {
+                this.logger.error('Transaction failed: ' + operation.description + '. Reverting the operations done.', error);
+
+                if (await this.rollback(undos)) {
+                    await this.removeBackups();
+                } else if (!await this.removeBackups(true)) {
+                    this.logger.error('Some operations couldn\'t be reverted. The original files are in ' + this.backupFolder);
+                }
+
+                throw error;
+            }
+        }
+
+        await this.removeBackups();
+    }
+
+    /**
+     * Add an operation.
+     *
+     * @param description Description used in the logs.
+     * @param prepare Function to prepare the undo of the operation. It returns the function to undo it. Not needed if
+     *                the run function resolves with the function to undo it.
+     * @param run Function to run the operation.
+     * @return The transaction, to chain calls.
+     */
+    protected add(description: string, prepare: () => Promise<CoreFileUndoFunction>, run: () => Promise<any>): this {
+        if (this.committed) {
+            throw new CoreError('The transaction has already been committed.');
+        }
+
+        this.operations.push({ description: description, prepare: prepare, run: run });
+
+        return this;
+    }
+
+    /**
+     * Add an operation to remove a file or directory. It's moved to the backup folder, so it can be restored.
+     * The undo is only added once the move is done, if it fails there's nothing to restore.
+     *
+     * @param path Relative path to the file or directory.
+     * @param isDir Whether it's a directory.
+     * @return The transaction, to chain calls.
+     */
+    protected addRemove(path: string, isDir: boolean): this {
+        return this.add('Remove ' + path, undefined, async (): Promise<CoreFileUndoFunction> => {
+            const backupPath = this.getBackupPath();
+
+            await this.move(path, backupPath, isDir);
+
+            return (): Promise<any> => {
+                return this.move(backupPath, path, isDir);
+            };
+        });
+    }
+
+    /**
+     * Prepare to undo an operation that writes in a path: if the path exists it's copied to the backup folder,
+     * otherwise the undo removes the path and the parent directories created.
+     *
+     * @param path Relative path that will be written.
+     * @param isDir Whether it's a directory.
+     * @param backupExisting Whether to copy the path if it exists. If false, the undo does nothing if it exists.
+     * @return Promise resolved with the function to undo the operation.
+     */
+    protected async protectTarget(path: string, isDir: boolean, backupExisting: boolean = true): Promise<CoreFileUndoFunction> {
+        const created = await this.getFirstMissingPath(path);
+
+        if (created) {
+            return (): Promise<any> => {
+                return this.remove(created, created != path || isDir);
+            };
+        }
+
+        if (!backupExisting) {
+            return (): Promise<any> => {
+                return Promise.resolve();
+            };
+        }
+
+        const backupPath = this.getBackupPath();
+        await (isDir ? this.fileProvider.copyDir(path, backupPath) : this.fileProvider.copyFile(path, backupPath));
+
+        return async (): Promise<any> => {
+            await this.remove(path, isDir);
+            await this.move(backupPath, path, isDir);
+        };
+    }
+
+    /**
+     * Prepare to undo a move: the entry is moved back and the destination is restored.
+     *
+     * @param from Relative path of the entry.
+     * @param to New relative path of the entry.
+     * @param isDir Whether it's a directory.
+     * @return Promise resolved with the function to undo the operation.
+     */
+    protected async protectMove(from: string, to: string, isDir: boolean): Promise<CoreFileUndoFunction> {
+        const undoTarget = await this.protectTarget(to, isDir);
+
+        return async (): Promise<any> => {
+            if (await this.exists(to)) {
+                await this.move(to, from, isDir);
+            }
+            await undoTarget();
+        };
+    }
+
+    /**
+     * Undo the operations done, in reverse order. The errors are logged and the rest of operations are undone.
+     *
+     * @param undos Functions to undo the operations, in the order the operations were done.
+     * @return Promise resolved with whether all the operations were undone.
+     */
+    protected async rollback(undos: CoreFileUndoFunction[]): Promise<boolean> {
+        let success = true;
+
+        for (let i = undos.length - 1; i >= 0; i--) {
+            try {
+                await undos[i]();
+            } catch (error) {
+                this.logger.error('Error reverting a transaction operation.', error);
+                success = false;
+            }
+        }
+
+        return success;
+    }
+
+    /**
+     * Get the first path that doesn't exist: the path itself or one of its parent directories.
+     *
+     * @param path Relative path.
+     * @return Promise resolved with the first path that doesn't exist, undefined if the path exists.
+     */
+    protected async getFirstMissingPath(path: string): Promise<string> {
+        const parts = this.fileProvider.removeStartingSlash(path).split('/');
+
+        for (let i = 1; i <= parts.length; i++) {
+            const subPath = parts.slice(0, i).join('/');
+
+            if (subPath && !await this.exists(subPath)) {
+                return subPath;
+            }
+        }
+    }
+
+    /**
+     * Check whether a file or directory exists.
+     *
+     * @param path Relative path.
+     * @return Promise resolved with whether it exists.
+     */
+    protected exists(path: string): Promise<boolean> {
+        return this.fileProvider.getFile(path).catch(() => {
+            return this.fileProvider.getDir(path);
+        }).then(() => {
+            return true;
+        }).catch(() => {
+            return false;
+        });
+    }
+
+    /**
+     * Move a file or directory, replacing the destination.
+     *
+     * @param from Relative path of the entry.
+     * @param to New relative path of the entry.
+     * @param isDir Whether it's a directory.
+     * @return Promise resolved when done.
+     */
+    protected move(from: string, to: string, isDir: boolean): Promise<any> {
+        return isDir ? this.fileProvider.moveDir(from, to) : this.fileProvider.moveFile(from, to);
+    }
+
+    /**
+     * Remove a file or directory. Errors are ignored, it might not exist.
+     *
+     * @param path Relative path.
+     * @param isDir Whether it's a directory.
+     * @return Promise resolved when done.
+     */
+    protected remove(path: string, isDir: boolean): Promise<any> {
+        return (isDir ? this.fileProvider.removeDir(path) : this.fileProvider.removeFile(path)).catch(() => {
+            // Ignore errors, it might not exist.
+        });
+    }
+
+    /**
+     * Get a new path in the backup folder.
+     *
+     * @return Relative path.
+     */
+    protected getBackupPath(): string {
+        return this.backupFolder + '/' + (this.backups++);
+    }
+
+    /**
+     * Remove the backup folder.
+     *
+     * @param onlyIfEmpty Whether to keep the folder if it has some backups, e.g. if they couldn't be restored.
+     * @return Promise resolved with whether the folder was removed or didn't exist.
+     */
+    protected async removeBackups(onlyIfEmpty?: boolean): Promise<boolean> {
+        try {
+            if (onlyIfEmpty && (await this.fileProvider.getDirectoryContents(this.backupFolder)).length) {
+                return false;
+            }
+
+            await this.fileProvider.removeDir(this.backupFolder);
+        } catch (error) {
+            // Ignore errors, maybe it wasn't created.
+        }
+
+        return true;
+    }
+}
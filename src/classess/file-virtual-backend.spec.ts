@@ -0,0 +1,51 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreFileMemoryBackend } from './file-memory-backend';
+import { CoreFileProvider } from '../providers/file';
+
+describe('CoreFileVirtualBackend', () => {
+    let backend: CoreFileMemoryBackend;
+
+    beforeEach(async () => {
+        backend = new CoreFileMemoryBackend();
+        await backend.init();
+    });
+
+    it('appends the data without copying the previous contents', async () => {
+        await backend.writeFile('dir/file.txt', 'Hello');
+        const data = (<any> backend).records['dir/file.txt'].data;
+
+        await backend.writeFile('dir/file.txt', ' world', true);
+        await backend.writeFile('dir/file.txt', '!', true);
+
+        expect((<any> backend).records['dir/file.txt'].data).toBe(data);
+        expect(await backend.readFile('dir/file.txt', CoreFileProvider.FORMATTEXT)).toEqual('Hello world!');
+        expect(new TextDecoder().decode(new Uint8Array(await backend.readFileChunk('dir/file.txt', 3, 6)))).toEqual('lo wor');
+        expect(new TextDecoder().decode(new Uint8Array(await backend.readFileChunk('dir/file.txt', 11, 5)))).toEqual('!');
+        expect((await backend.getMetadata('dir/file.txt')).size).toEqual(12);
+    });
+
+    it('replaces the chunks when the file is written without appending', async () => {
+        await backend.writeFile('file.txt', 'Hello');
+        await backend.writeFile('file.txt', ' world', true);
+        await backend.copyOrMove('file.txt', 'copy.txt', false, true);
+        await backend.writeFile('file.txt', 'Bye');
+
+        expect(await backend.readFile('file.txt', CoreFileProvider.FORMATTEXT)).toEqual('Bye');
+        expect((await backend.getMetadata('file.txt')).size).toEqual(3);
+        expect(await backend.readFile('copy.txt', CoreFileProvider.FORMATTEXT)).toEqual('Hello world');
+    });
+});
@@ -0,0 +1,681 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { FileEntry, DirectoryEntry, Entry, Metadata } from '@ionic-native/file';
+import { CoreFileBackend, CoreFileProvider } from '../providers/file';
+
+/**
+ * File or directory stored by a virtual backend.
+ */
+export interface CoreFileVirtualRecord {
+    path: string; // Normalized path, without starting or trailing slashes. The root directory is ''.
+    isDirectory: boolean;
+    data?: ArrayBuffer; // Contents of the file.
+    chunks?: ArrayBuffer[]; // Data appended to the file, in order. They're joined with the contents when the file is read.
+    modificationTime: number;
+}
+
+/**
+ * Convert some data to write to an ArrayBuffer.
+ *
+ * @param data String, ArrayBuffer, typed array or Blob.
+ * @return Promise resolved with the ArrayBuffer.
+ */
+export function dataToArrayBuffer(data: any): Promise<ArrayBuffer> {
+    if (typeof data == 'string') {
+        return Promise.resolve(<ArrayBuffer> new TextEncoder().encode(data).buffer);
+    } else if (data instanceof ArrayBuffer) {
+        return Promise.resolve(data.slice(0));
+    } else if (ArrayBuffer.isView(data)) {
+        return Promise.resolve(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    } else if (typeof Blob != 'undefined' && data instanceof Blob) {
+        if ((<any> data).arrayBuffer) {
+            return (<any> data).arrayBuffer();
+        }
+
+        return new Promise((resolve, reject): void => {
+            const reader = new FileReader();
+            reader.onload = (): void => {
+                resolve(reader.result);
+            };
+            reader.onerror = reject;
+            reader.readAsArrayBuffer(data);
+        });
+    } else if (data === null || typeof data == 'undefined') {
+        return Promise.resolve(new ArrayBuffer(0));
+    }
+
+    return dataToArrayBuffer(String(data));
+}
+
+/**
+ * Convert an ArrayBuffer to a binary string.
+ *
+ * @param buffer Buffer.
+ * @return Binary string.
+ */
+export function arrayBufferToBinaryString(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer),
+        chunkSize = 8192; // Convert it in chunks to prevent exceeding the max number of arguments.
+    let result = '';
+
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        result += String.fromCharCode.apply(null, bytes.subarray(i, i + chunkSize));
+    }
+
+    return result;
+}
+
+/**
+ * Create an error with the same shape as the ones returned by the Cordova File plugin.
+ *
+ * @param code Code of the error (FileError codes).
+ * @param message Message.
+ * @return Error.
+ */
+function createFileError(code: number, message: string): any {
+    return { code: code, message: message };
+}
+
+/**
+ * Entry returned by the virtual backends. It implements the parts of the Cordova Entry API used by CoreFileProvider,
+ * so the entries can be used with getSize, getMetadata, removeFileByFileEntry or getFileObjectFromFileEntry.
+ */
+export class CoreFileVirtualEntry {
+    isFile: boolean;
+    isDirectory: boolean;
+    name: string;
+    fullPath: string;
+    nativeURL: string;
+    filesystem = null;
+
+    /**
+     * Constructor.
+     *
+     * @param backend Backend that stores the entry.
+     * @param record Record of the entry.
+     */
+    constructor(protected backend: CoreFileVirtualBackend, record: CoreFileVirtualRecord) {
+        this.isFile = !record.isDirectory;
+        this.isDirectory = record.isDirectory;
+        this.name = record.path.substr(record.path.lastIndexOf('/') + 1);
+        this.fullPath = '/' + record.path + (record.isDirectory && record.path ? '/' : '');
+        this.nativeURL = this.toURL();
+    }
+
+    /**
+     * Get the URL of the entry.
+     *
+     * @return URL.
+     */
+    toURL(): string {
+        return this.backend.getBaseURL() + this.fullPath.substr(1);
+    }
+
+    /**
+     * Get the internal URL of the entry. It's the same as the URL.
+     *
+     * @return URL.
+     */
+    toInternalURL(): string {
+        return this.toURL();
+    }
+
+    /**
+     * Get the metadata of the entry.
+     *
+     * @param success Function called with the metadata.
+     * @param error Function called if it fails.
+     */
+    getMetadata(success: (metadata: Metadata) => void, error?: (error: any) => void): void {
+        this.backend.getMetadata(this.fullPath, this.isDirectory).then(success, error);
+    }
+
+    /**
+     * Remove the entry. Directories must be empty.
+     *
+     * @param success Function called when done.
+     * @param error Function called if it fails.
+     */
+    remove(success: () => void, error?: (error: any) => void): void {
+        const promise = this.isDirectory ?
+            this.backend.listDir(this.fullPath).then((entries) => {
+                if (entries.length) {
+                    return Promise.reject(createFileError(9, 'INVALID_MODIFICATION_ERR'));
+                }
+
+                return this.backend.removeDir(this.fullPath);
+            }) :
+            this.backend.removeFile(this.fullPath);
+
+        promise.then(success, error);
+    }
+
+    /**
+     * Get the contents of a file entry.
+     *
+     * @param success Function called with the Blob.
+     * @param error Function called if it fails.
+     */
+    file(success: (file: Blob) => void, error?: (error: any) => void): void {
+        this.backend.readFile(this.fullPath, CoreFileProvider.FORMATARRAYBUFFER).then((data) => {
+            const blob: any = new Blob([data]);
+            blob.name = this.name;
+
+            success(blob);
+        }, error);
+    }
+
+    /**
+     * Create a reader to list the contents of a directory entry.
+     *
+     * @return Reader.
+     */
+    createReader(): { readEntries: (success: (entries: Entry[]) => void, error?: (error: any) => void) => void } {
+        let read = false;
+
+        return {
+            readEntries: (success: (entries: Entry[]) => void, error?: (error: any) => void): void => {
+                if (read) {
+                    // Like in Cordova, all the entries are returned in the first call.
+                    success([]);
+
+                    return;
+                }
+
+                read = true;
+                this.backend.listDir(this.fullPath).then(success, error);
+            }
+        };
+    }
+}
+
+/**
+ * Base class for the storage backends that don't use a real file system. The files and directories are stored as
+ * records indexed by path, the subclasses only need to implement how to store those records.
+ */
+export abstract class CoreFileVirtualBackend implements CoreFileBackend {
+
+    /**
+     * Constructor.
+     *
+     * @param baseURL URL used as base path, e.g. 'memory:///'. It must end with a slash.
+     */
+    constructor(protected baseURL: string) { }
+
+    /**
+     * Get the URL used as base path.
+     *
+     * @return Base URL.
+     */
+    getBaseURL(): string {
+        return this.baseURL;
+    }
+
+    /**
+     * Initialize the backend.
+     *
+     * @return Promise resolved with the base path.
+     */
+    init(): Promise<string> {
+        return this.open().then(() => {
+            return this.baseURL;
+        });
+    }
+
+    /**
+     * Get a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with the file.
+     */
+    async getFile(path: string): Promise<FileEntry> {
+        const record = await this.getExistingRecord(path, false);
+
+        return <FileEntry> <any> new CoreFileVirtualEntry(this, record);
+    }
+
+    /**
+     * Get a directory.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the directory.
+     */
+    async getDir(path: string): Promise<DirectoryEntry> {
+        const record = await this.getExistingRecord(path, true);
+
+        return <DirectoryEntry> <any> new CoreFileVirtualEntry(this, record);
+    }
+
+    /**
+     * Create a directory, including the parent directories.
+     *
+     * @param path Relative path to the directory.
+     * @param failIfExists True if it should fail if the directory exists, false otherwise.
+     * @return Promise resolved with the directory.
+     */
+    async createDir(path: string, failIfExists?: boolean): Promise<DirectoryEntry> {
+        const record = await this.create(true, path, failIfExists);
+
+        return <DirectoryEntry> <any> new CoreFileVirtualEntry(this, record);
+    }
+
+    /**
+     * Create a file, including the parent directories.
+     *
+     * @param path Relative path to the file.
+     * @param failIfExists True if it should fail if the file exists, false otherwise.
+     * @return Promise resolved with the file.
+     */
+    async createFile(path: string, failIfExists?: boolean): Promise<FileEntry> {
+        const record = await this.create(false, path, failIfExists);
+
+        return <FileEntry> <any> new CoreFileVirtualEntry(this, record);
+    }
+
+    /**
+     * Remove a directory and all its contents.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved when done.
+     */
+    async removeDir(path: string): Promise<any> {
+        const record = await this.getExistingRecord(path, true);
+        const children = await this.getChildRecords(record.path, true);
+        const paths = children.map((child) => {
+            return child.path;
+        });
+
+        if (record.path) {
+            // The root directory isn't stored, only its contents are removed.
+            paths.push(record.path);
+        }
+
+        await this.deleteRecords(paths);
+    }
+
+    /**
+     * Remove a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved when done.
+     */
+    async removeFile(path: string): Promise<any> {
+        const record = await this.getExistingRecord(path, false);
+
+        await this.deleteRecords([record.path]);
+    }
+
+    /**
+     * Get the contents of a directory (not subdirectories).
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the entries.
+     */
+    async listDir(path: string): Promise<Entry[]> {
+        const record = await this.getExistingRecord(path, true);
+        const children = await this.getChildRecords(record.path, false);
+
+        return children.map((child) => {
+            return <Entry> <any> new CoreFileVirtualEntry(this, child);
+        });
+    }
+
+    /**
+     * Read a file.
+     *
+     * @param path Relative path to the file.
+     * @param format Format to read the file: FORMATTEXT, FORMATDATAURL, FORMATBINARYSTRING or FORMATARRAYBUFFER.
+     * @return Promise resolved with the contents.
+     */
+    async readFile(path: string, format: number): Promise<any> {
+        const record = await this.getExistingRecord(path, false);
+        const data = this.getData(record);
+
+        switch (format) {
+            case CoreFileProvider.FORMATDATAURL:
+                return 'data:application/octet-stream;base64,' + btoa(arrayBufferToBinaryString(data));
+            case CoreFileProvider.FORMATBINARYSTRING:
+                return arrayBufferToBinaryString(data);
+            case CoreFileProvider.FORMATARRAYBUFFER:
+                return data.slice(0);
+            default:
+                return new TextDecoder().decode(new Uint8Array(data));
+        }
+    }
+
+    /**
+     * Read a part of a file.
+     *
+     * @param path Relative path to the file.
+     * @param offset Position where to start reading, in bytes.
+     * @param length Number of bytes to read.
+     * @return Promise resolved with the data read.
+     */
+    async readFileChunk(path: string, offset: number, length: number): Promise<ArrayBuffer> {
+        const record = await this.getExistingRecord(path, false);
+        const end = offset + length,
+            parts: ArrayBuffer[] = [];
+        let partOffset = 0;
+
+        // Only copy the parts that contain the data.
+        this.getParts(record).forEach((part) => {
+            const partEnd = partOffset + part.byteLength;
+
+            if (partEnd > offset && partOffset < end) {
+                parts.push(part.slice(Math.max(offset - partOffset, 0), Math.min(end, partEnd) - partOffset));
+            }
+            partOffset = partEnd;
+        });
+
+        return parts.length == 1 ? parts[0] : this.concat(parts);
+    }
+
+    /**
+     * Write some data in a file. The file and its parent directories are created if needed.
+     * The data appended is stored in a new chunk, so the existing data isn't copied.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write: string, ArrayBuffer, typed array or Blob.
+     * @param append Whether to append the data to the end of the file.
+     * @return Promise resolved with the file.
+     */
+    async writeFile(path: string, data: any, append?: boolean): Promise<FileEntry> {
+        const record = await this.create(false, path);
+        const buffer = await dataToArrayBuffer(data);
+
+        if (append && this.getSize(record)) {
+            record.chunks = (record.chunks || []).concat([buffer]);
+        } else {
+            record.data = buffer;
+            delete record.chunks;
+        }
+
+        record.modificationTime = Date.now();
+        await this.putRecords([record]);
+
+        return <FileEntry> <any> new CoreFileVirtualEntry(this, record);
+    }
+
+    /**
+     * Copy or move a file or a directory. If the destination exists it's replaced.
+     *
+     * @param from Relative path to the file/dir.
+     * @param to Relative new path of the file/dir.
+     * @param isDir Whether it's a dir or a file.
+     * @param copy Whether to copy. If false, it will move the file.
+     * @return Promise resolved with the new entry.
+     */
+    async copyOrMove(from: string, to: string, isDir: boolean, copy: boolean): Promise<Entry> {
+        const source = await this.getExistingRecord(from, isDir);
+        const target = this.normalizePath(to);
+
+        if (!source.path || !target || target == source.path || target.indexOf(source.path + '/') === 0) {
+            // Cannot copy the root, or a directory inside itself.
+            throw createFileError(9, 'INVALID_MODIFICATION_ERR');
+        }
+
+        const parent = target.substr(0, Math.max(target.lastIndexOf('/'), 0));
+        await this.create(true, parent);
+
+        const existing = await this.getRecord(target);
+        if (existing) {
+            if (existing.isDirectory != source.isDirectory) {
+                throw createFileError(11, 'TYPE_MISMATCH_ERR');
+            }
+
+            await this.deleteRecords([target].concat((await this.getChildRecords(target, true)).map((child) => {
+                return child.path;
+            })));
+        }
+
+        const records = isDir ? [source].concat(await this.getChildRecords(source.path, true)) : [source];
+        const now = Date.now();
+
+        await this.putRecords(records.map((record) => {
+            return {
+                path: target + record.path.substr(source.path.length),
+                isDirectory: record.isDirectory,
+                data: record.data,
+                chunks: record.chunks,
+                modificationTime: copy ? now : record.modificationTime
+            };
+        }));
+
+        if (!copy) {
+            await this.deleteRecords(records.map((record) => {
+                return record.path;
+            }));
+        }
+
+        return <Entry> <any> new CoreFileVirtualEntry(this, <CoreFileVirtualRecord> await this.getRecord(target));
+    }
+
+    /**
+     * Get the metadata of a file or directory.
+     *
+     * @param path Relative path to the file/dir.
+     * @param isDir True if directory, false if file.
+     * @return Promise resolved with the metadata.
+     */
+    async getMetadata(path: string, isDir?: boolean): Promise<Metadata> {
+        const record = await this.getExistingRecord(path, !!isDir);
+
+        return {
+            modificationTime: new Date(record.modificationTime),
+            size: this.getSize(record)
+        };
+    }
+
+    /**
+     * Get the parts of the contents of a file: its data and the chunks appended.
+     *
+     * @param record Record of the file.
+     * @return Parts.
+     */
+    protected getParts(record: CoreFileVirtualRecord): ArrayBuffer[] {
+        return (record.data ? [record.data] : []).concat(record.chunks || []);
+    }
+
+    /**
+     * Get the contents of a file, joining its chunks.
+     *
+     * @param record Record of the file.
+     * @return Contents.
+     */
+    protected getData(record: CoreFileVirtualRecord): ArrayBuffer {
+        const parts = this.getParts(record);
+
+        return parts.length == 1 ? parts[0] : this.concat(parts);
+    }
+
+    /**
+     * Get the size of a file.
+     *
+     * @param record Record of the file.
+     * @return Size in bytes.
+     */
+    protected getSize(record: CoreFileVirtualRecord): number {
+        return this.getParts(record).reduce((size, part) => {
+            return size + part.byteLength;
+        }, 0);
+    }
+
+    /**
+     * Join some buffers.
+     *
+     * @param parts Buffers to join.
+     * @return Joined buffer.
+     */
+    protected concat(parts: ArrayBuffer[]): ArrayBuffer {
+        const joined = new Uint8Array(parts.reduce((size, part) => {
+            return size + part.byteLength;
+        }, 0));
+        let offset = 0;
+
+        parts.forEach((part) => {
+            joined.set(new Uint8Array(part), offset);
+            offset += part.byteLength;
+        });
+
+        return joined.buffer;
+    }
+
+    /**
+     * Normalize a path: remove the base URL and the starting and trailing slashes, and resolve '.' and '..'.
+     *
+     * @param path Path.
+     * @return Normalized path.
+     */
+    protected normalizePath(path: string): string {
+        if (path.indexOf(this.baseURL) === 0) {
+            path = path.substr(this.baseURL.length);
+        }
+
+        const parts = [];
+        path.split('/').forEach((part) => {
+            if (part == '..') {
+                parts.pop();
+            } else if (part && part != '.') {
+                parts.push(part);
+            }
+        });
+
+        return parts.join('/');
+    }
+
+    /**
+     * Get a record that must exist.
+     *
+     * @param path Path of the record.
+     * @param isDirectory Whether the record must be a directory or a file.
+     * @return Promise resolved with the record.
+     */
+    protected async getExistingRecord(path: string, isDirectory: boolean): Promise<CoreFileVirtualRecord> {
+        const record = await this.getRecord(this.normalizePath(path));
+
+        if (!record) {
+            throw createFileError(1, 'NOT_FOUND_ERR');
+        } else if (record.isDirectory != isDirectory) {
+            throw createFileError(11, 'TYPE_MISMATCH_ERR');
+        }
+
+        return record;
+    }
+
+    /**
+     * Get a record. The root directory always exists.
+     *
+     * @param path Normalized path of the record.
+     * @return Promise resolved with the record, undefined if not found.
+     */
+    protected getRecord(path: string): Promise<CoreFileVirtualRecord> {
+        if (!path) {
+            return Promise.resolve({ path: '', isDirectory: true, modificationTime: 0 });
+        }
+
+        return this.loadRecord(path);
+    }
+
+    /**
+     * Create a directory or a file, including the parent directories.
+     *
+     * @param isDirectory True if a directory should be created, false if it should create a file.
+     * @param path Relative path to the dir/file.
+     * @param failIfExists True if it should fail if the dir/file exists, false otherwise.
+     * @return Promise resolved with the record.
+     */
+    protected async create(isDirectory: boolean, path: string, failIfExists?: boolean): Promise<CoreFileVirtualRecord> {
+        path = this.normalizePath(path);
+
+        const existing = await this.getRecord(path);
+        if (existing) {
+            if (failIfExists) {
+                throw createFileError(12, 'PATH_EXISTS_ERR');
+            } else if (existing.isDirectory != isDirectory) {
+                throw createFileError(11, 'TYPE_MISMATCH_ERR');
+            }
+
+            return existing;
+        }
+
+        // Create the missing parent directories.
+        const records: CoreFileVirtualRecord[] = [],
+            parts = path.split('/'),
+            now = Date.now();
+
+        for (let i = 1; i < parts.length; i++) {
+            const parentPath = parts.slice(0, i).join('/');
+            const parent = await this.getRecord(parentPath);
+
+            if (parent && !parent.isDirectory) {
+                throw createFileError(11, 'TYPE_MISMATCH_ERR');
+            } else if (!parent) {
+                records.push({ path: parentPath, isDirectory: true, modificationTime: now });
+            }
+        }
+
+        const record: CoreFileVirtualRecord = {
+            path: path,
+            isDirectory: isDirectory,
+            data: isDirectory ? undefined : new ArrayBuffer(0),
+            modificationTime: now
+        };
+        records.push(record);
+
+        await this.putRecords(records);
+
+        return record;
+    }
+
+    /**
+     * Prepare the storage of the records.
+     *
+     * @return Promise resolved when done.
+     */
+    protected abstract open(): Promise<void>;
+
+    /**
+     * Load a stored record.
+     *
+     * @param path Normalized path of the record.
+     * @return Promise resolved with the record, undefined if not found.
+     */
+    protected abstract loadRecord(path: string): Promise<CoreFileVirtualRecord>;
+
+    /**
+     * Get the records inside a directory.
+     *
+     * @param path Normalized path of the directory.
+     * @param recursive Whether to include the contents of the subdirectories.
+     * @return Promise resolved with the records.
+     */
+    protected abstract getChildRecords(path: string, recursive: boolean): Promise<CoreFileVirtualRecord[]>;
+
+    /**
+     * Store some records, replacing the existing ones with the same path.
+     *
+     * @param records Records to store.
+     * @return Promise resolved when done.
+     */
+    protected abstract putRecords(records: CoreFileVirtualRecord[]): Promise<void>;
+
+    /**
+     * Delete some records.
+     *
+     * @param paths Normalized paths of the records to delete.
+     * @return Promise resolved when done.
+     */
+    protected abstract deleteRecords(paths: string[]): Promise<void>;
+}
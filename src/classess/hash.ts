@@ -0,0 +1,374 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreError } from './error';
+
+/**
+ * Incremental hash of some data, calculated in blocks of 64 bytes so the data can be added in chunks.
+ * WebCrypto's digest needs all the data at once, that's why the algorithms are implemented here.
+ *
+ * const hash = CoreHash.create('sha256');
+ * hash.update(chunk1).update(chunk2);
+ * const hex = hash.digest();
+ */
+export abstract class CoreHash {
+    static ALGORITHMS = ['md5', 'sha1', 'sha256'];
+
+    protected state: number[]; // Words of the state, set by the subclasses.
+    protected littleEndian = false; // Whether the words are little endian.
+    protected buffer = new Uint8Array(64);
+    protected bufferLength = 0;
+    protected length = 0; // Bytes added.
+    protected finished = false;
+
+    /**
+     * Create a hash.
+     *
+     * @param algorithm Algorithm: md5, sha1 or sha256.
+     * @return Hash.
+     */
+    static create(algorithm: string): CoreHash {
+        switch ((algorithm || '').toLowerCase().replace('-', '')) {
+            case 'md5':
+                return new CoreMd5Hash();
+            case 'sha1':
+                return new CoreSha1Hash();
+            case 'sha256':
+                return new CoreSha256Hash();
+            default:
+                throw new CoreError('Hash algorithm not supported: ' + algorithm);
+        }
+    }
+
+    /**
+     * Add some data to the hash.
+     *
+     * @param data Data to add. Strings are encoded in UTF-8.
+     * @return The hash, to chain calls.
+     */
+    update(data: ArrayBuffer | Uint8Array | string): this {
+        if (this.finished) {
+            throw new CoreError('Cannot update a hash that has been digested.');
+        }
+
+        const bytes = typeof data == 'string' ? new TextEncoder().encode(data) :
+            data instanceof Uint8Array ? data : new Uint8Array(data);
+
+        this.length += bytes.length;
+        this.append(bytes);
+
+        return this;
+    }
+
+    /**
+     * Finish the hash and get the result. The hash cannot be updated afterwards.
+     *
+     * @return Hash in hexadecimal.
+     */
+    digest(): string {
+        if (!this.finished) {
+            // Add a 1 bit, zeros and the length in bits, so the last block is complete.
+            const padding = new Uint8Array((this.bufferLength < 56 ? 56 : 120) - this.bufferLength + 8),
+                view = new DataView(padding.buffer),
+                bits = this.length * 8;
+
+            padding[0] = 0x80;
+            if (this.littleEndian) {
+                view.setUint32(padding.length - 8, bits >>> 0, true);
+                view.setUint32(padding.length - 4, Math.floor(bits / 0x100000000), true);
+            } else {
+                view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+                view.setUint32(padding.length - 4, bits >>> 0);
+            }
+
+            this.append(padding);
+            this.finished = true;
+        }
+
+        const bytes = new DataView(new ArrayBuffer(this.state.length * 4));
+        let hex = '';
+
+        this.state.forEach((word, index) => {
+            bytes.setUint32(index * 4, word >>> 0, this.littleEndian);
+        });
+
+        for (let i = 0; i < bytes.byteLength; i++) {
+            hex += ('0' + bytes.getUint8(i).toString(16)).slice(-2);
+        }
+
+        return hex;
+    }
+
+    /**
+     * Add some bytes, processing the complete blocks.
+     *
+     * @param bytes Bytes to add.
+     */
+    protected append(bytes: Uint8Array): void {
+        let position = 0;
+
+        if (this.bufferLength) {
+            // Complete the pending block.
+            position = Math.min(64 - this.bufferLength, bytes.length);
+            this.buffer.set(bytes.subarray(0, position), this.bufferLength);
+            this.bufferLength += position;
+
+            if (this.bufferLength < 64) {
+                return;
+            }
+
+            this.processBlock(this.buffer, 0);
+            this.bufferLength = 0;
+        }
+
+        for (; position + 64 <= bytes.length; position += 64) {
+            this.processBlock(bytes, position);
+        }
+
+        if (position < bytes.length) {
+            this.buffer.set(bytes.subarray(position), 0);
+            this.bufferLength = bytes.length - position;
+        }
+    }
+
+    /**
+     * Process a block of 64 bytes, updating the state.
+     *
+     * @param block Bytes.
+     * @param offset Position of the block in the bytes.
+     */
+    protected abstract processBlock(block: Uint8Array, offset: number): void;
+}
+
+/**
+ * MD5 hash. It's not secure, use it only to check files against MD5 checksums.
+ */
+export class CoreMd5Hash extends CoreHash {
+    protected static SHIFTS = [
+        7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+        5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+        4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+        6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+    ];
+    protected static CONSTANTS: number[];
+
+    protected state = [0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476];
+    protected littleEndian = true;
+    protected words = new Array<number>(16);
+
+    constructor() {
+        super();
+
+        if (!CoreMd5Hash.CONSTANTS) {
+            CoreMd5Hash.CONSTANTS = [];
+            for (let i = 0; i < 64; i++) {
+                CoreMd5Hash.CONSTANTS.push(Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+            }
+        }
+    }
+
+    /**
+     * Process a block of 64 bytes, updating the state.
+     *
+     * @param block Bytes.
+     * @param offset Position of the block in the bytes.
+     */
+    protected processBlock(block: Uint8Array, offset: number): void {
+        const words = this.words,
+            state = this.state;
+        let a = state[0],
+            b = state[1],
+            c = state[2],
+            d = state[3];
+
+        for (let i = 0; i < 16; i++) {
+            const pos = offset + i * 4;
+            words[i] = block[pos] | (block[pos + 1] << 8) | (block[pos + 2] << 16) | (block[pos + 3] << 24);
+        }
+
+        for (let i = 0; i < 64; i++) {
+            let f: number,
+                g: number;
+
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+
+            const x = (a + f + CoreMd5Hash.CONSTANTS[i] + words[g]) | 0,
+                shift = CoreMd5Hash.SHIFTS[i];
+
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((x << shift) | (x >>> (32 - shift)))) | 0;
+        }
+
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+    }
+}
+
+/**
+ * SHA-1 hash.
+ */
+export class CoreSha1Hash extends CoreHash {
+    protected state = [0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0];
+    protected words = new Array<number>(80);
+
+    /**
+     * Process a block of 64 bytes, updating the state.
+     *
+     * @param block Bytes.
+     * @param offset Position of the block in the bytes.
+     */
+    protected processBlock(block: Uint8Array, offset: number): void {
+        const words = this.words,
+            state = this.state;
+        let a = state[0],
+            b = state[1],
+            c = state[2],
+            d = state[3],
+            e = state[4];
+
+        for (let i = 0; i < 80; i++) {
+            if (i < 16) {
+                const pos = offset + i * 4;
+                words[i] = (block[pos] << 24) | (block[pos + 1] << 16) | (block[pos + 2] << 8) | block[pos + 3];
+            } else {
+                const x = words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16];
+                words[i] = (x << 1) | (x >>> 31);
+            }
+
+            let f: number,
+                k: number;
+
+            if (i < 20) {
+                f = (b & c) | (~b & d);
+                k = 0x5A827999;
+            } else if (i < 40) {
+                f = b ^ c ^ d;
+                k = 0x6ED9EBA1;
+            } else if (i < 60) {
+                f = (b & c) | (b & d) | (c & d);
+                k = 0x8F1BBCDC;
+            } else {
+                f = b ^ c ^ d;
+                k = 0xCA62C1D6;
+            }
+
+            const temp = (((a << 5) | (a >>> 27)) + f + e + k + words[i]) | 0;
+            e = d;
+            d = c;
+            c = (b << 30) | (b >>> 2);
+            b = a;
+            a = temp;
+        }
+
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+        state[4] = (state[4] + e) | 0;
+    }
+}
+
+/**
+ * SHA-256 hash.
+ */
+export class CoreSha256Hash extends CoreHash {
+    protected static CONSTANTS = [
+        0x428A2F98, 0x71374491, 0xB5C0FBCF, 0xE9B5DBA5, 0x3956C25B, 0x59F111F1, 0x923F82A4, 0xAB1C5ED5,
+        0xD807AA98, 0x12835B01, 0x243185BE, 0x550C7DC3, 0x72BE5D74, 0x80DEB1FE, 0x9BDC06A7, 0xC19BF174,
+        0xE49B69C1, 0xEFBE4786, 0x0FC19DC6, 0x240CA1CC, 0x2DE92C6F, 0x4A7484AA, 0x5CB0A9DC, 0x76F988DA,
+        0x983E5152, 0xA831C66D, 0xB00327C8, 0xBF597FC7, 0xC6E00BF3, 0xD5A79147, 0x06CA6351, 0x14292967,
+        0x27B70A85, 0x2E1B2138, 0x4D2C6DFC, 0x53380D13, 0x650A7354, 0x766A0ABB, 0x81C2C92E, 0x92722C85,
+        0xA2BFE8A1, 0xA81A664B, 0xC24B8B70, 0xC76C51A3, 0xD192E819, 0xD6990624, 0xF40E3585, 0x106AA070,
+        0x19A4C116, 0x1E376C08, 0x2748774C, 0x34B0BCB5, 0x391C0CB3, 0x4ED8AA4A, 0x5B9CCA4F, 0x682E6FF3,
+        0x748F82EE, 0x78A5636F, 0x84C87814, 0x8CC70208, 0x90BEFFFA, 0xA4506CEB, 0xBEF9A3F7, 0xC67178F2
+    ];
+
+    protected state = [0x6A09E667, 0xBB67AE85, 0x3C6EF372, 0xA54FF53A, 0x510E527F, 0x9B05688C, 0x1F83D9AB, 0x5BE0CD19];
+    protected words = new Array<number>(64);
+
+    /**
+     * Process a block of 64 bytes, updating the state.
+     *
+     * @param block Bytes.
+     * @param offset Position of the block in the bytes.
+     */
+    protected processBlock(block: Uint8Array, offset: number): void {
+        const words = this.words,
+            state = this.state;
+        let a = state[0],
+            b = state[1],
+            c = state[2],
+            d = state[3],
+            e = state[4],
+            f = state[5],
+            g = state[6],
+            h = state[7];
+
+        for (let i = 0; i < 64; i++) {
+            if (i < 16) {
+                const pos = offset + i * 4;
+                words[i] = (block[pos] << 24) | (block[pos + 1] << 16) | (block[pos + 2] << 8) | block[pos + 3];
+            } else {
+                const w15 = words[i - 15],
+                    w2 = words[i - 2],
+                    s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3),
+                    s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+
+                words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+            }
+
+            const sum1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7)),
+                ch = (e & f) ^ (~e & g),
+                temp1 = (h + sum1 + ch + CoreSha256Hash.CONSTANTS[i] + words[i]) | 0,
+                sum0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10)),
+                maj = (a & b) ^ (a & c) ^ (b & c),
+                temp2 = (sum0 + maj) | 0;
+
+            h = g;
+            g = f;
+            f = e;
+            e = (d + temp1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (temp1 + temp2) | 0;
+        }
+
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+        state[4] = (state[4] + e) | 0;
+        state[5] = (state[5] + f) | 0;
+        state[6] = (state[6] + g) | 0;
+        state[7] = (state[7] + h) | 0;
+    }
+}
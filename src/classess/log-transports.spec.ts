@@ -0,0 +1,116 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreLogFileTransport } from './log-transports';
+import { CoreEventsProvider } from '../providers/events';
+import { createTestFileProvider } from '../test-utils';
+
+describe('CoreLogFileTransport', () => {
+
+    /**
+     * Wait some time.
+     *
+     * @param ms Milliseconds to wait.
+     * @return Promise resolved after the time.
+     */
+    function wait(ms: number): Promise<void> {
+        return new Promise<void>((resolve): void => {
+            setTimeout(resolve, ms);
+        });
+    }
+
+    it('writes the log file once per flush, without logging its own FILE_CHANGED events', async () => {
+        const { fileProvider, logger } = createTestFileProvider();
+
+        logger.setLevel('debug', false);
+        logger.addTransport(new CoreLogFileTransport(fileProvider, { flushInterval: 20 }));
+        spyOn(fileProvider, 'writeFile').and.callThrough();
+
+        logger.getInstance('Spec').log('hello');
+        await wait(300);
+
+        expect(fileProvider.writeFile).toHaveBeenCalledTimes(1);
+
+        const content = await fileProvider.readFile('logs/app.log');
+        expect(content).toContain('hello');
+        expect(content).not.toContain('file_changed');
+    });
+
+    it('doesn\'t trigger FILE_CHANGED when writing the log file', async () => {
+        const { fileProvider, logger, events } = createTestFileProvider();
+        const transport = new CoreLogFileTransport(fileProvider, { flushInterval: 0 });
+        const changes = [];
+
+        events.on(CoreEventsProvider.FILE_CHANGED, (data) => {
+            changes.push(data);
+        });
+
+        transport.write({
+            level: 'log',
+            timestamp: Date.now(),
+            time: new Date().toISOString(),
+            className: 'Spec',
+            message: 'hello',
+            args: [],
+            context: {}
+        });
+        await transport.flush();
+
+        expect(changes).toEqual([]);
+        expect(await fileProvider.readFile('logs/app.log')).toContain('hello');
+    });
+
+    it('keeps the messages of the file provider logged while writing for the next write', async () => {
+        const { fileProvider, logger } = createTestFileProvider();
+        const transport = new CoreLogFileTransport(fileProvider, { flushInterval: 20 });
+
+        logger.setLevel('debug', false);
+        logger.addTransport(transport);
+        spyOn(fileProvider, 'writeFile').and.callThrough();
+
+        logger.getInstance('Spec').log('first');
+        await wait(100);
+        expect(fileProvider.writeFile).toHaveBeenCalledTimes(1);
+        expect(await fileProvider.readFile('logs/app.log')).not.toContain('Write file: logs/app.log');
+
+        logger.getInstance('Spec').log('second');
+        await transport.flush();
+
+        expect(fileProvider.writeFile).toHaveBeenCalledTimes(2);
+        expect(await fileProvider.readFile('logs/app.log')).toContain('Write file: logs/app.log');
+    });
+
+    it('rotates the file when its size in bytes reaches the limit', async () => {
+        const { fileProvider } = createTestFileProvider();
+        const transport = new CoreLogFileTransport(fileProvider, { flushInterval: 0, maxSize: 300 });
+        const entry = {
+            level: 'log',
+            timestamp: Date.now(),
+            time: new Date().toISOString(),
+            className: 'Spec',
+            message: new Array(101).join('é'), // 100 characters, 200 bytes.
+            args: [],
+            context: {}
+        };
+
+        transport.write(entry);
+        await transport.flush();
+        transport.write(entry);
+        await transport.flush();
+
+        expect(await fileProvider.readFile('logs/app.log.1')).toContain('é');
+        expect(await fileProvider.getFileSize('logs/app.log')).toBeLessThanOrEqual(300);
+    });
+});
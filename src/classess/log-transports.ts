@@ -0,0 +1,447 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import * as moment from 'moment';
+import { CoreLogEntry, CoreLogRenderer, CoreLogTransport } from '../providers/logger';
+import { CoreFileProvider } from '../providers/file';
+
+/* tslint:disable no-console */
+
+/**
+ * Convert a log argument to a value that can be serialized as JSON.
+ *
+ * @param arg Argument.
+ * @return Serializable value.
+ */
+function serializeLogArg(arg: any): any {
+    if (arg instanceof Error) {
+        return { name: arg.name, message: arg.message, stack: arg.stack };
+    }
+
+    if (arg && typeof arg == 'object') {
+        try {
+            return JSON.parse(JSON.stringify(arg));
+        } catch (error) {
+            // Circular structure or similar.
+            return String(arg);
+        }
+    }
+
+    return arg;
+}
+
+/**
+ * Convert a log entry to a plain object that can be serialized as JSON.
+ *
+ * @param entry Entry.
+ * @return Serializable object.
+ */
+export function serializeLogEntry(entry: CoreLogEntry): any {
+    return {
+        level: entry.level,
+        time: entry.time,
+        className: entry.className,
+        message: entry.message,
+        args: entry.args.map(serializeLogArg),
+        context: serializeLogArg(entry.context)
+    };
+}
+
+/**
+ * Convert a log entry to a line of text.
+ *
+ * @param entry Entry.
+ * @return Line, including the line break.
+ */
+function formatLogLine(entry: CoreLogEntry): string {
+    const args = (entry.message ? [entry.message] : []).concat(entry.args).map((arg: any) => {
+        if (typeof arg == 'string') {
+            return arg;
+        } else if (arg instanceof Error) {
+            return arg.stack || arg.message;
+        }
+
+        const serialized = serializeLogArg(arg);
+
+        return typeof serialized == 'string' ? serialized : JSON.stringify(serialized);
+    });
+
+    const context = Object.keys(entry.context).length ? ' ' + JSON.stringify(serializeLogArg(entry.context)) : '';
+
+    return entry.time + ' ' + entry.level.toUpperCase() + ' ' + entry.className + ': ' + args.join(' ') + context + '\n';
+}
+
+/**
+ * Renderer that prepends the time and the class name to the message.
+ */
+export class CoreLogTextRenderer implements CoreLogRenderer {
+
+    /**
+     * Render an entry.
+     *
+     * @param entry Entry to render.
+     * @return Arguments to pass to the console.
+     */
+    render(entry: CoreLogEntry): any[] {
+        const now = moment(entry.timestamp).format('l LTS');
+
+        // Prepend timestamp and className to the original message.
+        return [now + ' ' + entry.className + ': ' + entry.message].concat(entry.args);
+    }
+}
+
+/**
+ * Renderer that converts the entry to a JSON string.
+ */
+export class CoreLogJsonRenderer implements CoreLogRenderer {
+
+    /**
+     * Render an entry.
+     *
+     * @param entry Entry to render.
+     * @return Arguments to pass to the console.
+     */
+    render(entry: CoreLogEntry): any[] {
+        return [JSON.stringify(serializeLogEntry(entry))];
+    }
+}
+
+/**
+ * Transport that writes the entries in the console.
+ */
+export class CoreLogConsoleTransport implements CoreLogTransport {
+
+    /**
+     * Constructor.
+     *
+     * @param renderer Renderer to convert the entries to the arguments of the console. Defaults to the text renderer.
+     */
+    constructor(protected renderer: CoreLogRenderer = new CoreLogTextRenderer()) { }
+
+    /**
+     * Set the renderer to use.
+     *
+     * @param renderer Renderer.
+     */
+    setRenderer(renderer: CoreLogRenderer): void {
+        this.renderer = renderer;
+    }
+
+    /**
+     * Write an entry.
+     *
+     * @param entry Entry to write.
+     */
+    write(entry: CoreLogEntry): void {
+        const logFn: Function = console[entry.level] || console.log;
+
+        logFn.apply(console, this.renderer.render(entry));
+    }
+}
+
+/**
+ * Transport that keeps the last entries in memory.
+ */
+export class CoreLogMemoryTransport implements CoreLogTransport {
+    protected entries: CoreLogEntry[] = [];
+
+    /**
+     * Constructor.
+     *
+     * @param maxEntries Max number of entries to keep. When the limit is reached the oldest entries are discarded.
+     */
+    constructor(protected maxEntries: number = 1000) { }
+
+    /**
+     * Write an entry.
+     *
+     * @param entry Entry to write.
+     */
+    write(entry: CoreLogEntry): void {
+        this.entries.push(entry);
+
+        if (this.entries.length > this.maxEntries) {
+            this.entries.splice(0, this.entries.length - this.maxEntries);
+        }
+    }
+
+    /**
+     * Get the stored entries, from oldest to newest.
+     *
+     * @return Entries.
+     */
+    getEntries(): CoreLogEntry[] {
+        return this.entries.slice();
+    }
+
+    /**
+     * Remove all the stored entries.
+     */
+    clear(): void {
+        this.entries = [];
+    }
+}
+
+/**
+ * Options for CoreLogFileTransport.
+ */
+export interface CoreLogFileTransportOptions {
+    path?: string; // Relative path of the log file. Defaults to 'logs/app.log'.
+    maxSize?: number; // Max size of the file in bytes before rotating it. Defaults to 1 MB.
+    maxFiles?: number; // Number of rotated files to keep (app.log.1, app.log.2, ...). Defaults to 3.
+    flushInterval?: number; // Milliseconds to wait before writing the pending entries. Defaults to 2000.
+}
+
+/**
+ * Transport that appends the entries to a text file, rotating it when it reaches a certain size.
+ * The entries are written in batches to prevent writing the file for each entry.
+ */
+export class CoreLogFileTransport implements CoreLogTransport {
+    protected path: string;
+    protected maxSize: number;
+    protected maxFiles: number;
+    protected flushInterval: number;
+    protected buffer: string[] = [];
+    protected size: number; // Size of the current file. Undefined until it's calculated.
+    protected timeout: any;
+    protected writing = false;
+    protected flushPromise: Promise<void> = Promise.resolve();
+
+    /**
+     * Constructor.
+     *
+     * @param fileProvider File provider.
+     * @param options Options.
+     */
+    constructor(protected fileProvider: CoreFileProvider, options: CoreLogFileTransportOptions = {}) {
+        this.path = options.path || 'logs/app.log';
+        this.maxSize = options.maxSize || 1048576;
+        this.maxFiles = typeof options.maxFiles == 'number' ? options.maxFiles : 3;
+        this.flushInterval = typeof options.flushInterval == 'number' ? options.flushInterval : 2000;
+    }
+
+    /**
+     * Write an entry.
+     *
+     * @param entry Entry to write.
+     */
+    write(entry: CoreLogEntry): void {
+        this.buffer.push(formatLogLine(entry));
+
+        if (this.writing && entry.className == 'CoreFileProvider') {
+            // Messages of the file provider while writing the log. Write them with the next entries, if they scheduled a write
+            // every write would cause another one.
+            return;
+        }
+
+        if (!this.timeout) {
+            this.timeout = setTimeout(() => {
+                this.flush();
+            }, this.flushInterval);
+        }
+    }
+
+    /**
+     * Write the pending entries to the file.
+     *
+     * @return Promise resolved when done.
+     */
+    flush(): Promise<void> {
+        clearTimeout(this.timeout);
+        delete this.timeout;
+
+        // Wait for the previous write to finish, the file can only be written once at a time.
+        this.flushPromise = this.flushPromise.then(() => {
+            return this.writeBuffer();
+        });
+
+        return this.flushPromise;
+    }
+
+    /**
+     * Write the buffered entries to the file, rotating it if needed.
+     *
+     * @return Promise resolved when done.
+     */
+    protected async writeBuffer(): Promise<void> {
+        if (!this.buffer.length) {
+            return;
+        }
+
+        const text = this.buffer.join('');
+        this.buffer = [];
+        this.writing = true;
+
+        try {
+            if (typeof this.size == 'undefined') {
+                this.size = await this.fileProvider.getFileSize(this.path).catch(() => {
+                    // The file doesn't exist yet.
+                    return 0;
+                });
+            }
+
+            // The size of the file is in bytes, not in characters.
+            const length = new TextEncoder().encode(text).length;
+
+            if (this.size > 0 && this.size + length > this.maxSize) {
+                await this.rotate();
+                this.size = 0;
+            }
+
+            // Don't trigger FILE_CHANGED, the event is logged so it would cause another write.
+            await this.fileProvider.writeFile(this.path, text, true, false);
+            this.size += length;
+        } catch (error) {
+            console.error('Error writing the log file.', error);
+        } finally {
+            this.writing = false;
+        }
+    }
+
+    /**
+     * Rotate the log files: app.log -> app.log.1, app.log.1 -> app.log.2, ... The oldest file is deleted.
+     *
+     * @return Promise resolved when done.
+     */
+    protected async rotate(): Promise<void> {
+        if (this.maxFiles < 1) {
+            await this.fileProvider.removeFile(this.path);
+
+            return;
+        }
+
+        await this.fileProvider.removeFile(this.path + '.' + this.maxFiles).catch(() => {
+            // Ignore errors, it might not exist.
+        });
+
+        for (let i = this.maxFiles - 1; i > 0; i--) {
+            await this.fileProvider.moveFile(this.path + '.' + i, this.path + '.' + (i + 1), true).catch(() => {
+                // Ignore errors, it might not exist.
+            });
+        }
+
+        await this.fileProvider.moveFile(this.path, this.path + '.1', true);
+    }
+}
+
+/**
+ * Options for CoreLogHttpTransport.
+ */
+export interface CoreLogHttpTransportOptions {
+    endpoint: string; // URL where to send the entries. They are sent in a POST request with body: {entries: [...]}.
+    batchSize?: number; // Max number of entries to send in each request. Defaults to 50.
+    flushInterval?: number; // Milliseconds to wait before sending the pending entries. Defaults to 30000.
+    maxQueueSize?: number; // Max number of entries to keep while offline. Older entries are discarded. Defaults to 5000.
+    headers?: { [name: string]: string }; // Headers to add to the requests.
+}
+
+/**
+ * Transport that sends the entries to a server in batches. The entries are queued while the device is offline.
+ */
+export class CoreLogHttpTransport implements CoreLogTransport {
+    protected queue: any[] = [];
+    protected timeout: any;
+    protected sending = false;
+    protected onlineListener: () => void;
+
+    /**
+     * Constructor.
+     *
+     * @param http Angular HTTP client.
+     * @param options Options.
+     */
+    constructor(protected http: HttpClient, protected options: CoreLogHttpTransportOptions) {
+        this.options.batchSize = this.options.batchSize || 50;
+        this.options.flushInterval = typeof this.options.flushInterval == 'number' ? this.options.flushInterval : 30000;
+        this.options.maxQueueSize = this.options.maxQueueSize || 5000;
+
+        // Send the queued entries when the connection is recovered.
+        this.onlineListener = (): void => {
+            this.flush();
+        };
+        window.addEventListener('online', this.onlineListener);
+    }
+
+    /**
+     * Write an entry.
+     *
+     * @param entry Entry to write.
+     */
+    write(entry: CoreLogEntry): void {
+        this.queue.push(serializeLogEntry(entry));
+
+        if (this.queue.length > this.options.maxQueueSize) {
+            this.queue.splice(0, this.queue.length - this.options.maxQueueSize);
+        }
+
+        if (this.queue.length >= this.options.batchSize) {
+            this.flush();
+        } else if (!this.timeout) {
+            this.timeout = setTimeout(() => {
+                this.flush();
+            }, this.options.flushInterval);
+        }
+    }
+
+    /**
+     * Send the queued entries to the server.
+     *
+     * @return Promise resolved when done. It's never rejected, the entries that couldn't be sent stay in the queue.
+     */
+    async flush(): Promise<void> {
+        clearTimeout(this.timeout);
+        delete this.timeout;
+
+        if (this.sending || !this.queue.length || navigator.onLine === false) {
+            return;
+        }
+
+        const entries = this.queue.splice(0, this.options.batchSize);
+        this.sending = true;
+
+        try {
+            await this.http.post(this.options.endpoint, { entries: entries }, {
+                headers: new HttpHeaders(this.options.headers || {})
+            }).toPromise();
+        } catch (error) {
+            // Put the entries back in the queue to send them later.
+            this.queue = entries.concat(this.queue);
+            this.sending = false;
+
+            if (!this.timeout) {
+                this.timeout = setTimeout(() => {
+                    this.flush();
+                }, this.options.flushInterval);
+            }
+
+            return;
+        }
+
+        this.sending = false;
+
+        if (this.queue.length) {
+            return this.flush();
+        }
+    }
+
+    /**
+     * Stop sending entries. The transport shouldn't be used after calling this function.
+     */
+    destroy(): void {
+        clearTimeout(this.timeout);
+        delete this.timeout;
+        window.removeEventListener('online', this.onlineListener);
+    }
+}
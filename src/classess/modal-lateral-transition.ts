@@ -19,10 +19,19 @@ import { PageTransition } from 'ionic-angular/transitions/page-transition';
  * Sliding transition for lateral modals.
  */
 export class CoreModalLateralTransition extends PageTransition {
+    static logger: any; // Logger instance used to time the transitions. Set by CleanLibModule.
+
     /**
      * Animation.
      */
     init(): void {
+        if (CoreModalLateralTransition.logger) {
+            const span = CoreModalLateralTransition.logger.time('modalLateralTransition');
+            this.onFinish(() => {
+                span.end();
+            });
+        }
+
         const enteringView = this.enteringView;
         const leavingView = this.leavingView;
 
@@ -33,8 +33,18 @@ const SHOW_BACK_BTN_CSS = 'show-back-button';
  *  appear.
  */
 export class CorePageTransition extends PageTransition {
+    static logger: any; // Logger instance used to time the transitions. Set by CleanLibModule.
+
     init(): void {
         super.init();
+
+        if (CorePageTransition.logger) {
+            const span = CorePageTransition.logger.time('pageTransition');
+            this.onFinish(() => {
+                span.end();
+            });
+        }
+
         const plt = this.plt;
         const OFF_RIGHT = plt.isRTL ? '-99.5%' : '99.5%';
         const OFF_LEFT = plt.isRTL ? '33%' : '-33%';
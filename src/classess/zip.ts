@@ -0,0 +1,528 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreDeflate } from './deflate';
+import { CoreError } from './error';
+import { CoreFileCorruptError } from './file-error';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034B50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014B50;
+const END_SIGNATURE = 0x06054B50;
+const VERSION = 20; // 2.0, needed for deflate and directories.
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Entry of a zip file.
+ */
+export interface CoreZipEntry {
+    name: string; // Path of the entry inside the zip. Directories end with a slash.
+    isDirectory: boolean;
+    size: number; // Uncompressed size in bytes.
+    compressedSize: number;
+    crc32: number;
+    method: number; // 0 (store) or 8 (deflate).
+    date: Date;
+    offset: number; // Position of the local header.
+}
+
+/**
+ * Options to add a file to a zip.
+ */
+export interface CoreZipAddOptions {
+    /**
+     * Whether to compress the file. Defaults to true. Files that don't get smaller are stored anyway.
+     */
+    compress?: boolean;
+
+    /**
+     * Modification date of the file. Defaults to now.
+     */
+    date?: Date;
+}
+
+/**
+ * Function to read a part of a zip file.
+ *
+ * @param offset Position where to start reading, in bytes.
+ * @param length Number of bytes to read.
+ * @return Promise resolved with the data read.
+ */
+export type CoreZipChunkReader = (offset: number, length: number) => Promise<ArrayBuffer>;
+
+/**
+ * Concatenate some parts of a zip.
+ *
+ * @param parts Parts.
+ * @return Concatenated data.
+ */
+function concatParts(parts: Uint8Array[]): ArrayBuffer {
+    const result = new Uint8Array(parts.reduce((size, part) => {
+        return size + part.length;
+    }, 0));
+    let position = 0;
+
+    parts.forEach((part) => {
+        result.set(part, position);
+        position += part.length;
+    });
+
+    return result.buffer;
+}
+
+/**
+ * Convert a date to the MS-DOS format used in zip files.
+ *
+ * @param date Date.
+ * @return Time and date.
+ */
+function toDosDateTime(date: Date): { time: number, date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+/**
+ * Convert a MS-DOS date and time to a Date.
+ *
+ * @param time Time.
+ * @param date Date.
+ * @return Date.
+ */
+function fromDosDateTime(time: number, date: number): Date {
+    return new Date((date >> 9) + 1980, ((date >> 5) & 0xF) - 1, date & 0x1F, time >> 11, (time >> 5) & 0x3F, (time & 0x1F) * 2);
+}
+
+/**
+ * Create zip files in memory. The files are compressed when added, so the original data can be released.
+ *
+ * const writer = new CoreZipWriter();
+ * writer.addFile('folder/file.txt', 'Contents');
+ * const zip = writer.generate();
+ *
+ * To write big zips without keeping them in memory, call flush after adding some entries and write the data it returns.
+ * Once all the entries are added, write the data returned by finish.
+ *
+ * Zip64 isn't supported, so the zip and each file must be smaller than 4 GB.
+ */
+export class CoreZipWriter {
+    protected chunks: Uint8Array[] = [];
+    protected centralHeaders: Uint8Array[] = [];
+    protected offset = 0;
+    protected names: { [name: string]: boolean } = {};
+
+    /**
+     * Add a file.
+     *
+     * @param name Path of the file inside the zip.
+     * @param data Contents of the file. Strings are encoded in UTF-8.
+     * @param options Options.
+     */
+    addFile(name: string, data: ArrayBuffer | Uint8Array | string, options: CoreZipAddOptions = {}): void {
+        const bytes = typeof data == 'string' ? new TextEncoder().encode(data) :
+            data instanceof Uint8Array ? data : new Uint8Array(data);
+        let compressed = bytes,
+            method = METHOD_STORE;
+
+        if (options.compress !== false && bytes.length) {
+            const deflated = new Uint8Array(CoreDeflate.deflateRaw(bytes));
+            if (deflated.length < bytes.length) {
+                compressed = deflated;
+                method = METHOD_DEFLATE;
+            }
+        }
+
+        this.addEntry(this.normalizeName(name), compressed, bytes.length, CoreDeflate.crc32(bytes), method, options.date, false);
+    }
+
+    /**
+     * Add an empty directory. It isn't needed for directories that contain files.
+     *
+     * @param name Path of the directory inside the zip.
+     * @param date Modification date. Defaults to now.
+     */
+    addDirectory(name: string, date?: Date): void {
+        name = this.normalizeName(name);
+        if (name.slice(-1) != '/') {
+            name += '/';
+        }
+
+        this.addEntry(name, new Uint8Array(0), 0, 0, METHOD_STORE, date, true);
+    }
+
+    /**
+     * Generate the zip file. It cannot be used if flush was called.
+     *
+     * @return Zip file data.
+     */
+    generate(): ArrayBuffer {
+        return concatParts([new Uint8Array(this.flush()), new Uint8Array(this.finish())]);
+    }
+
+    /**
+     * Get the data of the entries added since the last call and release it from memory.
+     *
+     * @return Data of the entries: local headers and contents.
+     */
+    flush(): ArrayBuffer {
+        const data = concatParts(this.chunks);
+        this.chunks = [];
+
+        return data;
+    }
+
+    /**
+     * Get the data that ends the zip file: the central directory with the list of entries. Call it after adding all the entries.
+     *
+     * @return Central directory and end of central directory record.
+     */
+    finish(): ArrayBuffer {
+        const centralSize = this.centralHeaders.reduce((size, header) => {
+            return size + header.length;
+        }, 0);
+        const end = new DataView(new ArrayBuffer(22));
+
+        end.setUint32(0, END_SIGNATURE, true);
+        end.setUint16(8, this.centralHeaders.length, true);
+        end.setUint16(10, this.centralHeaders.length, true);
+        end.setUint32(12, centralSize, true);
+        end.setUint32(16, this.offset, true);
+
+        return concatParts(this.centralHeaders.concat([new Uint8Array(end.buffer)]));
+    }
+
+    /**
+     * Add an entry to the zip.
+     *
+     * @param name Normalized name.
+     * @param data Data to store, already compressed if needed.
+     * @param size Uncompressed size.
+     * @param crc CRC-32 of the uncompressed data.
+     * @param method Compression method.
+     * @param date Modification date.
+     * @param isDirectory Whether it's a directory.
+     */
+    protected addEntry(name: string, data: Uint8Array, size: number, crc: number, method: number, date: Date,
+        isDirectory: boolean): void {
+
+        if (this.names[name]) {
+            throw new CoreError('Duplicated entry in zip: ' + name);
+        }
+        this.names[name] = true;
+
+        const nameBytes = new TextEncoder().encode(name),
+            dosDate = toDosDateTime(date || new Date());
+
+        // Local file header.
+        const local = new DataView(new ArrayBuffer(30 + nameBytes.length));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, VERSION, true);
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, dosDate.time, true);
+        local.setUint16(12, dosDate.date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, nameBytes.length, true);
+        new Uint8Array(local.buffer).set(nameBytes, 30);
+
+        // Central directory header.
+        const central = new DataView(new ArrayBuffer(46 + nameBytes.length));
+        central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        central.setUint16(4, VERSION, true);
+        central.setUint16(6, VERSION, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, method, true);
+        central.setUint16(12, dosDate.time, true);
+        central.setUint16(14, dosDate.date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, nameBytes.length, true);
+        central.setUint32(38, isDirectory ? 0x10 : 0, true); // MS-DOS directory attribute.
+        central.setUint32(42, this.offset, true);
+        new Uint8Array(central.buffer).set(nameBytes, 46);
+
+        this.chunks.push(new Uint8Array(local.buffer), data);
+        this.centralHeaders.push(new Uint8Array(central.buffer));
+        this.offset += local.byteLength + data.length;
+    }
+
+    /**
+     * Normalize the name of an entry: use forward slashes and remove the starting slashes.
+     *
+     * @param name Name.
+     * @return Normalized name.
+     */
+    protected normalizeName(name: string): string {
+        return name.replace(/\\/g, '/').replace(/^\/+/, '');
+    }
+}
+
+/**
+ * Read zip files. The zip can be loaded in memory, or read in chunks so only the entry being extracted is in memory.
+ *
+ * const reader = new CoreZipReader(data);
+ * reader.getEntries().forEach((entry) => {
+ *     const contents = reader.extract(entry);
+ * });
+ *
+ * const reader = await CoreZipReader.open(size, (offset, length) => readChunk(offset, length));
+ * for (const entry of reader.getEntries()) {
+ *     const contents = await reader.read(entry);
+ * }
+ */
+export class CoreZipReader {
+    protected bytes: Uint8Array; // Zip file data. Undefined if the zip is read in chunks.
+    protected readChunk: CoreZipChunkReader;
+    protected entries: CoreZipEntry[] = [];
+
+    /**
+     * Constructor.
+     *
+     * @param data Zip file data. Don't set it to read the zip in chunks, use CoreZipReader.open instead.
+     */
+    constructor(data?: ArrayBuffer) {
+        if (data) {
+            this.bytes = new Uint8Array(data);
+
+            const end = this.readEnd(this.bytes);
+            this.readCentralDirectory(this.bytes.subarray(end.offset, end.offset + end.size), end.count);
+        }
+    }
+
+    /**
+     * Open a zip to read it in chunks. Only the end of the file and the central directory are read.
+     *
+     * @param size Size of the zip file.
+     * @param readChunk Function to read a part of the zip file.
+     * @return Promise resolved with the reader.
+     */
+    static async open(size: number, readChunk: CoreZipChunkReader): Promise<CoreZipReader> {
+        const reader = new CoreZipReader();
+        // The end of central directory record is at the end, followed by a comment of up to 65535 bytes.
+        const tailOffset = Math.max(0, size - 22 - 65535);
+        const end = reader.readEnd(new Uint8Array(await readChunk(tailOffset, size - tailOffset)));
+        const central = new Uint8Array(await readChunk(end.offset, end.size));
+
+        if (central.length < end.size) {
+            throw new CoreFileCorruptError('Invalid zip file: wrong central directory.');
+        }
+
+        reader.readChunk = readChunk;
+        reader.readCentralDirectory(central, end.count);
+
+        return reader;
+    }
+
+    /**
+     * Get the entries of the zip, in the order they're stored.
+     *
+     * @return Entries.
+     */
+    getEntries(): CoreZipEntry[] {
+        return this.entries.slice();
+    }
+
+    /**
+     * Get an entry by name.
+     *
+     * @param name Name of the entry.
+     * @return Entry, undefined if not found.
+     */
+    getEntry(name: string): CoreZipEntry {
+        for (let i = 0; i < this.entries.length; i++) {
+            if (this.entries[i].name == name) {
+                return this.entries[i];
+            }
+        }
+    }
+
+    /**
+     * Extract the contents of a file from a zip loaded in memory. The CRC is checked.
+     *
+     * @param entry Entry or name of the entry.
+     * @return Contents.
+     */
+    extract(entry: CoreZipEntry | string): ArrayBuffer {
+        const zipEntry = this.findEntry(entry);
+        if (!this.bytes) {
+            throw new CoreError('The zip is read in chunks, use read to extract its entries.');
+        }
+
+        const start = this.getDataOffset(zipEntry, this.bytes.subarray(zipEntry.offset, zipEntry.offset + 30));
+
+        return this.decompress(zipEntry, this.bytes.subarray(start, start + zipEntry.compressedSize));
+    }
+
+    /**
+     * Extract the contents of a file, reading only the data of the entry if the zip is read in chunks. The CRC is checked.
+     *
+     * @param entry Entry or name of the entry.
+     * @return Promise resolved with the contents.
+     */
+    async read(entry: CoreZipEntry | string): Promise<ArrayBuffer> {
+        if (this.bytes) {
+            return this.extract(entry);
+        }
+
+        const zipEntry = this.findEntry(entry);
+        const start = this.getDataOffset(zipEntry, new Uint8Array(await this.readChunk(zipEntry.offset, 30)));
+        const compressed = new Uint8Array(await this.readChunk(start, zipEntry.compressedSize));
+
+        if (compressed.length < zipEntry.compressedSize) {
+            throw new CoreFileCorruptError('Invalid zip file: truncated data in ' + zipEntry.name);
+        }
+
+        return this.decompress(zipEntry, compressed);
+    }
+
+    /**
+     * Get an entry, throwing an error if not found.
+     *
+     * @param entry Entry or name of the entry.
+     * @return Entry.
+     */
+    protected findEntry(entry: CoreZipEntry | string): CoreZipEntry {
+        const zipEntry = typeof entry == 'string' ? this.getEntry(entry) : entry;
+        if (!zipEntry) {
+            throw new CoreError('Entry not found in zip: ' + entry);
+        }
+
+        return zipEntry;
+    }
+
+    /**
+     * Get the position where the data of an entry starts.
+     *
+     * @param entry Entry.
+     * @param header Local header of the entry, at least its first 30 bytes.
+     * @return Position of the data.
+     */
+    protected getDataOffset(entry: CoreZipEntry, header: Uint8Array): number {
+        const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+        if (header.length < 30 || view.getUint32(0, true) != LOCAL_HEADER_SIGNATURE) {
+            throw new CoreFileCorruptError('Invalid zip file: local header not found for ' + entry.name);
+        }
+
+        return entry.offset + 30 + view.getUint16(26, true) + view.getUint16(28, true);
+    }
+
+    /**
+     * Decompress the data of an entry and check its CRC.
+     *
+     * @param entry Entry.
+     * @param compressed Data stored in the zip.
+     * @return Contents.
+     */
+    protected decompress(entry: CoreZipEntry, compressed: Uint8Array): ArrayBuffer {
+        let data: ArrayBuffer;
+
+        if (entry.method == METHOD_STORE) {
+            data = compressed.slice().buffer;
+        } else if (entry.method == METHOD_DEFLATE) {
+            try {
+                data = CoreDeflate.inflateRaw(compressed, entry.size);
+            } catch (error) {
+                throw new CoreFileCorruptError('Invalid zip file: cannot decompress ' + entry.name, undefined, undefined, error);
+            }
+        } else {
+            throw new CoreError('Unsupported compression method in zip: ' + entry.method);
+        }
+
+        if (CoreDeflate.crc32(new Uint8Array(data)) != entry.crc32) {
+            throw new CoreFileCorruptError('Invalid zip file: wrong checksum in ' + entry.name);
+        }
+
+        return data;
+    }
+
+    /**
+     * Read the end of central directory record.
+     *
+     * @param bytes Last bytes of the zip file, including the record and the comment.
+     * @return Number of entries, and position and size of the central directory.
+     */
+    protected readEnd(bytes: Uint8Array): { count: number, offset: number, size: number } {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let endOffset = -1;
+
+        // The end of central directory record is at the end, followed by a comment of up to 65535 bytes.
+        for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 65535); i--) {
+            if (view.getUint32(i, true) == END_SIGNATURE) {
+                endOffset = i;
+                break;
+            }
+        }
+
+        if (endOffset == -1) {
+            throw new CoreFileCorruptError('Invalid zip file: end of central directory not found.');
+        }
+
+        const count = view.getUint16(endOffset + 10, true),
+            size = view.getUint32(endOffset + 12, true),
+            offset = view.getUint32(endOffset + 16, true);
+
+        if (count == 0xFFFF || offset == 0xFFFFFFFF) {
+            throw new CoreError('Zip64 files aren\'t supported.');
+        }
+
+        return { count: count, offset: offset, size: size };
+    }
+
+    /**
+     * Read the central directory to get the entries.
+     *
+     * @param bytes Data of the central directory.
+     * @param count Number of entries.
+     */
+    protected readCentralDirectory(bytes: Uint8Array, count: number): void {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let offset = 0;
+
+        for (let i = 0; i < count; i++) {
+            if (offset + 46 > bytes.length || view.getUint32(offset, true) != CENTRAL_HEADER_SIGNATURE) {
+                throw new CoreFileCorruptError('Invalid zip file: wrong central directory.');
+            }
+
+            const flags = view.getUint16(offset + 8, true),
+                nameLength = view.getUint16(offset + 28, true),
+                extraLength = view.getUint16(offset + 30, true),
+                commentLength = view.getUint16(offset + 32, true),
+                name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+            if (flags & 1) {
+                throw new CoreError('Encrypted zip files aren\'t supported.');
+            }
+
+            this.entries.push({
+                name: name,
+                isDirectory: name.slice(-1) == '/',
+                method: view.getUint16(offset + 10, true),
+                date: fromDosDateTime(view.getUint16(offset + 12, true), view.getUint16(offset + 14, true)),
+                crc32: view.getUint32(offset + 16, true),
+                compressedSize: view.getUint32(offset + 20, true),
+                size: view.getUint32(offset + 24, true),
+                offset: view.getUint32(offset + 42, true)
+            });
+
+            offset += 46 + nameLength + extraLength + commentLength;
+        }
+    }
+}
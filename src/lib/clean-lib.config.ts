@@ -0,0 +1,9 @@
+import { InjectionToken } from '@angular/core';
+import { CoreLoggerConfig } from '../providers/logger';
+
+export interface LibConfig {
+  apiUrl: string;
+  appVersion?: string;
+  logger?: CoreLoggerConfig;
+}
+export const LibConfigService = new InjectionToken<LibConfig>('LibConfig');
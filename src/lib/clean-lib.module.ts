@@ -1,10 +1,12 @@
 
-import { NgModule, ModuleWithProviders, InjectionToken } from '@angular/core';
+import { NgModule, ModuleWithProviders } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { IonicModule } from 'ionic-angular';
 import { Config } from 'ionic-angular';
 
 import { HttpClientModule } from '@angular/common/http';
+import { File } from '@ionic-native/file';
+import { Zip } from '@ionic-native/zip';
 
 import { CleanLibComponent } from './clean-lib.component';
 import { CleanLibService } from './clean-lib.service';
@@ -18,15 +20,15 @@ import { CoreLoggerProvider } from '../providers/logger';
 import { CoreDomUtilsProvider } from './../providers/utils/dom';
 import { CoreMimetypeUtilsProvider } from './../providers/utils/mimetype';
 import { CoreEventsProvider } from '../providers/events';
+import { CoreFileProvider } from '../providers/file';
+import { CoreBugReportProvider } from '../providers/bug-report';
+import { CoreStorageManagerProvider } from '../providers/storage-manager';
 import { CoreTextUtilsProvider } from '../providers/utils/text';
 import { CoreTimeUtilsProvider } from './../providers/utils/time';
 import { CoreUtilsProvider } from './../providers/utils/utils';
+import { LibConfig, LibConfigService } from './clean-lib.config';
 
-
-export interface LibConfig {
-  apiUrl: string;
-}
-export const LibConfigService = new InjectionToken<LibConfig>('LibConfig');
+export { LibConfig, LibConfigService } from './clean-lib.config';
 
 
 @NgModule({
@@ -57,18 +59,27 @@ export const LibConfigService = new InjectionToken<LibConfig>('LibConfig');
     CoreTextUtilsProvider,
     CoreDomUtilsProvider,
     CoreAppProvider,
+    CoreBugReportProvider,
     CoreEventsProvider,
+    CoreFileProvider,
     CoreLoggerProvider,
     CoreMimetypeUtilsProvider,
+    CoreStorageManagerProvider,
     CoreTimeUtilsProvider,
-    CoreUtilsProvider
+    CoreUtilsProvider,
+    File,
+    Zip
   ],
 })
 export class CleanLibModule {
-  constructor(private configPage: Config) {
+  constructor(private configPage: Config, loggerProvider: CoreLoggerProvider) {
     // Set transition animation.
     this.configPage.setTransition('core-page-transition', CorePageTransition);
     this.configPage.setTransition('core-modal-lateral-transition', CoreModalLateralTransition);
+
+    // Time the transitions.
+    CorePageTransition.logger = loggerProvider.getInstance('CorePageTransition');
+    CoreModalLateralTransition.logger = loggerProvider.getInstance('CoreModalLateralTransition');
   }
   static forRoot(config: LibConfig): ModuleWithProviders {
     return {
@@ -0,0 +1,93 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreBugReportProvider, CoreBugReport } from './bug-report';
+import { CoreEventsProvider } from './events';
+import { CoreFileProvider } from './file';
+import { CoreLoggerProvider } from './logger';
+import { CoreZipReader } from '../classess/zip';
+import { createTestFileProvider } from '../test-utils';
+
+describe('CoreBugReportProvider', () => {
+    let fileProvider: CoreFileProvider;
+    let events: CoreEventsProvider;
+    let logger: CoreLoggerProvider;
+    let utils: any;
+    let bugReport: CoreBugReportProvider;
+
+    beforeEach(() => {
+        const testProviders = createTestFileProvider();
+        const app = <any> {
+            isAndroid: (): boolean => true,
+            isIOS: (): boolean => false,
+            isDesktop: (): boolean => false,
+            is64Bits: (): boolean => true,
+            isWide: (): boolean => false
+        };
+        const platform = <any> {
+            platforms: (): string[] => ['android', 'cordova']
+        };
+
+        fileProvider = testProviders.fileProvider;
+        events = testProviders.events;
+        logger = testProviders.logger;
+        utils = { copyToClipboard: jasmine.createSpy('copyToClipboard').and.returnValue(Promise.resolve()) };
+        bugReport = new CoreBugReportProvider(logger, events, app, fileProvider, utils, platform, { apiUrl: '', appVersion: '3.9.5' });
+    });
+
+    it('includes the logs, the events and the device info, redacted', async () => {
+        events.startRecording();
+        logger.getInstance('Spec').warn('Login failed for john@example.com', { password: 'hunter2' });
+        events.trigger(CoreEventsProvider.LANGUAGE_CHANGED, 'es');
+        await fileProvider.writeFile('data.txt', 'Hello');
+
+        const report = await bugReport.getReport({ description: 'It fails' });
+
+        expect(report.app.version).toEqual('3.9.5');
+        expect(report.app.platforms).toEqual(['android', 'cordova']);
+        expect(report.device).toEqual({ isAndroid: true, isIOS: false, isDesktop: false, is64Bits: true, isWide: false });
+        expect(report.storage.used).toEqual(5);
+        expect(report.events.map((record) => record.name)).toContain(CoreEventsProvider.LANGUAGE_CHANGED);
+        expect(report.extra).toEqual({ description: 'It fails' });
+
+        const entry = report.logs.filter((log) => log.className == 'Spec')[0];
+        expect(entry.message).toEqual('Login failed for ' + CoreLoggerProvider.REDACTED);
+        expect(entry.args).toEqual([{ password: CoreLoggerProvider.REDACTED }]);
+    });
+
+    it('writes the report in a JSON or zip file in the temporary folder', async () => {
+        const jsonEntry = await bugReport.createReportFile({ extra: 'JSON' });
+        const zipEntry = await bugReport.createReportFile({ format: 'zip', extra: 'Zip' });
+        const jsonPath = CoreBugReportProvider.FOLDER + '/' + jsonEntry.name,
+            zipPath = CoreBugReportProvider.FOLDER + '/' + zipEntry.name;
+
+        expect(jsonEntry.name).toMatch(/^bugreport-.*\.json$/);
+        expect(JSON.parse(await fileProvider.readFile(jsonPath)).extra).toEqual('JSON');
+
+        const reader = new CoreZipReader(await fileProvider.readFile(zipPath, CoreFileProvider.FORMATARRAYBUFFER));
+        const report: CoreBugReport = JSON.parse(new TextDecoder().decode(new Uint8Array(reader.extract('report.json'))));
+        expect(report.extra).toEqual('Zip');
+
+        await bugReport.clearReportFiles();
+        expect(await fileProvider.getDirectoryContents(CoreBugReportProvider.FOLDER).catch(() => [])).toEqual([]);
+    });
+
+    it('copies the report to the clipboard if it cannot be shared', async () => {
+        await bugReport.shareReport({ extra: 'Shared' });
+
+        expect(utils.copyToClipboard).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(utils.copyToClipboard.calls.mostRecent().args[0]).extra).toEqual('Shared');
+    });
+});
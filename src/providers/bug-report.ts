@@ -0,0 +1,283 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Injectable, Inject, Optional } from '@angular/core';
+import { Platform } from 'ionic-angular';
+import { FileEntry } from '@ionic-native/file';
+import { CoreAppProvider } from './app';
+import { CoreEventsProvider } from './events';
+import { CoreFileProvider } from './file';
+import { CoreLoggerProvider } from './logger';
+import { CoreUtilsProvider } from './utils/utils';
+import { CoreEventRecord } from '../classess/events-recorder';
+import { CoreLogMemoryTransport, serializeLogEntry } from '../classess/log-transports';
+import { CoreZipWriter } from '../classess/zip';
+import { LibConfig, LibConfigService } from '../lib/clean-lib.config';
+
+/**
+ * Data included in a bug report.
+ */
+export interface CoreBugReport {
+    /**
+     * Version of the report format.
+     */
+    version: number;
+
+    /**
+     * When the report was created, in ISO format.
+     */
+    time: string;
+
+    /**
+     * Info about the app.
+     */
+    app: {
+        version?: string;
+        platforms: string[];
+        userAgent: string;
+    };
+
+    /**
+     * Info about the device.
+     */
+    device: {
+        isAndroid: boolean;
+        isIOS: boolean;
+        isDesktop: boolean;
+        is64Bits: boolean;
+        isWide: boolean;
+    };
+
+    /**
+     * Storage usage in bytes. Undefined if it cannot be calculated.
+     */
+    storage: {
+        used?: number;
+        free?: number;
+    };
+
+    /**
+     * Last log entries, serialized.
+     */
+    logs: any[];
+
+    /**
+     * Events recorded by CoreEventsProvider. Empty if the events aren't being recorded.
+     */
+    events: CoreEventRecord[];
+
+    /**
+     * Additional data added by the app.
+     */
+    extra?: any;
+}
+
+/**
+ * Options to create a bug report.
+ */
+export interface CoreBugReportOptions {
+    /**
+     * Format of the file: 'json' or 'zip'. Defaults to 'json'.
+     */
+    format?: string;
+
+    /**
+     * Additional data to include in the report, e.g. the description written by the user.
+     */
+    extra?: any;
+}
+
+/**
+ * Service to create a bug report with the logs, the event history and the device info, and share it.
+ * All the data is redacted using the redaction rules of the logger.
+ *
+ * The logs are taken from the CoreLogMemoryTransport of the logger. If there isn't any, one is added when this service is
+ * created, so add it yourself to include the logs since the app started.
+ */
+@Injectable()
+export class CoreBugReportProvider {
+    static VERSION = 1;
+    static FOLDER = CoreFileProvider.TMPFOLDER + '/bugreports';
+
+    protected logger;
+    protected memoryTransport: CoreLogMemoryTransport;
+
+    constructor(protected loggerProvider: CoreLoggerProvider,
+        protected eventsProvider: CoreEventsProvider,
+        protected appProvider: CoreAppProvider,
+        protected fileProvider: CoreFileProvider,
+        protected utils: CoreUtilsProvider,
+        protected platform: Platform,
+        @Optional() @Inject(LibConfigService) protected libConfig?: LibConfig
+    ) {
+        this.logger = loggerProvider.getInstance('CoreBugReportProvider');
+
+        this.memoryTransport = <CoreLogMemoryTransport> loggerProvider.getTransports().find((transport) => {
+            return transport instanceof CoreLogMemoryTransport;
+        });
+
+        if (!this.memoryTransport) {
+            this.memoryTransport = new CoreLogMemoryTransport();
+            loggerProvider.addTransport(this.memoryTransport);
+        }
+    }
+
+    /**
+     * Collect the data of a bug report.
+     *
+     * @param extra Additional data to include in the report.
+     * @return Promise resolved with the report, already redacted.
+     */
+    async getReport(extra?: any): Promise<CoreBugReport> {
+        const recorder = this.eventsProvider.getRecorder();
+
+        const report: CoreBugReport = {
+            version: CoreBugReportProvider.VERSION,
+            time: new Date().toISOString(),
+            app: {
+                version: this.libConfig && this.libConfig.appVersion,
+                platforms: this.platform.platforms(),
+                userAgent: navigator.userAgent
+            },
+            device: {
+                isAndroid: this.appProvider.isAndroid(),
+                isIOS: this.appProvider.isIOS(),
+                isDesktop: this.appProvider.isDesktop(),
+                is64Bits: this.appProvider.is64Bits(),
+                isWide: this.appProvider.isWide()
+            },
+            storage: await this.getStorageUsage(),
+            logs: this.memoryTransport.getEntries().map(serializeLogEntry),
+            events: recorder ? recorder.getRecords() : [],
+            extra: extra
+        };
+
+        return this.loggerProvider.redact(report);
+    }
+
+    /**
+     * Create a bug report file in the temporary folder.
+     *
+     * @param options Options.
+     * @return Promise resolved with the file entry.
+     */
+    async createReportFile(options: CoreBugReportOptions = {}): Promise<FileEntry> {
+        const report = await this.getReport(options.extra);
+
+        return this.writeReportFile(report, options.format || 'json');
+    }
+
+    /**
+     * Create a bug report and share it using the Web Share API. If files cannot be shared, the report is copied
+     * to the clipboard.
+     *
+     * @param options Options.
+     * @return Promise resolved when the report has been shared or copied.
+     */
+    async shareReport(options: CoreBugReportOptions = {}): Promise<void> {
+        const report = await this.getReport(options.extra);
+        const fileEntry = await this.writeReportFile(report, options.format || 'json');
+        const file = await this.fileProvider.getFileObjectFromFileEntry(fileEntry);
+        const shareFile = new File([file], fileEntry.name, { type: file.type || 'application/json' });
+        const nav = <any> navigator;
+
+        if (nav.share && nav.canShare && nav.canShare({ files: [shareFile] })) {
+            try {
+                await nav.share({ files: [shareFile], title: fileEntry.name });
+
+                return;
+            } catch (error) {
+                if (error && error.name == 'AbortError') {
+                    // User cancelled.
+                    return;
+                }
+
+                this.logger.warn('Error sharing the bug report, copying it to the clipboard.', error);
+            }
+        }
+
+        await this.utils.copyToClipboard(JSON.stringify(report, null, 2));
+    }
+
+    /**
+     * Remove all the bug report files created.
+     *
+     * @return Promise resolved when done.
+     */
+    clearReportFiles(): Promise<any> {
+        return this.fileProvider.removeDir(CoreBugReportProvider.FOLDER).catch(() => {
+            // Ignore errors, maybe it doesn't exist.
+        });
+    }
+
+    /**
+     * Write a bug report in a new file in the temporary folder.
+     *
+     * @param report Report to write.
+     * @param format Format of the file.
+     * @return Promise resolved with the file entry.
+     */
+    protected writeReportFile(report: CoreBugReport, format: string): Promise<FileEntry> {
+        if (format != 'json' && format != 'zip') {
+            return Promise.reject(new Error('Bug report format not supported: ' + format));
+        }
+
+        const path = CoreBugReportProvider.FOLDER + '/' + this.getFileName(format);
+        let data: string | ArrayBuffer = JSON.stringify(report, null, 2);
+
+        this.logger.debug('Create bug report file: ' + path);
+
+        if (format == 'zip') {
+            const writer = new CoreZipWriter();
+            writer.addFile('report.json', data);
+            data = writer.generate();
+        }
+
+        return this.fileProvider.writeFile(path, data);
+    }
+
+    /**
+     * Get the name of a new report file.
+     *
+     * @param extension Extension of the file.
+     * @return File name.
+     */
+    protected getFileName(extension: string): string {
+        return 'bugreport-' + new Date().toISOString().replace(/[:.]/g, '-') + '.' + extension;
+    }
+
+    /**
+     * Calculate the storage used by the app and the free space in the disk.
+     *
+     * @return Promise resolved with the storage usage. It's never rejected.
+     */
+    protected async getStorageUsage(): Promise<{ used?: number, free?: number }> {
+        const usage: { used?: number, free?: number } = {};
+
+        try {
+            await this.fileProvider.init();
+            usage.used = await this.fileProvider.getDirectorySize('');
+        } catch (error) {
+            this.logger.warn('Cannot calculate the storage used.', error);
+        }
+
+        try {
+            usage.free = await this.fileProvider.calculateFreeSpace();
+        } catch (error) {
+            // Not supported in some platforms.
+        }
+
+        return usage;
+    }
+}
@@ -0,0 +1,358 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreEventsProvider, CoreEventNotification, CoreEventStoredEvent } from './events';
+import { CoreLoggerProvider } from './logger';
+
+describe('CoreEventsProvider', () => {
+    let events: CoreEventsProvider;
+
+    beforeEach(() => {
+        const logger = new CoreLoggerProvider();
+        logger.getTransports().forEach((transport) => {
+            logger.removeTransport(transport);
+        });
+
+        events = new CoreEventsProvider(logger);
+    });
+
+    /**
+     * Wait some time.
+     *
+     * @param ms Milliseconds to wait.
+     * @return Promise resolved after the time.
+     */
+    function wait(ms: number): Promise<void> {
+        return new Promise<void>((resolve): void => {
+            setTimeout(resolve, ms);
+        });
+    }
+
+    describe('observe', () => {
+
+        it('passes the data of the event to the observers of an event name', () => {
+            const received = [];
+            const subscription = events.observe(CoreEventsProvider.LANGUAGE_CHANGED).subscribe((lang) => {
+                received.push(lang);
+            });
+
+            events.trigger(CoreEventsProvider.LANGUAGE_CHANGED, 'es');
+            subscription.unsubscribe();
+            events.trigger(CoreEventsProvider.LANGUAGE_CHANGED, 'fr');
+
+            expect(received).toEqual(['es']);
+        });
+
+        it('notifies the events matching a wildcard pattern with their name', () => {
+            const received: CoreEventNotification[] = [];
+            const subscription = events.observe('site_*').subscribe((notification) => {
+                received.push(notification);
+            });
+
+            events.trigger(CoreEventsProvider.SITE_ADDED, { name: 'added' });
+            events.trigger(CoreEventsProvider.LOGIN, {});
+            events.trigger(CoreEventsProvider.SITE_DELETED, { name: 'deleted' }, 'site1');
+            subscription.unsubscribe();
+            events.trigger(CoreEventsProvider.SITE_UPDATED, { name: 'updated' });
+
+            expect(received).toEqual([
+                { name: CoreEventsProvider.SITE_ADDED, data: { name: 'added' } },
+                { name: CoreEventsProvider.SITE_DELETED, data: { name: 'deleted', siteId: 'site1' } },
+            ]);
+        });
+
+        it('filters the events of a pattern by site and escapes the pattern', () => {
+            const received = [];
+            events.observe('*_status_changed', 'site1').subscribe((notification) => {
+                received.push(notification.name);
+            });
+            events.observe('site.*').subscribe((notification) => {
+                received.push('Dot pattern: ' + notification.name);
+            });
+
+            events.trigger(CoreEventsProvider.COURSE_STATUS_CHANGED, { courseId: 1, status: 'downloaded' }, 'site1');
+            events.trigger(CoreEventsProvider.SECTION_STATUS_CHANGED, { courseId: 1 }, 'site2');
+            events.trigger(CoreEventsProvider.SITE_ADDED, {});
+
+            expect(received).toEqual([CoreEventsProvider.COURSE_STATUS_CHANGED]);
+        });
+
+        it('passes the unique events already triggered to the new pattern observers', () => {
+            const received = [];
+
+            events.triggerUnique(CoreEventsProvider.SITE_PLUGINS_LOADED, {}, 'site1');
+            events.observe('site_plugins_*').subscribe((notification) => {
+                received.push(notification);
+            });
+
+            expect(received).toEqual([{ name: CoreEventsProvider.SITE_PLUGINS_LOADED, data: { siteId: 'site1' } }]);
+        });
+    });
+
+    describe('listener errors', () => {
+
+        it('notifies the rest of listeners when a listener fails', () => {
+            const received = [],
+                errors = [],
+                error = new Error('Listener failed');
+
+            events.on(CoreEventsProvider.LISTENER_ERROR, (data) => {
+                errors.push(data);
+            });
+            events.on(CoreEventsProvider.LOGIN, () => {
+                throw error;
+            });
+            events.on(CoreEventsProvider.LOGIN, (data) => {
+                received.push(data);
+            });
+
+            events.trigger(CoreEventsProvider.LOGIN, {}, 'site1');
+
+            expect(received).toEqual([{ siteId: 'site1' }]);
+            expect(errors).toEqual([{
+                eventName: CoreEventsProvider.LOGIN,
+                data: { siteId: 'site1' },
+                error: error,
+                stack: error.stack,
+                siteId: 'site1',
+            }]);
+        });
+
+        it('reports the rejections of asynchronous listeners', async () => {
+            const errors = [];
+
+            events.on(CoreEventsProvider.LISTENER_ERROR, (data) => {
+                errors.push(data.eventName + ': ' + data.error);
+            });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                return Promise.reject('Rejected');
+            });
+
+            events.trigger(CoreEventsProvider.LOGOUT);
+            await wait(0);
+
+            expect(errors).toEqual([CoreEventsProvider.LOGOUT + ': Rejected']);
+        });
+
+        it('does not publish the errors of the LISTENER_ERROR listeners', () => {
+            const listener = jasmine.createSpy('listener').and.throwError('Error listener failed');
+
+            events.on(CoreEventsProvider.LISTENER_ERROR, listener);
+            events.on(CoreEventsProvider.LOGIN, () => {
+                throw new Error('Listener failed');
+            });
+
+            events.trigger(CoreEventsProvider.LOGIN);
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('triggerAndCollect', () => {
+
+        it('collects the values of all the listeners in order', async () => {
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return wait(10).then(() => 'slow');
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                throw new Error('Listener failed');
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return 'fast';
+            });
+
+            const values: string[] = await events.triggerAndCollect<'form_action', string>(CoreEventsProvider.FORM_ACTION);
+
+            expect(values).toEqual(['slow', 'fast']);
+        });
+
+        it('resolves with the first value that is not empty', async () => {
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return wait(20).then(() => 'slow');
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return null;
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return wait(5).then(() => 'fast');
+            });
+
+            const value: string = await events.triggerAndCollect<'form_action', string>(CoreEventsProvider.FORM_ACTION, undefined,
+                undefined, { strategy: 'first' });
+
+            expect(value).toEqual('fast');
+            expect(await events.triggerAndCollect(CoreEventsProvider.LOGIN, undefined, undefined, { strategy: 'first' }))
+                .toBeUndefined();
+        });
+
+        it('resolves with false if any listener vetoes', async () => {
+            let vetoed: boolean = await events.triggerAndCollect(CoreEventsProvider.FORM_ACTION, undefined, undefined,
+                { strategy: 'veto' });
+            expect(vetoed).toBe(true);
+
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return true;
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return new Promise(() => {
+                    // Never finishes.
+                });
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return Promise.resolve(false);
+            });
+
+            vetoed = await events.triggerAndCollect(CoreEventsProvider.FORM_ACTION, undefined, undefined, { strategy: 'veto' });
+            expect(vetoed).toBe(false);
+        });
+
+        it('ignores the listeners that do not finish before the timeout', async () => {
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return 'fast';
+            });
+            events.on(CoreEventsProvider.FORM_ACTION, () => {
+                return wait(100).then(() => false);
+            });
+
+            expect(await events.triggerAndCollect(CoreEventsProvider.FORM_ACTION, undefined, undefined, { timeout: 10 }))
+                .toEqual(['fast']);
+            expect(await events.triggerAndCollect(CoreEventsProvider.FORM_ACTION, undefined, undefined,
+                { strategy: 'veto', timeout: 10 })).toBe(true);
+        });
+    });
+
+    describe('persistence', () => {
+
+        it('stores the unique events triggered while loading after the loaded ones', async () => {
+            const saved: CoreEventStoredEvent[][] = [];
+            let finishLoad: (events: CoreEventStoredEvent[]) => void;
+            const store = {
+                load: (): Promise<CoreEventStoredEvent[]> => {
+                    return new Promise((resolve): void => {
+                        finishLoad = resolve;
+                    });
+                },
+                save: (events: CoreEventStoredEvent[]): Promise<void> => {
+                    saved.push(events);
+
+                    return Promise.resolve();
+                },
+            };
+
+            const promise = events.enablePersistence(store, [CoreEventsProvider.LOGIN, CoreEventsProvider.SITE_PLUGINS_LOADED]);
+            events.triggerUnique(CoreEventsProvider.LOGIN, {}, 'site1');
+            await wait(0);
+            expect(saved).toEqual([]);
+
+            finishLoad([{ name: CoreEventsProvider.SITE_PLUGINS_LOADED, data: { siteId: 'site1' }, timestamp: 1 }]);
+            await promise;
+            await wait(0);
+
+            expect(saved.length).toEqual(1);
+            expect(saved[0].map((event) => event.name)).toEqual([CoreEventsProvider.LOGIN, CoreEventsProvider.SITE_PLUGINS_LOADED]);
+        });
+    });
+
+    describe('delivery policies', () => {
+
+        it('debounces the events', async () => {
+            const received = [];
+            events.on(CoreEventsProvider.KEYBOARD_CHANGE, (height) => {
+                received.push(height);
+            }, undefined, { debounce: 20 });
+
+            events.trigger(CoreEventsProvider.KEYBOARD_CHANGE, 100);
+            await wait(5);
+            events.trigger(CoreEventsProvider.KEYBOARD_CHANGE, 200);
+            await wait(5);
+            expect(received).toEqual([]);
+
+            await wait(30);
+            expect(received).toEqual([200]);
+        });
+
+        it('throttles the events delivering the latest data at the end of the period', async () => {
+            const received = [];
+            events.setDeliveryPolicy(CoreEventsProvider.KEYBOARD_CHANGE, { throttle: 30 });
+            events.on(CoreEventsProvider.KEYBOARD_CHANGE, (height) => {
+                received.push(height);
+            });
+
+            events.trigger(CoreEventsProvider.KEYBOARD_CHANGE, 100);
+            events.trigger(CoreEventsProvider.KEYBOARD_CHANGE, 200);
+            events.trigger(CoreEventsProvider.KEYBOARD_CHANGE, 300);
+            expect(received).toEqual([100]);
+
+            await wait(50);
+            expect(received).toEqual([100, 300]);
+        });
+
+        it('coalesces the events of each site', async () => {
+            const received = [];
+            events.on(CoreEventsProvider.WS_CACHE_INVALIDATED, (data) => {
+                received.push(data);
+            }, undefined, { coalesce: 0 });
+
+            events.trigger(CoreEventsProvider.WS_CACHE_INVALIDATED, { siteId: 'site1' });
+            events.trigger(CoreEventsProvider.WS_CACHE_INVALIDATED, { siteId: 'site2' });
+            events.trigger(CoreEventsProvider.WS_CACHE_INVALIDATED, { siteId: 'site1' });
+            expect(received).toEqual([]);
+
+            await wait(5);
+            expect(received).toEqual([{ siteId: 'site1' }, { siteId: 'site2' }]);
+        });
+
+        it('notifies the listeners by priority', () => {
+            const received = [];
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('default');
+            });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('low');
+            }, undefined, { priority: -1 });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('high');
+            }, undefined, { priority: 10 });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('default 2');
+            });
+
+            events.trigger(CoreEventsProvider.LOGOUT);
+
+            expect(received).toEqual(['high', 'default', 'default 2', 'low']);
+        });
+
+        it('uses the priority of the event for the listeners without priority', () => {
+            const received = [];
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('low');
+            }, undefined, { priority: 1 });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('event');
+            });
+            events.setDeliveryPolicy(CoreEventsProvider.LOGOUT, { priority: 5 });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('event 2');
+            }, undefined, { debounce: 0 });
+            events.on(CoreEventsProvider.LOGOUT, () => {
+                received.push('high');
+            }, undefined, { priority: 10 });
+
+            events.trigger(CoreEventsProvider.LOGOUT);
+
+            expect(received).toEqual(['high', 'event', 'event 2', 'low']);
+        });
+    });
+});
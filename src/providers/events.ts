@@ -13,8 +13,12 @@
 // limitations under the License.
 
 import { Injectable } from '@angular/core';
-import { Subject } from 'rxjs';
+import { InAppBrowserEvent } from '@ionic-native/in-app-browser';
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
 import { CoreLoggerProvider } from './logger';
+import { CoreEventsBridge, CoreEventsBridgeOptions } from '../classess/events-bridge';
+import { CoreEventsRecorder } from '../classess/events-recorder';
 
 /**
  * Observer instance to stop listening to an event.
@@ -26,52 +30,404 @@ export interface CoreEventObserver {
     off: () => void;
 }
 
+/**
+ * Data passed to the events that can be bound to a site.
+ */
+export interface CoreEventSiteData {
+    siteId?: string;
+}
+
+/**
+ * Data passed to the events that carry the info of a site (SITE_ADDED, SITE_UPDATED, SITE_DELETED, ...).
+ */
+export interface CoreEventSiteInfoData extends CoreEventSiteData {
+    [name: string]: any;
+}
+
+/**
+ * Data passed to SESSION_EXPIRED event.
+ */
+export interface CoreEventSessionExpiredData extends CoreEventSiteData {
+    pageName?: string;
+    params?: any;
+}
+
+/**
+ * Data passed to USER_DELETED event.
+ */
+export interface CoreEventUserDeletedData extends CoreEventSiteData {
+    params: any;
+}
+
+/**
+ * Data passed to COMPLETION_MODULE_VIEWED event.
+ */
+export interface CoreEventCompletionModuleViewedData extends CoreEventSiteData {
+    courseId: number;
+}
+
+/**
+ * Data passed to PACKAGE_STATUS_CHANGED event.
+ */
+export interface CoreEventPackageStatusChangedData extends CoreEventSiteData {
+    component: string;
+    componentId: string | number;
+    status: string;
+}
+
+/**
+ * Data passed to COURSE_STATUS_CHANGED event.
+ */
+export interface CoreEventCourseStatusChangedData extends CoreEventSiteData {
+    courseId: number;
+    status: string;
+}
+
+/**
+ * Data passed to SECTION_STATUS_CHANGED event.
+ */
+export interface CoreEventSectionStatusChangedData extends CoreEventSiteData {
+    courseId: number;
+    sectionId?: number;
+}
+
+/**
+ * Data passed to COMPONENT_FILE_ACTION event.
+ */
+export interface CoreEventComponentFileActionData extends CoreEventSiteData {
+    component: string;
+    componentId?: string | number;
+    fileUrl: string;
+    action: string;
+}
+
+/**
+ * Data passed to LOGIN_SITE_CHECKED and LOGIN_SITE_UNCHECKED events.
+ */
+export interface CoreEventLoginSiteCheckedData extends CoreEventSiteData {
+    config: any;
+    loginSuccessful?: boolean;
+}
+
+/**
+ * Data passed to FILE_SHARED event.
+ */
+export interface CoreEventFileSharedData extends CoreEventSiteData {
+    name: string;
+}
+
+/**
+ * Data passed to CORE_LOADING_CHANGED event.
+ */
+export interface CoreEventLoadingChangedData extends CoreEventSiteData {
+    loaded: boolean;
+    uniqueId: string;
+}
+
+/**
+ * Data passed to LOAD_PAGE_MAIN_MENU event.
+ */
+export interface CoreEventLoadPageMainMenuData extends CoreEventSiteData {
+    redirectPage: string;
+    redirectParams?: any;
+}
+
+/**
+ * Data passed to SEND_ON_ENTER_CHANGED event.
+ */
+export interface CoreEventSendOnEnterChangedData extends CoreEventSiteData {
+    sendOnEnter: boolean;
+}
+
+/**
+ * Data passed to SELECT_COURSE_TAB event.
+ */
+export interface CoreEventSelectCourseTabData extends CoreEventSiteData {
+    name?: string;
+    sectionId?: number;
+}
+
+/**
+ * Data passed to FORM_ACTION event.
+ */
+export interface CoreEventFormActionData extends CoreEventSiteData {
+    action: 'cancel' | 'submit';
+    form: HTMLElement;
+    online?: boolean;
+}
+
+/**
+ * Data passed to ACTIVITY_DATA_SENT event.
+ */
+export interface CoreEventActivityDataSentData extends CoreEventSiteData {
+    module: string;
+}
+
+/**
+ * Data passed to LISTENER_ERROR event.
+ */
+export interface CoreEventListenerErrorData extends CoreEventSiteData {
+    eventName: string; // Name of the event whose listener failed.
+    data: any; // Data that was passed to the listener.
+    error: any; // Error thrown or rejected by the listener.
+    stack?: string; // Stack trace of the error, if available.
+}
+
+/**
+ * Data passed to STORAGE_QUOTA_THRESHOLD event.
+ */
+export interface CoreEventStorageQuotaThresholdData extends CoreEventSiteData {
+    component?: string; // Component whose quota crossed the threshold. Undefined for the quota of the whole site.
+    usage: number; // Bytes used.
+    quota: number; // Quota in bytes.
+    threshold: number; // Threshold crossed, as a fraction of the quota (e.g. 0.9).
+    direction: 'up' | 'down'; // Whether the usage went above or below the threshold.
+}
+
+/**
+ * Data passed to FILE_CHANGED event.
+ */
+export interface CoreEventFileChangedData extends CoreEventSiteData {
+    action: 'created' | 'modified' | 'removed' | 'moved';
+    path: string; // Path relative to the base path. For moved entries, the new path.
+    oldPath?: string; // Previous path of moved entries.
+    isDirectory: boolean;
+}
+
+/**
+ * Map of event names and the type of the data passed to their observers.
+ *
+ * Apps can add their own events using declaration merging, e.g.:
+ * declare module 'ionic3-clean-npm-package-builder/dist/es2015/providers/events' {
+ *     interface CoreEventsMap {
+ *         my_event: { itemId: number };
+ *     }
+ * }
+ */
+export interface CoreEventsMap {
+    session_expired: CoreEventSessionExpiredData; // SESSION_EXPIRED.
+    password_change_forced: CoreEventSiteData; // PASSWORD_CHANGE_FORCED.
+    user_not_fully_setup: CoreEventSiteData; // USER_NOT_FULLY_SETUP.
+    site_policy_not_agreed: CoreEventSiteData; // SITE_POLICY_NOT_AGREED.
+    login: CoreEventSiteData; // LOGIN.
+    logout: CoreEventSiteData; // LOGOUT.
+    language_changed: string; // LANGUAGE_CHANGED. The new language code.
+    notification_sound_changed: boolean; // NOTIFICATION_SOUND_CHANGED. Whether the sound is enabled.
+    site_added: CoreEventSiteInfoData; // SITE_ADDED.
+    site_updated: CoreEventSiteInfoData; // SITE_UPDATED.
+    site_deleted: CoreEventSiteInfoData; // SITE_DELETED.
+    completion_module_viewed: CoreEventCompletionModuleViewedData; // COMPLETION_MODULE_VIEWED.
+    user_deleted: CoreEventUserDeletedData; // USER_DELETED.
+    package_status_changed: CoreEventPackageStatusChangedData; // PACKAGE_STATUS_CHANGED.
+    course_status_changed: CoreEventCourseStatusChangedData; // COURSE_STATUS_CHANGED.
+    section_status_changed: CoreEventSectionStatusChangedData; // SECTION_STATUS_CHANGED.
+    component_file_action: CoreEventComponentFileActionData; // COMPONENT_FILE_ACTION.
+    site_plugins_loaded: CoreEventSiteData; // SITE_PLUGINS_LOADED.
+    site_plugins_course_restrict_updated: CoreEventSiteData; // SITE_PLUGINS_COURSE_RESTRICT_UPDATED.
+    login_site_checked: CoreEventLoginSiteCheckedData; // LOGIN_SITE_CHECKED.
+    login_site_unchecked: CoreEventLoginSiteCheckedData; // LOGIN_SITE_UNCHECKED.
+    inappbrowser_load_start: InAppBrowserEvent; // IAB_LOAD_START.
+    inappbrowser_exit: InAppBrowserEvent; // IAB_EXIT.
+    app_launched_url: string; // APP_LAUNCHED_URL. The URL the app was opened with.
+    file_shared: CoreEventFileSharedData; // FILE_SHARED.
+    keyboard_change: number; // KEYBOARD_CHANGE. The height of the keyboard.
+    core_loading_changed: CoreEventLoadingChangedData; // CORE_LOADING_CHANGED.
+    orientation_change: void; // ORIENTATION_CHANGE.
+    load_page_main_menu: CoreEventLoadPageMainMenuData; // LOAD_PAGE_MAIN_MENU.
+    send_on_enter_changed: CoreEventSendOnEnterChangedData; // SEND_ON_ENTER_CHANGED.
+    main_menu_open: CoreEventSiteData; // MAIN_MENU_OPEN.
+    select_course_tab: CoreEventSelectCourseTabData; // SELECT_COURSE_TAB.
+    ws_cache_invalidated: CoreEventSiteData; // WS_CACHE_INVALIDATED.
+    site_storage_deleted: CoreEventSiteData; // SITE_STORAGE_DELETED.
+    form_action: CoreEventFormActionData; // FORM_ACTION.
+    activity_data_sent: CoreEventActivityDataSentData; // ACTIVITY_DATA_SENT.
+    device_registered_in_moodle: CoreEventSiteData; // DEVICE_REGISTERED_IN_MOODLE.
+    listener_error: CoreEventListenerErrorData; // LISTENER_ERROR.
+    storage_quota_threshold: CoreEventStorageQuotaThresholdData; // STORAGE_QUOTA_THRESHOLD.
+    file_changed: CoreEventFileChangedData; // FILE_CHANGED.
+}
+
+/**
+ * Name of an event declared in CoreEventsMap.
+ */
+export type CoreEventName = keyof CoreEventsMap;
+
+/**
+ * Value emitted to the observers of a wildcard pattern, it includes the name of the event that was triggered.
+ */
+export interface CoreEventNotification<K extends CoreEventName = CoreEventName> {
+    /**
+     * Name of the event.
+     */
+    name: K;
+
+    /**
+     * Data passed to the event.
+     */
+    data: CoreEventsMap[K];
+}
+
+/**
+ * Strategy to combine the values returned by the listeners of an event triggered with triggerAndCollect:
+ * - all: resolve with the values of all the listeners.
+ * - first: resolve with the first value that isn't null or undefined.
+ * - veto: resolve with false if any listener returns false, true otherwise.
+ */
+export type CoreEventCollectStrategy = 'all' | 'first' | 'veto';
+
+/**
+ * Options for triggerAndCollect.
+ */
+export interface CoreEventCollectOptions {
+    /**
+     * Strategy to combine the values returned by the listeners. Defaults to 'all'.
+     */
+    strategy?: CoreEventCollectStrategy;
+
+    /**
+     * Max time (in milliseconds) to wait for the listeners. Listeners that haven't finished by then are ignored.
+     * If not set, wait for all of them.
+     */
+    timeout?: number;
+}
+
+/**
+ * Unique event stored in a CoreEventsStore.
+ */
+export interface CoreEventStoredEvent {
+    name: string; // Name of the event.
+    data: any; // Data passed to the event.
+    timestamp: number; // Time when the event was triggered.
+}
+
+/**
+ * Storage used to persist unique events so they survive app restarts.
+ */
+export interface CoreEventsStore {
+    /**
+     * Load the stored events.
+     *
+     * @return Promise resolved with the stored events.
+     */
+    load(): Promise<CoreEventStoredEvent[]>;
+
+    /**
+     * Store the events, replacing the ones already stored.
+     *
+     * @param events Events to store.
+     * @return Promise resolved when done.
+     */
+    save(events: CoreEventStoredEvent[]): Promise<any>;
+}
+
+/**
+ * Policy to deliver an event to its listeners. If more than one timing policy is set, only one is applied, in this order of
+ * preference: debounce, throttle, coalesce.
+ */
+export interface CoreEventDeliveryPolicy {
+    /**
+     * Deliver the event only when it hasn't been triggered for this number of milliseconds, with the latest data.
+     */
+    debounce?: number;
+
+    /**
+     * Deliver the event at most once every this number of milliseconds. The latest data of the events triggered in between
+     * is delivered at the end of the period.
+     */
+    throttle?: number;
+
+    /**
+     * Wait this number of milliseconds and deliver only the latest data of each site. Use 0 to coalesce the events
+     * triggered in the same tick.
+     */
+    coalesce?: number;
+
+    /**
+     * Priority of the listener. Listeners with higher priority are notified first. Defaults to 0.
+     * Listeners with the same priority are notified in the order they were registered. The priority set in the policy of an
+     * event applies to the listeners that don't set their own priority.
+     */
+    priority?: number;
+}
+
+/**
+ * Listener registered to an event.
+ */
+interface CoreEventListener {
+    callBack: (value: any) => any;
+    siteId?: string;
+    policy?: CoreEventDeliveryPolicy; // Delivery policy of the listener.
+    timeout?: any; // Timeout of a pending delivery.
+    lastDelivery?: number; // Time of the last delivery, used to throttle.
+    pending?: { data: any }; // Data pending to be delivered when debouncing or throttling.
+    pendingBySite?: { [siteId: string]: any }; // Data pending to be delivered when coalescing.
+}
+
+/**
+ * Result of calling a listener.
+ */
+interface CoreEventListenerResult {
+    value?: any; // Value returned by the listener, it can be a promise.
+    failed?: boolean; // Whether the listener threw an error.
+    deferred?: boolean; // Whether the call was deferred by the delivery policy.
+}
+
 /*
  * Service to send and listen to events.
  */
 @Injectable()
 export class CoreEventsProvider {
-    static SESSION_EXPIRED = 'session_expired';
-    static PASSWORD_CHANGE_FORCED = 'password_change_forced';
-    static USER_NOT_FULLY_SETUP = 'user_not_fully_setup';
-    static SITE_POLICY_NOT_AGREED = 'site_policy_not_agreed';
-    static LOGIN = 'login';
-    static LOGOUT = 'logout';
-    static LANGUAGE_CHANGED = 'language_changed';
-    static NOTIFICATION_SOUND_CHANGED = 'notification_sound_changed';
-    static SITE_ADDED = 'site_added';
-    static SITE_UPDATED = 'site_updated';
-    static SITE_DELETED = 'site_deleted';
-    static COMPLETION_MODULE_VIEWED = 'completion_module_viewed';
-    static USER_DELETED = 'user_deleted';
-    static PACKAGE_STATUS_CHANGED = 'package_status_changed';
-    static COURSE_STATUS_CHANGED = 'course_status_changed';
-    static SECTION_STATUS_CHANGED = 'section_status_changed';
-    static COMPONENT_FILE_ACTION = 'component_file_action';
-    static SITE_PLUGINS_LOADED = 'site_plugins_loaded';
-    static SITE_PLUGINS_COURSE_RESTRICT_UPDATED = 'site_plugins_course_restrict_updated';
-    static LOGIN_SITE_CHECKED = 'login_site_checked';
-    static LOGIN_SITE_UNCHECKED = 'login_site_unchecked';
-    static IAB_LOAD_START = 'inappbrowser_load_start';
-    static IAB_EXIT = 'inappbrowser_exit';
-    static APP_LAUNCHED_URL = 'app_launched_url'; // App opened with a certain URL (custom URL scheme).
-    static FILE_SHARED = 'file_shared';
-    static KEYBOARD_CHANGE = 'keyboard_change';
-    static CORE_LOADING_CHANGED = 'core_loading_changed';
-    static ORIENTATION_CHANGE = 'orientation_change';
-    static LOAD_PAGE_MAIN_MENU = 'load_page_main_menu';
-    static SEND_ON_ENTER_CHANGED = 'send_on_enter_changed';
-    static MAIN_MENU_OPEN = 'main_menu_open';
-    static SELECT_COURSE_TAB = 'select_course_tab';
-    static WS_CACHE_INVALIDATED = 'ws_cache_invalidated';
-    static SITE_STORAGE_DELETED = 'site_storage_deleted';
-    static FORM_ACTION = 'form_action';
-    static ACTIVITY_DATA_SENT = 'activity_data_sent';
-    static DEVICE_REGISTERED_IN_MOODLE = 'device_registered_in_moodle';
+    static readonly SESSION_EXPIRED = 'session_expired';
+    static readonly PASSWORD_CHANGE_FORCED = 'password_change_forced';
+    static readonly USER_NOT_FULLY_SETUP = 'user_not_fully_setup';
+    static readonly SITE_POLICY_NOT_AGREED = 'site_policy_not_agreed';
+    static readonly LOGIN = 'login';
+    static readonly LOGOUT = 'logout';
+    static readonly LANGUAGE_CHANGED = 'language_changed';
+    static readonly NOTIFICATION_SOUND_CHANGED = 'notification_sound_changed';
+    static readonly SITE_ADDED = 'site_added';
+    static readonly SITE_UPDATED = 'site_updated';
+    static readonly SITE_DELETED = 'site_deleted';
+    static readonly COMPLETION_MODULE_VIEWED = 'completion_module_viewed';
+    static readonly USER_DELETED = 'user_deleted';
+    static readonly PACKAGE_STATUS_CHANGED = 'package_status_changed';
+    static readonly COURSE_STATUS_CHANGED = 'course_status_changed';
+    static readonly SECTION_STATUS_CHANGED = 'section_status_changed';
+    static readonly COMPONENT_FILE_ACTION = 'component_file_action';
+    static readonly SITE_PLUGINS_LOADED = 'site_plugins_loaded';
+    static readonly SITE_PLUGINS_COURSE_RESTRICT_UPDATED = 'site_plugins_course_restrict_updated';
+    static readonly LOGIN_SITE_CHECKED = 'login_site_checked';
+    static readonly LOGIN_SITE_UNCHECKED = 'login_site_unchecked';
+    static readonly IAB_LOAD_START = 'inappbrowser_load_start';
+    static readonly IAB_EXIT = 'inappbrowser_exit';
+    static readonly APP_LAUNCHED_URL = 'app_launched_url'; // App opened with a certain URL (custom URL scheme).
+    static readonly FILE_SHARED = 'file_shared';
+    static readonly KEYBOARD_CHANGE = 'keyboard_change';
+    static readonly CORE_LOADING_CHANGED = 'core_loading_changed';
+    static readonly ORIENTATION_CHANGE = 'orientation_change';
+    static readonly LOAD_PAGE_MAIN_MENU = 'load_page_main_menu';
+    static readonly SEND_ON_ENTER_CHANGED = 'send_on_enter_changed';
+    static readonly MAIN_MENU_OPEN = 'main_menu_open';
+    static readonly SELECT_COURSE_TAB = 'select_course_tab';
+    static readonly WS_CACHE_INVALIDATED = 'ws_cache_invalidated';
+    static readonly SITE_STORAGE_DELETED = 'site_storage_deleted';
+    static readonly FORM_ACTION = 'form_action';
+    static readonly ACTIVITY_DATA_SENT = 'activity_data_sent';
+    static readonly DEVICE_REGISTERED_IN_MOODLE = 'device_registered_in_moodle';
+    static readonly LISTENER_ERROR = 'listener_error'; // A listener of another event threw an error.
+    static readonly STORAGE_QUOTA_THRESHOLD = 'storage_quota_threshold'; // The storage used crossed a quota threshold.
+    static readonly FILE_CHANGED = 'file_changed'; // A file or directory was created, modified, removed or moved.
 
     protected logger;
-    protected observables: { [s: string]: Subject<any> } = {};
-    protected uniqueEvents = {};
+    protected listeners: { [s: string]: CoreEventListener[] } = {};
+    protected deliveryPolicies: { [s: string]: CoreEventDeliveryPolicy } = {};
+    protected uniqueEvents: { [s: string]: { data: any, timestamp?: number } } = {};
+    protected allEvents = new Subject<CoreEventNotification>(); // Receives all the events, used by wildcard observers.
+    protected persistenceStore: CoreEventsStore; // Store where to persist unique events. Undefined if not enabled.
+    protected persistentEvents: string[] = []; // Names of the unique events to persist.
+    protected persistPromise: Promise<any> = Promise.resolve(); // Used to store the events one write at a time.
+    protected bridge: CoreEventsBridge; // Bridge to send events to other contexts. Undefined if not enabled.
+    protected recorder: CoreEventsRecorder; // Recorder of the triggered events. Undefined if not recording.
 
     constructor(logger: CoreLoggerProvider) {
         this.logger = logger.getInstance('CoreEventsProvider');
@@ -86,13 +442,15 @@ export class CoreEventsProvider {
      * @param eventName Name of the event to listen to.
      * @param callBack Function to call when the event is triggered.
      * @param siteId Site where to trigger the event. Undefined won't check the site.
+     * @param policy Delivery policy for this listener. It overrides the policy of the event.
      * @return Observer to stop listening.
      */
-    on(eventName: string, callBack: (value: any) => void, siteId?: string): CoreEventObserver {
+    on<K extends CoreEventName>(eventName: K, callBack: (value: CoreEventsMap[K]) => void, siteId?: string,
+        policy?: CoreEventDeliveryPolicy): CoreEventObserver {
         // If it's a unique event and has been triggered already, call the callBack.
         // We don't need to create an observer because the event won't be triggered again.
         if (this.uniqueEvents[eventName]) {
-            callBack(this.uniqueEvents[eventName].data);
+            this.callListener(eventName, this.uniqueEvents[eventName].data, callBack);
 
             // Return a fake observer to prevent errors.
             return {
@@ -104,22 +462,35 @@ export class CoreEventsProvider {
 
         this.logger.debug(`New observer listening to event '${eventName}'`);
 
-        if (typeof this.observables[eventName] == 'undefined') {
-            // No observable for this event, create a new one.
-            this.observables[eventName] = new Subject<any>();
+        if (typeof this.listeners[eventName] == 'undefined') {
+            // No listeners for this event, create the list.
+            this.listeners[eventName] = [];
         }
 
-        const subscription = this.observables[eventName].subscribe((value: any) => {
-            if (!siteId || value.siteId == siteId) {
-                callBack(value);
-            }
-        });
+        const listener: CoreEventListener = {
+            callBack: callBack,
+            siteId: siteId,
+            policy: policy
+        };
+
+        // Keep the list sorted by priority. Add the listener after the ones with the same priority.
+        const priority = this.getListenerPriority(eventName, listener);
+        const listeners = this.listeners[eventName];
+        let position = listeners.length;
+        while (position > 0 && this.getListenerPriority(eventName, listeners[position - 1]) < priority) {
+            position--;
+        }
+        listeners.splice(position, 0, listener);
 
         // Create and return a CoreEventObserver.
         return {
             off: (): void => {
                 this.logger.debug(`Stop listening to event '${eventName}'`);
-                subscription.unsubscribe();
+                clearTimeout(listener.timeout);
+                const index = this.listeners[eventName].indexOf(listener);
+                if (index != -1) {
+                    this.listeners[eventName].splice(index, 1);
+                }
             }
         };
     }
@@ -133,12 +504,14 @@ export class CoreEventsProvider {
      * @param eventNames Names of the events to listen to.
      * @param callBack Function to call when any of the events is triggered.
      * @param siteId Site where to trigger the event. Undefined won't check the site.
+     * @param policy Delivery policy for this listener. It overrides the policy of the events.
      * @return Observer to stop listening.
      */
-    onMultiple(eventNames: string[], callBack: (value: any) => void, siteId?: string): CoreEventObserver {
+    onMultiple<K extends CoreEventName>(eventNames: K[], callBack: (value: CoreEventsMap[K]) => void, siteId?: string,
+        policy?: CoreEventDeliveryPolicy): CoreEventObserver {
 
         const observers = eventNames.map((name) => {
-            return this.on(name, callBack, siteId);
+            return this.on(name, callBack, siteId, policy);
         });
 
         // Create and return a CoreEventObserver.
@@ -151,6 +524,112 @@ export class CoreEventsProvider {
         };
     }
 
+    /**
+     * Set the delivery policy of an event. It applies to all its listeners, unless they set their own policy. The priority
+     * of the event applies to the listeners whose policy doesn't set a priority. E.g.:
+     * eventsProvider.setDeliveryPolicy(CoreEventsProvider.KEYBOARD_CHANGE, { debounce: 100 });
+     *
+     * @param eventName Name of the event.
+     * @param policy Delivery policy. Undefined to remove it.
+     */
+    setDeliveryPolicy(eventName: CoreEventName, policy?: CoreEventDeliveryPolicy): void {
+        if (policy) {
+            this.deliveryPolicies[eventName] = policy;
+        } else {
+            delete this.deliveryPolicies[eventName];
+        }
+
+        // The priority of the listeners may have changed, sort them again keeping the order of the ones with the same priority.
+        const listeners = this.listeners[eventName] || [];
+        this.listeners[eventName] = listeners.map((listener, index) => {
+            return { listener: listener, index: index, priority: this.getListenerPriority(eventName, listener) };
+        }).sort((a, b) => {
+            return b.priority - a.priority || a.index - b.index;
+        }).map((entry) => {
+            return entry.listener;
+        });
+    }
+
+    /**
+     * Get an Observable to listen for a certain event or for all the events matching a wildcard pattern. E.g.:
+     * eventsProvider.observe(CoreEventsProvider.LOGOUT).pipe(takeUntil(this.destroyed)).subscribe(myCallBack);
+     * eventsProvider.observe('site_*').subscribe((notification) => { ... notification.name ... });
+     *
+     * Observers of an event name receive the data of the event. Observers of a pattern receive a CoreEventNotification
+     * containing the name of the event and its data.
+     *
+     * @param eventName Name of the event to listen to, or a pattern using '*' as a wildcard (e.g. '*_status_changed').
+     * @param siteId Site where to trigger the event. Undefined won't check the site.
+     * @return Observable. The listener is removed when the subscription is unsubscribed.
+     */
+    observe<K extends CoreEventName>(eventName: K, siteId?: string): Observable<CoreEventsMap[K]>;
+    observe(pattern: string, siteId?: string): Observable<CoreEventNotification>;
+    observe(eventNameOrPattern: string, siteId?: string): Observable<any> {
+        if (!this.isPattern(eventNameOrPattern)) {
+            return new Observable((subscriber) => {
+                const observer = this.on(<CoreEventName> eventNameOrPattern, (value) => {
+                    subscriber.next(value);
+                }, siteId);
+
+                return (): void => {
+                    observer.off();
+                };
+            });
+        }
+
+        const regExp = this.patternToRegExp(eventNameOrPattern);
+        const matches = (notification: CoreEventNotification): boolean => {
+            return regExp.test(notification.name) && (!siteId || (notification.data && notification.data['siteId'] == siteId));
+        };
+
+        return new Observable((subscriber) => {
+            this.logger.debug(`New observer listening to events matching '${eventNameOrPattern}'`);
+
+            // Pass the unique events that have been triggered already, like on() does.
+            for (const name in this.uniqueEvents) {
+                const notification = <CoreEventNotification> { name: name, data: this.uniqueEvents[name].data };
+                if (matches(notification)) {
+                    subscriber.next(notification);
+                }
+            }
+
+            const subscription = this.allEvents.pipe(filter(matches)).subscribe((notification) => {
+                this.callListener(notification.name, notification.data, () => {
+                    subscriber.next(notification);
+                });
+            });
+
+            return (): void => {
+                this.logger.debug(`Stop listening to events matching '${eventNameOrPattern}'`);
+                subscription.unsubscribe();
+            };
+        });
+    }
+
+    /**
+     * Check whether an event name is a wildcard pattern.
+     *
+     * @param name Event name or pattern.
+     * @return Whether it's a pattern.
+     */
+    protected isPattern(name: string): boolean {
+        return name.indexOf('*') != -1;
+    }
+
+    /**
+     * Convert a wildcard pattern to a regular expression. E.g. 'site_*' -> /^site_.*$/.
+     *
+     * @param pattern Pattern to convert.
+     * @return Regular expression.
+     */
+    protected patternToRegExp(pattern: string): RegExp {
+        const escaped = pattern.split('*').map((part) => {
+            return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        });
+
+        return new RegExp('^' + escaped.join('.*') + '$');
+    }
+
     /**
      * Triggers an event, notifying all the observers.
      *
@@ -158,17 +637,112 @@ export class CoreEventsProvider {
      * @param data Data to pass to the observers.
      * @param siteId Site where to trigger the event. Undefined means no Site.
      */
-    trigger(eventName: string, data?: any, siteId?: string): void {
+    trigger<K extends CoreEventName>(eventName: K, data?: CoreEventsMap[K], siteId?: string): void {
         this.logger.debug(`Event '${eventName}' triggered.`);
-        if (this.observables[eventName]) {
-            if (siteId) {
-                if (!data) {
-                    data = {};
+        data = this.addSiteIdToData(data, siteId);
+
+        const results = this.notifyListeners(eventName, data);
+        this.allEvents.next({ name: eventName, data: data });
+        this.bridge && this.bridge.send(eventName, data);
+        this.recorder && this.recorder.record(eventName, data, results.length);
+    }
+
+    /**
+     * Triggers an event and collects the values returned by its listeners. Listeners can return a value or a promise.
+     * E.g. to ask whether a page can be left:
+     * eventsProvider.triggerAndCollect('can_leave_page', data, siteId, { strategy: 'veto', timeout: 2000 }).then(...);
+     *
+     * Listeners that fail are ignored (the errors are reported in LISTENER_ERROR), as well as the ones that don't finish
+     * before the timeout and the ones whose delivery is deferred by a delivery policy. Observers of wildcard patterns are
+     * notified but their values aren't collected.
+     *
+     * @param eventName Name of the event to trigger.
+     * @param data Data to pass to the observers.
+     * @param siteId Site where to trigger the event. Undefined means no Site.
+     * @param options Options.
+     * @return Promise resolved depending on the strategy: 'all' resolves with the list of values, 'first' resolves with the
+     *         first value that isn't null or undefined (undefined if none), 'veto' resolves with a boolean.
+     */
+    triggerAndCollect<K extends CoreEventName>(eventName: K, data: CoreEventsMap[K], siteId: string,
+        options: CoreEventCollectOptions & { strategy: 'veto' }): Promise<boolean>;
+    triggerAndCollect<K extends CoreEventName, R = any>(eventName: K, data: CoreEventsMap[K], siteId: string,
+        options: CoreEventCollectOptions & { strategy: 'first' }): Promise<R>;
+    triggerAndCollect<K extends CoreEventName, R = any>(eventName: K, data?: CoreEventsMap[K], siteId?: string,
+        options?: CoreEventCollectOptions): Promise<R[]>;
+    triggerAndCollect(eventName: CoreEventName, data?: any, siteId?: string, options: CoreEventCollectOptions = {}): Promise<any> {
+
+        const strategy = options.strategy || 'all';
+
+        this.logger.debug(`Event '${eventName}' triggered, collecting results with strategy '${strategy}'.`);
+        data = this.addSiteIdToData(data, siteId);
+
+        let results = this.notifyListeners(eventName, data);
+        this.allEvents.next({ name: eventName, data: data });
+        this.bridge && this.bridge.send(eventName, data);
+        this.recorder && this.recorder.record(eventName, data, results.length);
+
+        results = results.filter((result) => {
+            return !result.failed && !result.deferred;
+        });
+
+        return new Promise((resolve): void => {
+            const values = [];
+            let pending = results.length,
+                finished = false,
+                timeout;
+
+            const finish = (value: any): void => {
+                if (!finished) {
+                    finished = true;
+                    clearTimeout(timeout);
+                    resolve(value);
                 }
-                data.siteId = siteId;
+            };
+            const finishWithDefault = (): void => {
+                if (strategy == 'all') {
+                    // Return the values in the same order as the listeners, ignoring the ones that didn't finish.
+                    finish(values.filter((value) => {
+                        return !!value;
+                    }).map((value) => {
+                        return value.value;
+                    }));
+                } else {
+                    finish(strategy == 'veto' ? true : undefined);
+                }
+            };
+
+            if (!pending) {
+                finishWithDefault();
+
+                return;
             }
-            this.observables[eventName].next(data);
-        }
+
+            if (options.timeout > 0) {
+                timeout = setTimeout(() => {
+                    this.logger.warn(`${pending} listeners of event '${eventName}' didn't finish in ${options.timeout}ms.`);
+                    finishWithDefault();
+                }, options.timeout);
+            }
+
+            results.forEach((result, index) => {
+                Promise.resolve(result.value).then((value) => {
+                    values[index] = { value: value };
+
+                    if (strategy == 'first' && value !== null && typeof value != 'undefined') {
+                        finish(value);
+                    } else if (strategy == 'veto' && value === false) {
+                        finish(false);
+                    }
+                }, () => {
+                    // Ignore errors, they have already been reported.
+                }).then(() => {
+                    pending--;
+                    if (!pending) {
+                        finishWithDefault();
+                    }
+                });
+            });
+        });
     }
 
     /**
@@ -178,28 +752,389 @@ export class CoreEventsProvider {
      * @param data Data to pass to the observers.
      * @param siteId Site where to trigger the event. Undefined means no Site.
      */
-    triggerUnique(eventName: string, data: any, siteId?: string): void {
+    triggerUnique<K extends CoreEventName>(eventName: K, data: CoreEventsMap[K], siteId?: string): void {
         if (this.uniqueEvents[eventName]) {
             this.logger.debug(`Unique event '${eventName}' ignored because it was already triggered.`);
         } else {
             this.logger.debug(`Unique event '${eventName}' triggered.`);
 
-            if (siteId) {
-                if (!data) {
-                    data = {};
-                }
-                data.siteId = siteId;
-            }
+            data = this.addSiteIdToData(data, siteId);
 
             // Store the data so it can be passed to observers that register from now on.
             this.uniqueEvents[eventName] = {
-                data: data
+                data: data,
+                timestamp: Date.now()
             };
 
+            if (this.persistentEvents.indexOf(eventName) != -1) {
+                this.persistUniqueEvents();
+            }
+
             // Now pass the data to observers.
-            if (this.observables[eventName]) {
-                this.observables[eventName].next(data);
+            const results = this.notifyListeners(eventName, data);
+            this.allEvents.next({ name: eventName, data: data });
+            this.bridge && this.bridge.send(eventName, data, true);
+            this.recorder && this.recorder.record(eventName, data, results.length, true);
+        }
+    }
+
+    /**
+     * Start recording the triggered events. If it was already recording, the previous history is discarded.
+     *
+     * @param maxEntries Max number of events to keep.
+     * @return The recorder, it can be used to get, export or replay the history.
+     */
+    startRecording(maxEntries?: number): CoreEventsRecorder {
+        this.recorder = new CoreEventsRecorder(maxEntries);
+
+        return this.recorder;
+    }
+
+    /**
+     * Stop recording the triggered events.
+     *
+     * @return The recorder with the history recorded so far. Undefined if it wasn't recording.
+     */
+    stopRecording(): CoreEventsRecorder {
+        const recorder = this.recorder;
+        delete this.recorder;
+
+        return recorder;
+    }
+
+    /**
+     * Get the recorder of the triggered events.
+     *
+     * @return The recorder, undefined if not recording.
+     */
+    getRecorder(): CoreEventsRecorder {
+        return this.recorder;
+    }
+
+    /**
+     * Send some events to other contexts (windows, iframes, InAppBrowser) and trigger the ones received from them.
+     * E.g. to logout all the windows: eventsProvider.enableBridge([CoreEventsProvider.LOGOUT]);
+     * The data of the events is sent as JSON, so it must be serializable.
+     *
+     * @param eventNames Names of the events to bridge.
+     * @param options Options.
+     * @return The bridge, it can be used to add iframes and InAppBrowser windows.
+     */
+    enableBridge(eventNames: CoreEventName[], options?: CoreEventsBridgeOptions): CoreEventsBridge {
+        this.disableBridge();
+
+        this.bridge = new CoreEventsBridge(this, this.logger, eventNames, options);
+        this.bridge.start();
+
+        return this.bridge;
+    }
+
+    /**
+     * Stop sending and receiving events from other contexts.
+     */
+    disableBridge(): void {
+        if (this.bridge) {
+            this.bridge.stop();
+            delete this.bridge;
+        }
+    }
+
+    /**
+     * Get the bridge to other contexts.
+     *
+     * @return The bridge, undefined if not enabled.
+     */
+    getBridge(): CoreEventsBridge {
+        return this.bridge;
+    }
+
+    /**
+     * Persist some unique events, so they are remembered after the app is restarted. The events already persisted are
+     * loaded and treated as if they had been triggered with triggerUnique, so they're passed to the observers.
+     * Persisted events of a site are cleared when the site is deleted (SITE_DELETED).
+     *
+     * @param store Store where to persist the events. E.g. new CoreEventsFileStore(fileProvider).
+     * @param eventNames Names of the unique events to persist.
+     * @return Promise resolved when the persisted events have been loaded.
+     */
+    async enablePersistence(store: CoreEventsStore, eventNames: CoreEventName[]): Promise<void> {
+        const firstTime = !this.persistenceStore;
+
+        this.persistenceStore = store;
+        this.persistentEvents = eventNames.slice();
+
+        if (firstTime) {
+            this.on(CoreEventsProvider.SITE_DELETED, (data) => {
+                if (data && data.siteId) {
+                    this.clearPersistedEvents(data.siteId);
+                }
+            });
+        }
+
+        // Store the events only after loading them, otherwise the stored events would be overwritten.
+        const loadPromise = this.loadPersistedEvents(store);
+        this.persistPromise = this.persistPromise.then(() => {
+            return loadPromise;
+        });
+
+        await loadPromise;
+    }
+
+    /**
+     * Clear the persisted unique events, so they can be triggered again.
+     *
+     * @param siteId If set, only clear the events of this site.
+     * @return Promise resolved when done.
+     */
+    clearPersistedEvents(siteId?: string): Promise<any> {
+        this.persistentEvents.forEach((name) => {
+            const event = this.uniqueEvents[name];
+
+            if (event && (!siteId || (event.data && event.data.siteId == siteId))) {
+                delete this.uniqueEvents[name];
+            }
+        });
+
+        return this.persistUniqueEvents();
+    }
+
+    /**
+     * Load the persisted unique events and pass them to the observers.
+     *
+     * @param store Store where the events are persisted.
+     * @return Promise resolved when done. It's never rejected.
+     */
+    protected async loadPersistedEvents(store: CoreEventsStore): Promise<void> {
+        let storedEvents: CoreEventStoredEvent[];
+        try {
+            storedEvents = await store.load();
+        } catch (error) {
+            this.logger.error('Error loading persisted events.', error);
+
+            return;
+        }
+
+        (storedEvents || []).forEach((event) => {
+            if (this.persistentEvents.indexOf(event.name) == -1 || this.uniqueEvents[event.name]) {
+                // Not persistent anymore or already triggered in this session.
+                return;
+            }
+
+            this.logger.debug(`Persisted unique event '${event.name}' restored.`);
+
+            this.uniqueEvents[event.name] = {
+                data: event.data,
+                timestamp: event.timestamp
+            };
+
+            this.notifyListeners(event.name, event.data);
+            this.allEvents.next({ name: <CoreEventName> event.name, data: event.data });
+        });
+    }
+
+    /**
+     * Store the persistent unique events that have been triggered.
+     *
+     * @return Promise resolved when done.
+     */
+    protected persistUniqueEvents(): Promise<any> {
+        if (!this.persistenceStore) {
+            return Promise.resolve();
+        }
+
+        const store = this.persistenceStore;
+
+        // Wait for the previous write to finish, otherwise an older list could overwrite a newer one. Get the list of events
+        // when writing, so it includes the events loaded in the meantime.
+        this.persistPromise = this.persistPromise.then(() => {
+            const events: CoreEventStoredEvent[] = [];
+
+            this.persistentEvents.forEach((name) => {
+                if (this.uniqueEvents[name]) {
+                    events.push({
+                        name: name,
+                        data: this.uniqueEvents[name].data,
+                        timestamp: this.uniqueEvents[name].timestamp
+                    });
+                }
+            });
+
+            return store.save(events);
+        }).catch((error) => {
+            this.logger.error('Error persisting unique events.', error);
+        });
+
+        return this.persistPromise;
+    }
+
+    /**
+     * Add the site ID to the data of an event.
+     *
+     * @param data Data of the event.
+     * @param siteId Site ID. If not set, the data won't be modified.
+     * @return Data with the site ID.
+     */
+    protected addSiteIdToData(data: any, siteId?: string): any {
+        if (siteId) {
+            if (!data) {
+                data = {};
+            }
+            data.siteId = siteId;
+        }
+
+        return data;
+    }
+
+    /**
+     * Pass the data of an event to all its listeners. Each listener is called in isolation, so an error in one of them
+     * doesn't prevent the rest from being notified.
+     *
+     * @param eventName Name of the event.
+     * @param data Data to pass to the listeners.
+     * @return Results of the listeners that were called.
+     */
+    protected notifyListeners(eventName: string, data: any): CoreEventListenerResult[] {
+        // Use a copy of the list because listeners can stop listening while the event is being notified.
+        const listeners = (this.listeners[eventName] || []).slice(),
+            results: CoreEventListenerResult[] = [];
+
+        listeners.forEach((listener) => {
+            if (!listener.siteId || (data && data.siteId == listener.siteId)) {
+                results.push(this.deliverToListener(eventName, data, listener));
+            }
+        });
+
+        return results;
+    }
+
+    /**
+     * Get the priority of a listener. If its policy doesn't set a priority, use the priority of the event.
+     *
+     * @param eventName Name of the event.
+     * @param listener Listener.
+     * @return Priority.
+     */
+    protected getListenerPriority(eventName: string, listener: CoreEventListener): number {
+        if (listener.policy && typeof listener.policy.priority == 'number') {
+            return listener.policy.priority;
+        }
+
+        return (this.deliveryPolicies[eventName] && this.deliveryPolicies[eventName].priority) || 0;
+    }
+
+    /**
+     * Deliver an event to a listener, applying the delivery policy of the listener or the event.
+     *
+     * @param eventName Name of the event.
+     * @param data Data to pass to the listener.
+     * @param listener Listener.
+     * @return Result of the listener. If the delivery was deferred, the result won't have a value.
+     */
+    protected deliverToListener(eventName: string, data: any, listener: CoreEventListener): CoreEventListenerResult {
+        const policy = listener.policy || this.deliveryPolicies[eventName] || {};
+        const callPending = (): void => {
+            const pending = listener.pending;
+            delete listener.timeout;
+            delete listener.pending;
+            listener.lastDelivery = Date.now();
+            this.callListener(eventName, pending.data, listener.callBack);
+        };
+
+        if (policy.debounce > 0) {
+            clearTimeout(listener.timeout);
+            listener.pending = { data: data };
+            listener.timeout = setTimeout(callPending, policy.debounce);
+
+            return { deferred: true };
+        }
+
+        if (policy.throttle > 0) {
+            const elapsed = Date.now() - (listener.lastDelivery || 0);
+
+            if (elapsed >= policy.throttle && !listener.timeout) {
+                listener.lastDelivery = Date.now();
+
+                return this.callListener(eventName, data, listener.callBack);
             }
+
+            // Deliver the latest data when the period finishes.
+            listener.pending = { data: data };
+            if (!listener.timeout) {
+                listener.timeout = setTimeout(callPending, policy.throttle - elapsed);
+            }
+
+            return { deferred: true };
         }
+
+        if (typeof policy.coalesce == 'number' && policy.coalesce >= 0) {
+            listener.pendingBySite = listener.pendingBySite || {};
+            listener.pendingBySite[(data && data.siteId) || ''] = data;
+
+            if (!listener.timeout) {
+                listener.timeout = setTimeout(() => {
+                    const pendingBySite = listener.pendingBySite;
+                    delete listener.timeout;
+                    delete listener.pendingBySite;
+
+                    for (const siteId in pendingBySite) {
+                        this.callListener(eventName, pendingBySite[siteId], listener.callBack);
+                    }
+                }, policy.coalesce);
+            }
+
+            return { deferred: true };
+        }
+
+        return this.callListener(eventName, data, listener.callBack);
+    }
+
+    /**
+     * Call a listener of an event, catching and reporting any error it throws or any rejection of the promise it returns.
+     *
+     * @param eventName Name of the event.
+     * @param data Data to pass to the listener.
+     * @param callBack Listener function.
+     * @return Result of the listener.
+     */
+    protected callListener(eventName: string, data: any, callBack: (value: any) => any): CoreEventListenerResult {
+        try {
+            const value = callBack(data);
+
+            if (value && typeof value.then == 'function') {
+                // The listener is asynchronous, report the error if it fails.
+                value.then(undefined, (error) => {
+                    this.reportListenerError(eventName, data, error);
+                });
+            }
+
+            return { value: value };
+        } catch (error) {
+            this.reportListenerError(eventName, data, error);
+
+            return { failed: true };
+        }
+    }
+
+    /**
+     * Log an error thrown by a listener and publish it in the LISTENER_ERROR event.
+     *
+     * @param eventName Name of the event whose listener failed.
+     * @param data Data that was passed to the listener.
+     * @param error The error.
+     */
+    protected reportListenerError(eventName: string, data: any, error: any): void {
+        this.logger.error(`Error in a listener of event '${eventName}'.`, error);
+
+        if (eventName == CoreEventsProvider.LISTENER_ERROR) {
+            // Don't publish errors of the LISTENER_ERROR listeners, it could cause an infinite loop.
+            return;
+        }
+
+        this.trigger(CoreEventsProvider.LISTENER_ERROR, {
+            eventName: eventName,
+            data: data,
+            error: error,
+            stack: error && error.stack
+        }, data && data.siteId);
     }
 }
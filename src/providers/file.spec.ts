@@ -0,0 +1,316 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreFileProvider } from './file';
+import { CoreFileEncryptedBackend } from '../classess/file-encrypted-backend';
+import { CoreCancellationToken } from '../classess/cancellation-token';
+import { CoreCanceledError } from '../classess/canceled-error';
+import { CoreFileError, CoreFileCanceledError } from '../classess/file-error';
+import { createTestFileProvider } from '../test-utils';
+
+describe('CoreFileProvider', () => {
+    let fileProvider: CoreFileProvider;
+
+    beforeEach(() => {
+        fileProvider = createTestFileProvider().fileProvider;
+    });
+
+    it('rejects the canceled operations with a file error', async () => {
+        const token = new CoreCancellationToken();
+        let error;
+
+        await fileProvider.writeFile('dir/file.txt', 'Hello world');
+        token.cancel();
+
+        try {
+            await fileProvider.walkDirectory('dir', () => {
+                // Nothing to do.
+            }, { cancelToken: token });
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toEqual(jasmine.any(CoreFileCanceledError));
+        expect(error).toEqual(jasmine.any(CoreFileError));
+        expect(error.code).toEqual(CoreFileError.ABORT_ERR);
+        expect(error.path).toEqual('dir');
+        expect(error.cause).toEqual(jasmine.any(CoreCanceledError));
+    });
+
+    it('copies directories checking the cancel token between entries', async () => {
+        const token = new CoreCancellationToken(),
+            backend = fileProvider.getBackend(),
+            copyOrMove = backend.copyOrMove;
+        let error;
+
+        await fileProvider.writeFile('dir/a.txt', 'A');
+        await fileProvider.writeFile('dir/b.txt', 'B');
+        await fileProvider.writeFile('dir/sub/c.txt', 'C');
+
+        await fileProvider.copyDir('dir', 'copy', false, token);
+        expect(await fileProvider.readFile('copy/sub/c.txt')).toEqual('C');
+
+        spyOn(backend, 'copyOrMove').and.callFake((...args: any[]) => {
+            token.cancel();
+
+            return copyOrMove.apply(backend, args);
+        });
+
+        try {
+            await fileProvider.copyDir('dir', 'copy2', false, token);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toEqual(jasmine.any(CoreFileCanceledError));
+        expect(backend.copyOrMove).toHaveBeenCalledTimes(1);
+        expect(backend.copyOrMove).toHaveBeenCalledWith('dir/a.txt', jasmine.stringMatching(/^copy2\.\d+\.copying\/a\.txt$/),
+            false, true);
+        expect(await fileProvider.getDir('copy2').then(() => true, () => false)).toBe(false);
+        expect(await fileProvider.readFile('dir/b.txt')).toEqual('B');
+    });
+
+    it('keeps the destination if a copy is canceled', async () => {
+        const backend = fileProvider.getBackend(),
+            copyOrMove = backend.copyOrMove;
+        let token = new CoreCancellationToken(),
+            dirError,
+            fileError;
+
+        await fileProvider.writeFile('dir/a.txt', 'A');
+        await fileProvider.writeFile('dir/b.txt', 'B');
+        await fileProvider.writeFile('copy/old.txt', 'Old');
+        await fileProvider.writeFile('copy.txt', 'Old');
+
+        spyOn(backend, 'copyOrMove').and.callFake((...args: any[]) => {
+            token.cancel();
+
+            return copyOrMove.apply(backend, args);
+        });
+
+        await fileProvider.copyDir('dir', 'copy', false, token).catch((e) => {
+            dirError = e;
+        });
+        token = new CoreCancellationToken();
+        await fileProvider.copyFile('dir/a.txt', 'copy.txt', false, token).catch((e) => {
+            fileError = e;
+        });
+
+        expect(dirError).toEqual(jasmine.any(CoreFileCanceledError));
+        expect(fileError).toEqual(jasmine.any(CoreFileCanceledError));
+        expect(await fileProvider.readFile('copy/old.txt')).toEqual('Old');
+        expect(await fileProvider.readFile('copy.txt')).toEqual('Old');
+        expect((await backend.listDir('')).map((entry) => entry.name).sort()).toEqual(['copy', 'copy.txt', 'dir']);
+
+        // Once the copy is complete, it replaces the destination.
+        await fileProvider.copyDir('dir', 'copy', false, new CoreCancellationToken());
+        expect((await backend.listDir('copy')).map((entry) => entry.name).sort()).toEqual(['a.txt', 'b.txt']);
+    });
+
+    it('zips and unzips folders without loading the whole zip', async () => {
+        const backend = fileProvider.getBackend(),
+            text = new Array(100).join('Hello world. ');
+
+        await fileProvider.writeFile('dir/a.txt', text);
+        await fileProvider.writeFile('dir/sub/b.txt', 'B');
+        await fileProvider.createDir('dir/empty');
+        await fileProvider.writeFile('dir.zip', 'Old zip');
+        spyOn(backend, 'writeFile').and.callThrough();
+        spyOn(backend, 'readFile').and.callThrough();
+
+        await fileProvider.zipFolder('dir', 'dir.zip');
+
+        // Each file is appended to a temporary file once it's compressed, then the central directory.
+        const writes = (<jasmine.Spy> backend.writeFile).calls.all();
+        expect(writes.length).toEqual(4);
+        expect(writes[0].args[0]).toMatch(/^dir\.zip\.\d+\.atomic$/);
+        expect(writes.slice(1).map((call) => call.args[2])).toEqual([true, true, true]);
+        expect((await backend.listDir('')).map((entry) => entry.name).sort()).toEqual(['dir', 'dir.zip']);
+
+        await fileProvider.unzipFile('dir.zip', 'unzipped');
+
+        expect(backend.readFile).not.toHaveBeenCalledWith('dir.zip', jasmine.anything());
+        expect(await fileProvider.readFile('unzipped/a.txt')).toEqual(text);
+        expect(await fileProvider.readFile('unzipped/sub/b.txt')).toEqual('B');
+        expect(await backend.listDir('unzipped/empty')).toEqual([]);
+    });
+
+    it('reads the files in chunks', async () => {
+        const chunks = [],
+            progress = [],
+            texts = [];
+
+        await fileProvider.writeFile('file.txt', 'Añ€ and some text');
+
+        await fileProvider.readFileInChunks('file.txt', (chunk) => {
+            chunks.push([new TextDecoder().decode(<ArrayBuffer> chunk.data), chunk.offset, chunk.length]);
+        }, { chunkSize: 6, offset: 6, length: 10, onProgress: (event) => progress.push(event.loaded + '/' + event.total) });
+
+        expect(chunks).toEqual([[' and s', 6, 6], ['ome ', 12, 4]]);
+        expect(progress).toEqual(['6/10', '10/10']);
+
+        // The characters split between 2 chunks are decoded right.
+        await fileProvider.readFileInChunks('file.txt', (chunk) => {
+            texts.push(chunk.data);
+        }, { chunkSize: 2, format: CoreFileProvider.FORMATTEXT });
+
+        expect(texts.join('')).toEqual('Añ€ and some text');
+        expect(texts[1]).toEqual('ñ');
+    });
+
+    it('stops reading the chunks when the token is canceled', async () => {
+        const token = new CoreCancellationToken();
+        let read = 0,
+            error;
+
+        await fileProvider.writeFile('file.txt', 'Hello world');
+
+        try {
+            await fileProvider.readFileInChunks('file.txt', () => {
+                read++;
+                token.cancel();
+            }, { chunkSize: 2, cancelToken: token });
+        } catch (e) {
+            error = e;
+        }
+
+        expect(read).toEqual(1);
+        expect(error).toEqual(jasmine.any(CoreFileCanceledError));
+        expect(error.path).toEqual('file.txt');
+    });
+
+    it('walks the directories depth-first', async () => {
+        const walked = [];
+
+        await fileProvider.writeFile('dir/a.txt', 'A');
+        await fileProvider.writeFile('dir/sub/b.txt', 'BB');
+        await fileProvider.writeFile('dir/sub/deep/c.txt', 'C');
+        await fileProvider.writeFile('dir/skip/d.txt', 'D');
+
+        await fileProvider.walkDirectory('dir', (walkEntry) => {
+            walked.push(walkEntry.relativePath + ':' + walkEntry.depth + ':' + (walkEntry.isDirectory ? 'dir' : walkEntry.size));
+
+            return walkEntry.relativePath != 'skip';
+        }, { maxDepth: 2 });
+
+        expect(walked.sort()).toEqual(['a.txt:1:1', 'skip:1:dir', 'sub/b.txt:2:2', 'sub/deep:2:dir', 'sub:1:dir']);
+    });
+
+    it('finds the files matching a glob pattern and the filters', async () => {
+        /**
+         * Get the relative paths of the entries found.
+         *
+         * @param pattern Glob pattern.
+         * @param options Options.
+         * @return Promise resolved with the sorted paths.
+         */
+        async function find(pattern: string, options?: any): Promise<string[]> {
+            return (await fileProvider.find('dir', pattern, options)).map((walkEntry) => walkEntry.relativePath).sort();
+        }
+
+        await fileProvider.writeFile('dir/a.json', '{}');
+        await fileProvider.writeFile('dir/images/b.png', 'Image');
+        await fileProvider.writeFile('dir/images/old/c.png', 'Old image');
+        await fileProvider.writeFile('dir/media/audio/d.mp3', 'Audio');
+        await fileProvider.writeFile('dir/media/video/e.mp4', 'Video');
+
+        expect(await find('*.png')).toEqual(['images/b.png', 'images/old/c.png']);
+        expect(await find('images/*.png')).toEqual(['images/b.png']);
+        expect(await find('**/*.png')).toEqual(['images/b.png', 'images/old/c.png']);
+        expect(await find('media/{audio,video}/?.mp[34]')).toEqual(['media/audio/d.mp3', 'media/video/e.mp4']);
+        expect(await find('*.[!p]*')).toEqual(['a.json', 'media/audio/d.mp3', 'media/video/e.mp4']);
+        expect(await find('*', { minSize: 5, maxSize: 6 })).toEqual(['images/b.png', 'media/audio/d.mp3', 'media/video/e.mp4']);
+        expect(await find('*', { maxDepth: 1 })).toEqual(['a.json']);
+        expect(await find('media/*', { includeDirectories: true })).toEqual(['media/audio', 'media/video']);
+        expect(await find('*', { modifiedAfter: new Date(Date.now() + 60000) })).toEqual([]);
+    });
+
+    it('calculates and verifies the hashes of the files in chunks', async () => {
+        await fileProvider.writeFile('file.txt', 'abc');
+
+        expect(await fileProvider.hashFile('file.txt', 'md5', { chunkSize: 1 })).toEqual('900150983cd24fb0d6963f7d28e17f72');
+        expect(await fileProvider.hashFile('file.txt', 'sha1', { chunkSize: 2 })).toEqual('a9993e364706816aba3e25717850c26c9cd0d89d');
+        expect(await fileProvider.hashFile('file.txt')).toEqual('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+
+        expect(await fileProvider.verifyFile('file.txt', 'A9993E364706816ABA3E25717850C26C9CD0D89D')).toBe(true);
+        expect(await fileProvider.verifyFile('file.txt', 'md5:900150983cd24fb0d6963f7d28e17f73')).toBe(false);
+    });
+
+    it('reports the files that don\'t match the manifest', async () => {
+        const manifest = [
+            '# Hashes of the package.',
+            '900150983cd24fb0d6963f7d28e17f72  a.txt',
+            'a9993e364706816aba3e25717850c26c9cd0d89d *sub/b.txt',
+            '900150983cd24fb0d6963f7d28e17f72  ./missing.txt'
+        ].join('\n');
+
+        await fileProvider.writeFile('package/a.txt', 'abc');
+        await fileProvider.writeFile('package/sub/b.txt', 'abd');
+        await fileProvider.writeFile('package/extra.txt', 'Extra');
+
+        expect(await fileProvider.verifyManifest('package', manifest)).toEqual({
+            valid: false,
+            mismatched: ['sub/b.txt'],
+            missing: ['missing.txt'],
+            extra: []
+        });
+
+        await fileProvider.writeFile('package/sub/b.txt', 'abc');
+        expect((await fileProvider.verifyManifest('package', { 'a.txt': '900150983cd24fb0d6963f7d28e17f72' })).valid).toBe(true);
+        expect(await fileProvider.verifyManifest('package', { 'sub/b.txt': '900150983cd24fb0d6963f7d28e17f72' },
+            { algorithm: 'md5', strict: true })).toEqual({
+            valid: false,
+            mismatched: [],
+            missing: [],
+            extra: ['a.txt', 'extra.txt']
+        });
+    });
+
+    describe('with encryption', () => {
+
+        beforeEach(async () => {
+            const key = await CoreFileEncryptedBackend.generateKey();
+
+            fileProvider.enableEncryption({ getKey: (): Promise<CryptoKey> => Promise.resolve(key) });
+        });
+
+        it('returns the size of the decrypted data', async () => {
+            await fileProvider.writeFile('dir/file.txt', 'Hello world');
+            const sizes = [];
+
+            expect(await fileProvider.isFileEncrypted('dir/file.txt')).toBe(true);
+            expect(await fileProvider.getFileSize('dir/file.txt')).toEqual(11);
+            expect(await fileProvider.getDirectorySize('dir')).toEqual(11);
+
+            await fileProvider.walkDirectory('dir', (walkEntry) => {
+                sizes.push(walkEntry.size);
+            });
+            expect(sizes).toEqual([11]);
+        });
+
+        it('resumes the writes of encrypted files', async () => {
+            const path = 'dir/file.txt',
+                data = new Blob(['Hello world']);
+
+            await fileProvider.writeFile(path, 'Hello');
+            await fileProvider.writeFile(path + CoreFileProvider.RESUME_SUFFIX, JSON.stringify({ offset: 5, total: 11 }));
+
+            expect(await (<any> fileProvider).getResumeOffset(data, path)).toEqual(5);
+
+            await fileProvider.writeFileDataInFile(data, path, undefined, 0, false, { resumable: true });
+            expect(await fileProvider.readFile(path)).toEqual('Hello world');
+        });
+    });
+});
@@ -16,10 +16,18 @@ import { Injectable } from '@angular/core';
 import { Platform } from 'ionic-angular';
 import { File, FileEntry, DirectoryEntry, Entry, Metadata } from '@ionic-native/file';
 import { CoreAppProvider } from './app';
+import { CoreEventsProvider, CoreEventFileChangedData, CoreEventObserver } from './events';
 import { CoreLoggerProvider } from './logger';
 import { CoreTextUtilsProvider } from './utils/text';
 import { Zip } from '@ionic-native/zip';
 import { CoreMimetypeUtilsProvider } from './utils/mimetype';
+import { CoreFileCordovaBackend } from '../classess/file-cordova-backend';
+import { CoreFileEncryptedBackend } from '../classess/file-encrypted-backend';
+import { CoreFileTransaction } from '../classess/file-transaction';
+import { CoreCancellationToken } from '../classess/cancellation-token';
+import { CoreFileError, CoreFileCorruptError } from '../classess/file-error';
+import { CoreHash } from '../classess/hash';
+import { CoreZipReader, CoreZipWriter } from '../classess/zip';
 
 /**
  * Progress event used when writing a file data into a file.
@@ -46,8 +54,430 @@ export interface CoreFileProgressEvent {
  */
 export type CoreFileProgressFunction = (event: CoreFileProgressEvent) => void;
 
+/**
+ * Chunk of a file read with readFileInChunks.
+ */
+export interface CoreFileChunk {
+    /**
+     * Data of the chunk: a string if reading as text, an ArrayBuffer otherwise.
+     */
+    data: string | ArrayBuffer;
+
+    /**
+     * Position of the chunk in the file, in bytes.
+     */
+    offset: number;
+
+    /**
+     * Number of bytes of the chunk.
+     */
+    length: number;
+}
+
+/**
+ * Function called with each chunk of a file. If it returns a promise, the next chunk isn't read until it's resolved.
+ */
+export type CoreFileChunkFunction = (chunk: CoreFileChunk) => void | Promise<any>;
+
+/**
+ * Options for readFileInChunks.
+ */
+export interface CoreFileReadChunksOptions {
+    /**
+     * Format to read the chunks: FORMATTEXT or FORMATARRAYBUFFER. Defaults to FORMATARRAYBUFFER.
+     */
+    format?: number;
+
+    /**
+     * Size of each chunk in bytes. Defaults to CHUNK_SIZE.
+     */
+    chunkSize?: number;
+
+    /**
+     * Position where to start reading, in bytes. Defaults to 0.
+     */
+    offset?: number;
+
+    /**
+     * Number of bytes to read. Defaults to the rest of the file.
+     */
+    length?: number;
+
+    /**
+     * Function to call on progress.
+     */
+    onProgress?: CoreFileProgressFunction;
+
+    /**
+     * Token to stop reading. The promise is rejected with a CoreFileCanceledError.
+     */
+    cancelToken?: CoreCancellationToken;
+}
+
+/**
+ * Options for writeFileDataInFile.
+ */
+export interface CoreFileWriteOptions {
+    /**
+     * Token to stop writing. The promise is rejected with a CoreFileCanceledError.
+     */
+    cancelToken?: CoreCancellationToken;
+
+    /**
+     * Whether to store the progress in a sidecar file, so a write that is interrupted (canceled, failed or app closed)
+     * continues where it stopped the next time the same data is written in the same path.
+     */
+    resumable?: boolean;
+}
+
+/**
+ * Options for zipFiles and zipFolder.
+ */
+export interface CoreFileZipOptions {
+    /**
+     * Whether to compress the files. Defaults to true. If false, the files are only stored.
+     */
+    compress?: boolean;
+
+    /**
+     * Token to stop creating the zip. The promise is rejected with a CoreFileCanceledError.
+     */
+    cancelToken?: CoreCancellationToken;
+}
+
+/**
+ * Entry found by walkDirectory or find.
+ */
+export interface CoreFileWalkEntry {
+    /**
+     * The file or directory entry.
+     */
+    entry: Entry;
+
+    /**
+     * Path of the entry relative to the base path.
+     */
+    path: string;
+
+    /**
+     * Path of the entry relative to the directory being walked.
+     */
+    relativePath: string;
+
+    /**
+     * Depth of the entry: 1 for the direct children of the directory being walked, 2 for their children, etc.
+     */
+    depth: number;
+
+    /**
+     * Whether the entry is a directory.
+     */
+    isDirectory: boolean;
+
+    /**
+     * Size in bytes. Some platforms return 0 for directories.
+     */
+    size: number;
+
+    /**
+     * Last modification time.
+     */
+    modificationTime: Date;
+}
+
+/**
+ * Function called with each entry found by walkDirectory. If it returns false (or a promise resolved with false) for
+ * a directory, its contents aren't walked.
+ */
+export type CoreFileWalkFunction = (entry: CoreFileWalkEntry) => void | boolean | Promise<void | boolean>;
+
+/**
+ * Options for walkDirectory.
+ */
+export interface CoreFileWalkOptions {
+    /**
+     * Maximum depth to walk. 1 means only the direct children. Defaults to no limit.
+     */
+    maxDepth?: number;
+
+    /**
+     * Token to stop walking. The promise is rejected with a CoreFileCanceledError.
+     */
+    cancelToken?: CoreCancellationToken;
+}
+
+/**
+ * Options for find.
+ */
+export interface CoreFileFindOptions extends CoreFileWalkOptions {
+    /**
+     * Minimum size of the files, in bytes.
+     */
+    minSize?: number;
+
+    /**
+     * Maximum size of the files, in bytes.
+     */
+    maxSize?: number;
+
+    /**
+     * Only return entries modified after this date.
+     */
+    modifiedAfter?: Date;
+
+    /**
+     * Only return entries modified before this date.
+     */
+    modifiedBefore?: Date;
+
+    /**
+     * Only return files whose extension belongs to any of these mimetype groups (e.g. 'image', 'web_video').
+     */
+    mimetypeGroups?: string[];
+
+    /**
+     * Whether to return directories too. Defaults to false. The size and mimetype filters aren't applied to directories.
+     */
+    includeDirectories?: boolean;
+}
+
+/**
+ * Options for hashFile and verifyFile.
+ */
+export interface CoreFileHashOptions {
+    /**
+     * Size of the chunks to read, in bytes. Defaults to CHUNK_SIZE.
+     */
+    chunkSize?: number;
+
+    /**
+     * Function to call on progress.
+     */
+    onProgress?: CoreFileProgressFunction;
+
+    /**
+     * Token to stop hashing. The promise is rejected with a CoreFileCanceledError.
+     */
+    cancelToken?: CoreCancellationToken;
+}
+
+/**
+ * Options for verifyManifest.
+ */
+export interface CoreFileManifestOptions {
+    /**
+     * Algorithm of the hashes. Defaults to the one guessed from each hash.
+     */
+    algorithm?: string;
+
+    /**
+     * Whether the files not listed in the manifest make the folder invalid. Defaults to false.
+     */
+    strict?: boolean;
+
+    /**
+     * Function to call on progress. The progress is the number of files checked.
+     */
+    onProgress?: CoreFileProgressFunction;
+
+    /**
+     * Token to stop verifying. The promise is rejected with a CoreFileCanceledError.
+     */
+    cancelToken?: CoreCancellationToken;
+}
+
+/**
+ * Result of verifyManifest. The paths are relative to the folder.
+ */
+export interface CoreFileManifestResult {
+    /**
+     * Whether all the files are valid.
+     */
+    valid: boolean;
+
+    /**
+     * Files whose hash doesn't match.
+     */
+    mismatched: string[];
+
+    /**
+     * Files listed in the manifest that don't exist or cannot be read.
+     */
+    missing: string[];
+
+    /**
+     * Files not listed in the manifest. Only calculated in strict mode.
+     */
+    extra: string[];
+}
+
+/**
+ * Provides the keys to encrypt the files, see CoreFileProvider.enableEncryption.
+ */
+export interface CoreFileKeyProvider {
+    /**
+     * Get the key to encrypt or decrypt a file. A file must always get the same key, even if it's moved or copied.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with an AES-GCM key that can encrypt and decrypt.
+     */
+    getKey(path: string): Promise<CryptoKey>;
+}
+
+/**
+ * Options of the encrypted storage.
+ */
+export interface CoreFileEncryptionOptions {
+    /**
+     * Relative paths of the folders or files to encrypt, e.g. ['sites']. If not set, all the files are encrypted.
+     */
+    paths?: string[];
+}
+
+/**
+ * Progress of a resumable write, stored in the sidecar file.
+ */
+interface CoreFileResumeData {
+    offset: number; // Bytes already written.
+    total: number; // Size of the data being written.
+    lastModified?: number; // Last modification of the data being written, if it's a File.
+}
+
+/**
+ * Storage backend used by CoreFileProvider to access the files. The paths received are relative to the base path.
+ * The entries returned must implement the parts of the Cordova Entry API used by CoreFileProvider.
+ */
+export interface CoreFileBackend {
+    /**
+     * Initialize the backend.
+     *
+     * @return Promise resolved with the base path.
+     */
+    init(): Promise<string>;
+
+    /**
+     * Get a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with the file.
+     */
+    getFile(path: string): Promise<FileEntry>;
+
+    /**
+     * Get a directory.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the directory.
+     */
+    getDir(path: string): Promise<DirectoryEntry>;
+
+    /**
+     * Create a directory, including the parent directories.
+     *
+     * @param path Relative path to the directory.
+     * @param failIfExists True if it should fail if the directory exists, false otherwise.
+     * @return Promise resolved with the directory.
+     */
+    createDir(path: string, failIfExists?: boolean): Promise<DirectoryEntry>;
+
+    /**
+     * Create a file, including the parent directories.
+     *
+     * @param path Relative path to the file.
+     * @param failIfExists True if it should fail if the file exists, false otherwise.
+     * @return Promise resolved with the file.
+     */
+    createFile(path: string, failIfExists?: boolean): Promise<FileEntry>;
+
+    /**
+     * Remove a directory and all its contents.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved when done.
+     */
+    removeDir(path: string): Promise<any>;
+
+    /**
+     * Remove a file.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved when done.
+     */
+    removeFile(path: string): Promise<any>;
+
+    /**
+     * Get the contents of a directory (not subdirectories).
+     *
+     * @param path Relative path to the directory.
+     * @return Promise resolved with the entries.
+     */
+    listDir(path: string): Promise<Entry[]>;
+
+    /**
+     * Read a file.
+     *
+     * @param path Relative path to the file.
+     * @param format Format to read the file: FORMATTEXT, FORMATDATAURL, FORMATBINARYSTRING or FORMATARRAYBUFFER.
+     * @return Promise resolved with the contents.
+     */
+    readFile(path: string, format: number): Promise<any>;
+
+    /**
+     * Read a part of a file.
+     *
+     * @param path Relative path to the file.
+     * @param offset Position where to start reading, in bytes.
+     * @param length Number of bytes to read.
+     * @return Promise resolved with the data read. It can be shorter than length if the end of the file is reached.
+     */
+    readFileChunk(path: string, offset: number, length: number): Promise<ArrayBuffer>;
+
+    /**
+     * Write some data in a file. The file and its parent directories are created if needed.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write.
+     * @param append Whether to append the data to the end of the file.
+     * @return Promise resolved with the file.
+     */
+    writeFile(path: string, data: any, append?: boolean): Promise<FileEntry>;
+
+    /**
+     * Copy or move a file or a directory. The parent directory of the destination must exist.
+     *
+     * @param from Relative path to the file/dir.
+     * @param to Relative new path of the file/dir.
+     * @param isDir Whether it's a dir or a file.
+     * @param copy Whether to copy. If false, it will move the file.
+     * @return Promise resolved with the new entry.
+     */
+    copyOrMove(from: string, to: string, isDir: boolean, copy: boolean): Promise<Entry>;
+
+    /**
+     * Get the metadata of a file or directory.
+     *
+     * @param path Relative path to the file/dir.
+     * @param isDir True if directory, false if file.
+     * @return Promise resolved with the metadata.
+     */
+    getMetadata(path: string, isDir?: boolean): Promise<Metadata>;
+
+    /**
+     * Calculate the free space available. Optional.
+     *
+     * @return Promise resolved with the estimated free space in bytes.
+     */
+    calculateFreeSpace?(): Promise<number>;
+}
+
 /**
  * Factory to interact with the file system.
+ *
+ * The files are accessed through a storage backend. By default it uses the Cordova File plugin, use setBackend to use a
+ * different one, e.g. CoreFileIndexedDBBackend in browsers or CoreFileMemoryBackend in unit tests.
+ *
+ * The promises are rejected with a CoreFileError (e.g. CoreFileNotFoundError or CoreFileCanceledError), with the path,
+ * the operation and the original error.
  */
 @Injectable()
 export class CoreFileProvider {
@@ -63,11 +493,16 @@ export class CoreFileProvider {
     static TMPFOLDER = 'tmp';
 
     static CHUNK_SIZE = 1048576; // 1 MB. Same chunk size as Ionic Native.
+    static RESUME_SUFFIX = '.resume'; // Suffix of the sidecar files of the resumable writes.
+    static ATOMIC_SUFFIX = '.atomic'; // Suffix of the temporary files of the atomic writes.
+    static COPY_SUFFIX = '.copying'; // Suffix of the temporary copies done with a cancel token.
 
     protected logger;
     protected initialized = false;
     protected basePath = '';
     protected isHTMLAPI = false;
+    protected cordovaBackend: CoreFileCordovaBackend;
+    protected backend: CoreFileBackend;
 
     constructor(logger: CoreLoggerProvider,
         appProvider: CoreAppProvider,
@@ -76,10 +511,13 @@ export class CoreFileProvider {
         protected textUtils: CoreTextUtilsProvider,
         protected zip: Zip,
         private coreApp: CoreAppProvider,
-        private mimeUtils: CoreMimetypeUtilsProvider
+        private mimeUtils: CoreMimetypeUtilsProvider,
+        protected eventsProvider: CoreEventsProvider
     ) {
 
         this.logger = logger.getInstance('CoreFileProvider');
+        this.cordovaBackend = new CoreFileCordovaBackend(file, platform, coreApp, mimeUtils, textUtils, this.logger);
+        this.backend = this.cordovaBackend;
 
         if (appProvider.isAndroid() && !Object.getOwnPropertyDescriptor(FileReader.prototype, 'onloadend')) {
             // Cordova File plugin creates some getters and setter for FileReader, but Ionic's polyfills override them in Android.
@@ -154,6 +592,81 @@ export class CoreFileProvider {
     setHTMLBasePath(path: string): void {
         this.isHTMLAPI = true;
         this.basePath = path;
+        this.cordovaBackend.setHTMLBasePath(path);
+    }
+
+    /**
+     * Set the storage backend to use. The provider will be initialized again with the new backend.
+     *
+     * @param backend Backend to use. If not set, use the Cordova backend.
+     */
+    setBackend(backend?: CoreFileBackend): void {
+        this.backend = backend || this.cordovaBackend;
+        this.initialized = false;
+        this.basePath = '';
+    }
+
+    /**
+     * Get the storage backend in use.
+     *
+     * @return Backend.
+     */
+    getBackend(): CoreFileBackend {
+        return this.backend;
+    }
+
+    /**
+     * Encrypt the files written from now on using AES-GCM. The files are decrypted when read with readFile,
+     * readFileInChunks, etc. Existing files that aren't encrypted can still be read.
+     * The encryption wraps the current backend, so call setBackend before this function if needed.
+     *
+     * Please notice the URLs of the files and the File objects return the encrypted data, so don't encrypt
+     * files that are displayed or shared using their URL or File object.
+     *
+     * @param keyProvider Provider of the encryption keys.
+     * @param options Options.
+     */
+    enableEncryption(keyProvider: CoreFileKeyProvider, options: CoreFileEncryptionOptions = {}): void {
+        this.disableEncryption();
+        this.backend = new CoreFileEncryptedBackend(this.backend, keyProvider, options, this.logger);
+    }
+
+    /**
+     * Stop encrypting the files written. Encrypted files cannot be read until encryption is enabled again.
+     */
+    disableEncryption(): void {
+        if (this.backend instanceof CoreFileEncryptedBackend) {
+            this.backend = this.backend.getBackend();
+        }
+    }
+
+    /**
+     * Check whether the encryption is enabled.
+     *
+     * @return Whether it's enabled.
+     */
+    isEncryptionEnabled(): boolean {
+        return this.backend instanceof CoreFileEncryptedBackend;
+    }
+
+    /**
+     * Check whether a file is stored encrypted.
+     *
+     * @param path Relative path to the file.
+     * @return Promise resolved with a boolean.
+     */
+    async isFileEncrypted(path: string): Promise<boolean> {
+        try {
+            await this.init();
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+
+            const backend = this.backend instanceof CoreFileEncryptedBackend ? this.backend.getBackend() : this.backend;
+            const data = await backend.readFileChunk(path, 0, CoreFileEncryptedBackend.HEADER_LENGTH);
+
+            return CoreFileEncryptedBackend.isEncrypted(data);
+        } catch (error) {
+            throw this.createError(error, path, 'isFileEncrypted');
+        }
     }
 
     /**
@@ -175,21 +688,11 @@ export class CoreFileProvider {
             return Promise.resolve();
         }
 
-        return this.platform.ready().then(() => {
-
-            if (this.coreApp.isAndroid()) {
-                this.basePath = this.file.externalApplicationStorageDirectory || this.basePath;
-            } else if (this.coreApp.isIOS()) {
-                this.basePath = this.file.documentsDirectory || this.basePath;
-            } else if (this.basePath === '') {
-                this.logger.error('Error getting device OS.');
-
-                return Promise.reject(null);
-            }
-
+        return this.handleErrors(this.backend.init().then((basePath) => {
+            this.basePath = basePath;
             this.initialized = true;
             this.logger.debug('FS initialized: ' + this.basePath);
-        });
+        }), undefined, 'init');
     }
 
 
@@ -200,13 +703,11 @@ export class CoreFileProvider {
      * @return Promise resolved when the file is retrieved.
      */
     getFile(path: string): Promise<FileEntry> {
-        return this.init().then(() => {
+        return this.handleErrors(this.init().then(() => {
             this.logger.debug('Get file: ' + path);
 
-            return this.file.resolveLocalFilesystemUrl(this.addBasePathIfNeeded(path));
-        }).then((entry) => {
-            return <FileEntry>entry;
-        });
+            return this.backend.getFile(path);
+        }), path, 'getFile');
     }
 
     /**
@@ -216,11 +717,11 @@ export class CoreFileProvider {
      * @return Promise resolved when the directory is retrieved.
      */
     getDir(path: string): Promise<DirectoryEntry> {
-        return this.init().then(() => {
+        return this.handleErrors(this.init().then(() => {
             this.logger.debug('Get directory: ' + path);
 
-            return this.file.resolveDirectoryUrl(this.addBasePathIfNeeded(path));
-        });
+            return this.backend.getDir(path);
+        }), path, 'getDir');
     }
 
     /**
@@ -239,133 +740,406 @@ export class CoreFileProvider {
      * @param isDirectory True if a directory should be created, false if it should create a file.
      * @param path Relative path to the dir/file.
      * @param failIfExists True if it should fail if the dir/file exists, false otherwise.
-     * @param base Base path to create the dir/file in. If not set, use basePath.
      * @return Promise to be resolved when the dir/file is created.
      */
-    protected create(isDirectory: boolean, path: string, failIfExists?: boolean, base?: string): Promise<any> {
-        return this.init().then(() => {
+    protected async create(isDirectory: boolean, path: string, failIfExists?: boolean): Promise<any> {
+        await this.init();
+
+        // Remove basePath if it's in the path.
+        path = this.removeStartingSlash(path.replace(this.basePath, ''));
+
+        const existed = !failIfExists && await this.entryExists(path, isDirectory);
+        const entry: Entry = isDirectory ? await this.backend.createDir(path, failIfExists) :
+            await this.backend.createFile(path, failIfExists);
+
+        if (!existed) {
+            this.notifyChange('created', path, isDirectory);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Create a directory.
+     *
+     * @param path Relative path to the directory.
+     * @param failIfExists True if it should fail if the directory exists, false otherwise.
+     * @return Promise to be resolved when the directory is created.
+     */
+    createDir(path: string, failIfExists?: boolean): Promise<DirectoryEntry> {
+        return this.handleErrors(this.create(true, path, failIfExists), path, 'createDir');
+    }
+
+    /**
+     * Create a file.
+     *
+     * @param path Relative path to the file.
+     * @param failIfExists True if it should fail if the file exists, false otherwise..
+     * @return Promise to be resolved when the file is created.
+     */
+    createFile(path: string, failIfExists?: boolean): Promise<FileEntry> {
+        return this.handleErrors(this.create(false, path, failIfExists), path, 'createFile');
+    }
+
+    /**
+     * Removes a directory and all its contents.
+     *
+     * @param path Relative path to the directory.
+     * @return Promise to be resolved when the directory is deleted.
+     */
+    removeDir(path: string): Promise<any> {
+        return this.handleErrors(this.init().then(() => {
             // Remove basePath if it's in the path.
             path = this.removeStartingSlash(path.replace(this.basePath, ''));
-            base = base || this.basePath;
+            this.logger.debug('Remove directory: ' + path);
 
-            if (path.indexOf('/') == -1) {
-                if (isDirectory) {
-                    this.logger.debug('Create dir ' + path + ' in ' + base);
+            return this.backend.removeDir(path);
+        }).then((result) => {
+            this.notifyChange('removed', path, true);
 
-                    return this.file.createDir(base, path, !failIfExists);
-                } else {
-                    this.logger.debug('Create file ' + path + ' in ' + base);
+            return result;
+        }), path, 'removeDir');
+    }
 
-                    return this.file.createFile(base, path, !failIfExists);
-                }
-            } else {
-                // The file plugin doesn't allow creating more than 1 level at a time (e.g. tmp/folder).
-                // We need to create them 1 by 1.
-                const firstDir = path.substr(0, path.indexOf('/')),
-                    restOfPath = path.substr(path.indexOf('/') + 1);
+    /**
+     * Removes a file and all its contents.
+     *
+     * @param path Relative path to the file.
+     * @return Promise to be resolved when the file is deleted.
+     */
+    removeFile(path: string): Promise<any> {
+        return this.handleErrors(this.init().then(() => {
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+            this.logger.debug('Remove file: ' + path);
+
+            return this.backend.removeFile(path);
+        }).then((result) => {
+            this.notifyChange('removed', path, false);
+
+            return result;
+        }), path, 'removeFile');
+    }
+
+    /**
+     * Removes a file given its FileEntry.
+     *
+     * @param fileEntry File Entry.
+     * @return Promise resolved when the file is deleted.
+     */
+    removeFileByFileEntry(fileEntry: any): Promise<any> {
+        return this.handleErrors(new Promise((resolve, reject): void => {
+            fileEntry.remove(resolve, reject);
+        }).then((result) => {
+            this.notifyChange('removed', this.removeStartingSlash(fileEntry.toURL().replace(this.basePath, '')), false);
+
+            return result;
+        }), fileEntry && fileEntry.fullPath, 'removeFileByFileEntry');
+    }
+
+    /**
+     * Listen for changes in the files and directories inside a path. It's also notified when a parent directory
+     * of the path is removed or moved.
+     *
+     * const observer = fileProvider.onChange(fileProvider.getSiteFolder(siteId), (data) => { refresh(); });
+     * ...
+     * observer.off();
+     *
+     * @param pathPrefix Relative path to watch. Use an empty string to watch all the files.
+     * @param callBack Function to call when a file or directory changes.
+     * @param siteId Only notify changes of this site. Undefined to notify changes of any site.
+     * @return Observer to stop listening.
+     */
+    onChange(pathPrefix: string, callBack: (data: CoreEventFileChangedData) => void, siteId?: string): CoreEventObserver {
+        const prefix = this.removeStartingSlash(pathPrefix.replace(this.basePath, '')).replace(/\/+$/, '');
+
+        return this.eventsProvider.on(CoreEventsProvider.FILE_CHANGED, (data) => {
+            if (this.isChangeInPath(data.path, prefix, data.isDirectory) ||
+                (data.oldPath && this.isChangeInPath(data.oldPath, prefix, data.isDirectory))) {
+                callBack(data);
+            }
+        }, siteId);
+    }
+
+    /**
+     * Check whether a change affects a certain path: the changed path is inside it, or it's a parent directory.
+     *
+     * @param changedPath Path that changed.
+     * @param path Path to check.
+     * @param isDirectory Whether the path that changed is a directory.
+     * @return Whether it affects the path.
+     */
+    protected isChangeInPath(changedPath: string, path: string, isDirectory: boolean): boolean {
+        return !path || changedPath == path || changedPath.indexOf(path + '/') === 0 ||
+            (isDirectory && path.indexOf(changedPath + '/') === 0);
+    }
 
-                this.logger.debug('Create dir ' + firstDir + ' in ' + base);
+    /**
+     * Trigger a FILE_CHANGED event.
+     *
+     * @param action Change done.
+     * @param path Relative path of the entry.
+     * @param isDirectory Whether the entry is a directory.
+     * @param oldPath Previous path of the entry if it was moved.
+     */
+    protected notifyChange(action: CoreEventFileChangedData['action'], path: string, isDirectory: boolean, oldPath?: string)
+        : void {
+
+        const parts = path.split('/'),
+            siteId = parts[0] == CoreFileProvider.SITESFOLDER && parts[1] ? parts[1] : undefined;
+
+        this.eventsProvider.trigger(CoreEventsProvider.FILE_CHANGED, {
+            action: action,
+            path: path,
+            oldPath: oldPath,
+            isDirectory: isDirectory
+        }, siteId);
+    }
 
-                return this.file.createDir(base, firstDir, true).then((newDirEntry) => {
-                    return this.create(isDirectory, restOfPath, failIfExists, newDirEntry.toURL());
-                }).catch((error) => {
-                    this.logger.error('Error creating directory ' + firstDir + ' in ' + base);
+    /**
+     * Check whether a file or directory exists.
+     *
+     * @param path Relative path, without the base path.
+     * @param isDirectory Whether it's a directory.
+     * @return Promise resolved with whether it exists.
+     */
+    protected entryExists(path: string, isDirectory: boolean): Promise<boolean> {
+        const promise: Promise<Entry> = isDirectory ? this.backend.getDir(path) : this.backend.getFile(path);
 
-                    return Promise.reject(error);
-                });
-            }
+        return promise.then(() => {
+            return true;
+        }).catch(() => {
+            return false;
         });
     }
 
     /**
-     * Create a directory.
+     * Convert an error to a file error with the path and the operation that failed.
      *
-     * @param path Relative path to the directory.
-     * @param failIfExists True if it should fail if the directory exists, false otherwise.
-     * @return Promise to be resolved when the directory is created.
+     * @param error Original error.
+     * @param path Path of the file or directory.
+     * @param operation Operation that failed.
+     * @return File error.
      */
-    createDir(path: string, failIfExists?: boolean): Promise<DirectoryEntry> {
-        return this.create(true, path, failIfExists);
+    protected createError(error: any, path: string, operation: string): CoreFileError {
+        if (typeof path == 'string' && this.basePath) {
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+        }
+
+        return CoreFileError.fromError(error, path, operation);
     }
 
     /**
-     * Create a file.
+     * Convert the error of a promise to a file error.
      *
-     * @param path Relative path to the file.
-     * @param failIfExists True if it should fail if the file exists, false otherwise..
-     * @return Promise to be resolved when the file is created.
+     * @param promise Promise.
+     * @param path Path of the file or directory.
+     * @param operation Operation.
+     * @return Promise rejected with a file error if the original one fails.
      */
-    createFile(path: string, failIfExists?: boolean): Promise<FileEntry> {
-        return this.create(false, path, failIfExists);
+    protected handleErrors<T>(promise: Promise<T>, path: string, operation: string): Promise<T> {
+        return promise.catch((error) => {
+            return Promise.reject(this.createError(error, path, operation));
+        });
     }
 
     /**
-     * Removes a directory and all its contents.
+     * Retrieve the contents of a directory (not subdirectories).
      *
      * @param path Relative path to the directory.
-     * @return Promise to be resolved when the directory is deleted.
+     * @return Promise to be resolved when the contents are retrieved.
      */
-    removeDir(path: string): Promise<any> {
-        return this.init().then(() => {
+    getDirectoryContents(path: string): Promise<any> {
+        return this.handleErrors(this.init().then(() => {
             // Remove basePath if it's in the path.
             path = this.removeStartingSlash(path.replace(this.basePath, ''));
-            this.logger.debug('Remove directory: ' + path);
+            this.logger.debug('Get contents of dir: ' + path);
 
-            return this.file.removeRecursively(this.basePath, path);
-        });
+            return this.backend.listDir(path);
+        }), path, 'getDirectoryContents');
     }
 
     /**
-     * Removes a file and all its contents.
+     * Walk a directory recursively, calling a function for each file and directory found. The entries are walked
+     * depth-first: the contents of a directory are walked right after the directory.
      *
-     * @param path Relative path to the file.
-     * @return Promise to be resolved when the file is deleted.
+     * fileProvider.walkDirectory(path, (walkEntry) => { total += walkEntry.size; }, {maxDepth: 2});
+     *
+     * @param path Relative path to the directory.
+     * @param onEntry Function to call with each entry. If it returns a promise, the walk waits for it.
+     * @param options Options.
+     * @return Promise resolved when all the entries have been walked.
      */
-    removeFile(path: string): Promise<any> {
-        return this.init().then(() => {
+    async walkDirectory(path: string, onEntry: CoreFileWalkFunction, options: CoreFileWalkOptions = {}): Promise<void> {
+        try {
             // Remove basePath if it's in the path.
             path = this.removeStartingSlash(path.replace(this.basePath, ''));
-            this.logger.debug('Remove file: ' + path);
 
-            return this.file.removeFile(this.basePath, path).catch((error) => {
-                // The delete can fail if the path has encoded characters. Try again if that's the case.
-                const decodedPath = decodeURI(path);
+            await this.walkDirectoryLevel(path, '', 1, onEntry, options);
+        } catch (error) {
+            throw this.createError(error, path, 'walkDirectory');
+        }
+    }
 
-                if (decodedPath != path) {
-                    return this.file.removeFile(this.basePath, decodedPath);
-                } else {
-                    return Promise.reject(error);
+    /**
+     * Walk the contents of a directory and its subdirectories.
+     *
+     * @param path Relative path to the directory.
+     * @param relativePath Path of the directory relative to the directory being walked.
+     * @param depth Depth of the contents of the directory.
+     * @param onEntry Function to call with each entry.
+     * @param options Options.
+     * @return Promise resolved when done.
+     */
+    protected async walkDirectoryLevel(path: string, relativePath: string, depth: number, onEntry: CoreFileWalkFunction,
+        options: CoreFileWalkOptions): Promise<void> {
+
+        const entries: Entry[] = await this.getDirectoryContents(path);
+
+        for (let i = 0; i < entries.length; i++) {
+            options.cancelToken && options.cancelToken.throwIfCanceled();
+
+            const entry = entries[i],
+                metadata = await this.getEntryMetadata(entry);
+            const walkEntry: CoreFileWalkEntry = {
+                entry: entry,
+                path: this.textUtils.concatenatePaths(path, entry.name),
+                relativePath: this.textUtils.concatenatePaths(relativePath, entry.name),
+                depth: depth,
+                isDirectory: entry.isDirectory,
+                size: metadata.size,
+                modificationTime: metadata.modificationTime
+            };
+
+            const result = await onEntry(walkEntry);
+
+            if (entry.isDirectory && result !== false && (!options.maxDepth || depth < options.maxDepth)) {
+                await this.walkDirectoryLevel(walkEntry.path, walkEntry.relativePath, depth + 1, onEntry, options);
+            }
+        }
+    }
+
+    /**
+     * Search files in a directory and its subdirectories.
+     * The pattern is a glob matched against the path relative to the directory, e.g. 'images/*.png', '{audio,video}/*.mp3' or 'media/**'.
+     * If the pattern doesn't contain any slash, it's matched against the name of the entries at any depth, e.g. '*.json'.
+     *
+     * @param path Relative path to the directory.
+     * @param pattern Glob pattern. Supports *, **, ?, [abc], [!abc] and {a,b}.
+     * @param options Options.
+     * @return Promise resolved with the entries found.
+     */
+    async find(path: string, pattern: string, options: CoreFileFindOptions = {}): Promise<CoreFileWalkEntry[]> {
+        try {
+            const regex = this.globToRegExp(pattern),
+                matchName = pattern.indexOf('/') == -1,
+                found: CoreFileWalkEntry[] = [];
+
+            await this.walkDirectory(path, (walkEntry) => {
+                if (walkEntry.isDirectory && !options.includeDirectories) {
+                    return;
                 }
-            });
-        });
+
+                if (regex.test(matchName ? walkEntry.entry.name : walkEntry.relativePath) && this.matchesFindFilters(walkEntry, options)) {
+                    found.push(walkEntry);
+                }
+            }, options);
+
+            return found;
+        } catch (error) {
+            throw this.createError(error, path, 'find');
+        }
     }
 
     /**
-     * Removes a file given its FileEntry.
+     * Check whether an entry matches the filters of find.
      *
-     * @param fileEntry File Entry.
-     * @return Promise resolved when the file is deleted.
+     * @param walkEntry Entry to check.
+     * @param options Options of find.
+     * @return Whether it matches.
      */
-    removeFileByFileEntry(fileEntry: any): Promise<any> {
-        return new Promise((resolve, reject): void => {
-            fileEntry.remove(resolve, reject);
-        });
+    protected matchesFindFilters(walkEntry: CoreFileWalkEntry, options: CoreFileFindOptions): boolean {
+        const time = walkEntry.modificationTime ? new Date(walkEntry.modificationTime).getTime() : 0;
+
+        if ((options.modifiedAfter && time <= options.modifiedAfter.getTime()) ||
+            (options.modifiedBefore && time >= options.modifiedBefore.getTime())) {
+            return false;
+        }
+
+        if (walkEntry.isDirectory) {
+            return true;
+        }
+
+        if ((typeof options.minSize == 'number' && walkEntry.size < options.minSize) ||
+            (typeof options.maxSize == 'number' && walkEntry.size > options.maxSize)) {
+            return false;
+        }
+
+        if (options.mimetypeGroups && options.mimetypeGroups.length) {
+            const extension = this.mimeUtils.getFileExtension(walkEntry.entry.name);
+
+            return !!extension && this.mimeUtils.isExtensionInGroup(extension, options.mimetypeGroups);
+        }
+
+        return true;
     }
 
     /**
-     * Retrieve the contents of a directory (not subdirectories).
+     * Convert a glob pattern to a regular expression.
      *
-     * @param path Relative path to the directory.
-     * @return Promise to be resolved when the contents are retrieved.
+     * @param pattern Glob pattern.
+     * @return Regular expression.
      */
-    getDirectoryContents(path: string): Promise<any> {
-        return this.init().then(() => {
-            // Remove basePath if it's in the path.
-            path = this.removeStartingSlash(path.replace(this.basePath, ''));
-            this.logger.debug('Get contents of dir: ' + path);
+    protected globToRegExp(pattern: string): RegExp {
+        let regex = '',
+            inGroup = false;
+
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+
+            switch (char) {
+                case '*':
+                    if (pattern[i + 1] != '*') {
+                        regex += '[^/]*';
+                    } else if (pattern[i + 2] == '/') {
+                        // Any number of directories, including none.
+                        regex += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        regex += '.*';
+                        i++;
+                    }
+                    break;
+                case '?':
+                    regex += '[^/]';
+                    break;
+                case '[':
+                    const end = pattern.indexOf(']', i + 1);
+                    if (end == -1) {
+                        regex += '\\[';
+                    } else {
+                        const chars = pattern.substring(i + 1, end).replace(/\\/g, '\\\\');
+                        regex += '[' + (chars[0] == '!' ? '^' + chars.substr(1) : chars) + ']';
+                        i = end;
+                    }
+                    break;
+                case '{':
+                    inGroup = true;
+                    regex += '(?:';
+                    break;
+                case '}':
+                    regex += inGroup ? ')' : '\\}';
+                    inGroup = false;
+                    break;
+                case ',':
+                    regex += inGroup ? '|' : ',';
+                    break;
+                default:
+                    regex += char.replace(/[.+^$()|\\\]]/, '\\$&');
+            }
+        }
 
-            return this.file.listDir(this.basePath, path);
-        });
+        return new RegExp('^' + regex + '$');
     }
 
     /**
@@ -403,6 +1177,11 @@ export class CoreFileProvider {
 
                 }, reject);
 
+            } else if (entry.isFile && this.backend instanceof CoreFileEncryptedBackend) {
+                // The size of the stored file is the size of the encrypted data.
+                this.getEntryMetadata(entry).then((metadata) => {
+                    resolve(metadata.size);
+                }, reject);
             } else if (entry.isFile) {
                 entry.file((file) => {
                     resolve(file.size);
@@ -423,9 +1202,9 @@ export class CoreFileProvider {
 
         this.logger.debug('Get size of dir: ' + path);
 
-        return this.getDir(path).then((dirEntry) => {
+        return this.handleErrors(this.getDir(path).then((dirEntry) => {
             return this.getSize(dirEntry);
-        });
+        }), path, 'getDirectorySize');
     }
 
     /**
@@ -440,9 +1219,9 @@ export class CoreFileProvider {
 
         this.logger.debug('Get size of file: ' + path);
 
-        return this.getFile(path).then((fileEntry) => {
+        return this.handleErrors(this.getFile(path).then((fileEntry) => {
             return this.getSize(fileEntry);
-        });
+        }), path, 'getFileSize');
     }
 
     /**
@@ -452,10 +1231,10 @@ export class CoreFileProvider {
      * @return Promise to be resolved when the file is retrieved.
      */
     getFileObjectFromFileEntry(entry: FileEntry): Promise<any> {
-        return new Promise((resolve, reject): void => {
+        return this.handleErrors(new Promise((resolve, reject): void => {
             this.logger.debug('Get file object of: ' + entry.fullPath);
             entry.file(resolve, reject);
-        });
+        }), entry && entry.fullPath, 'getFileObjectFromFileEntry');
     }
 
     /**
@@ -465,15 +1244,12 @@ export class CoreFileProvider {
      * @return Promise resolved with the estimated free space in bytes.
      */
     calculateFreeSpace(): Promise<number> {
-        return this.file.getFreeDiskSpace().then((size) => {
-            if (this.coreApp.isIOS()) {
-                // In iOS the size is in bytes.
-                return Number(size);
-            }
+        if (!this.backend.calculateFreeSpace) {
+            return Promise.reject(new CoreFileError('The storage backend cannot calculate the free space.', undefined,
+                'calculateFreeSpace'));
+        }
 
-            // The size is in KB, convert it to bytes.
-            return Number(size) * 1024;
-        });
+        return this.handleErrors(this.backend.calculateFreeSpace(), undefined, 'calculateFreeSpace');
     }
 
 
@@ -490,30 +1266,265 @@ export class CoreFileProvider {
      * @return Promise to be resolved when the file is read.
      */
     readFile(path: string, format: number = CoreFileProvider.FORMATTEXT): Promise<any> {
-        // Remove basePath if it's in the path.
-        path = this.removeStartingSlash(path.replace(this.basePath, ''));
-        this.logger.debug('Read file ' + path + ' with format ' + format);
-
-        switch (format) {
-            case CoreFileProvider.FORMATDATAURL:
-                return this.file.readAsDataURL(this.basePath, path);
-            case CoreFileProvider.FORMATBINARYSTRING:
-                return this.file.readAsBinaryString(this.basePath, path);
-            case CoreFileProvider.FORMATARRAYBUFFER:
-                return this.file.readAsArrayBuffer(this.basePath, path);
-            case CoreFileProvider.FORMATJSON:
-                return this.file.readAsText(this.basePath, path).then((text) => {
-                    const parsed = this.textUtils.parseJSON(text, null);
-
-                    if (parsed == null && text != null) {
-                        return Promise.reject('Error parsing JSON file: ' + path);
+        return this.handleErrors(this.init().then(() => {
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+            this.logger.debug('Read file ' + path + ' with format ' + format);
+
+            if (format != CoreFileProvider.FORMATJSON) {
+                return this.backend.readFile(path, format);
+            }
+
+            return this.backend.readFile(path, CoreFileProvider.FORMATTEXT).then((text) => {
+                const parsed = this.textUtils.parseJSON(text, null);
+
+                if (parsed == null && text != null) {
+                    return Promise.reject(new CoreFileCorruptError('Error parsing JSON file: ' + path, path, 'readFile'));
+                }
+
+                return parsed;
+            });
+        }), path, 'readFile');
+    }
+
+    /**
+     * Read a part of a file, without loading the whole file in memory.
+     *
+     * @param path Relative path to the file.
+     * @param offset Position where to start reading, in bytes.
+     * @param length Number of bytes to read.
+     * @param format Format to read the data: FORMATTEXT or FORMATARRAYBUFFER. Defaults to FORMATARRAYBUFFER.
+     *               Please notice that with FORMATTEXT a multi-byte character could be split if it's in the limits of the chunk.
+     * @return Promise resolved with the data read. It can be shorter than length if the end of the file is reached.
+     */
+    readFileChunk(path: string, offset: number, length: number, format: number = CoreFileProvider.FORMATARRAYBUFFER)
+        : Promise<string | ArrayBuffer> {
+
+        return this.handleErrors(this.init().then(() => {
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+            this.logger.debug('Read ' + length + ' bytes of file ' + path + ' from ' + offset);
+
+            return this.backend.readFileChunk(path, offset, length);
+        }).then((data) => {
+            return format == CoreFileProvider.FORMATTEXT ? new TextDecoder().decode(data) : data;
+        }), path, 'readFileChunk');
+    }
+
+    /**
+     * Read a file in chunks, to prevent loading big files in memory. It mirrors writeFileDataInFile.
+     * E.g. to calculate something using all the file contents:
+     * fileProvider.readFileInChunks(path, (chunk) => { update(chunk.data); }, {onProgress: onProgress});
+     *
+     * @param path Relative path to the file.
+     * @param onChunk Function called with each chunk, in order. If it returns a promise, the next chunk is read when it's resolved.
+     * @param options Options.
+     * @return Promise resolved when all the chunks have been read and treated.
+     */
+    async readFileInChunks(path: string, onChunk: CoreFileChunkFunction, options: CoreFileReadChunksOptions = {})
+        : Promise<void> {
+
+        try {
+            const chunkSize = options.chunkSize || CoreFileProvider.CHUNK_SIZE;
+            // Use a decoder in stream mode so multi-byte characters split between 2 chunks are decoded right.
+            const decoder = options.format == CoreFileProvider.FORMATTEXT ? new TextDecoder() : null;
+            const metadata = await this.getMetadataFromPath(path);
+            const start = options.offset || 0;
+            const end = typeof options.length == 'number' ? Math.min(start + options.length, metadata.size) : metadata.size;
+            let offset = start;
+
+            while (offset < end) {
+                options.cancelToken && options.cancelToken.throwIfCanceled();
+
+                const data = <ArrayBuffer> await this.readFileChunk(path, offset, Math.min(chunkSize, end - offset));
+
+                if (!data.byteLength) {
+                    // The file is shorter than expected, stop.
+                    break;
+                }
+
+                await onChunk({
+                    data: decoder ? decoder.decode(data, { stream: offset + data.byteLength < end }) : data,
+                    offset: offset,
+                    length: data.byteLength
+                });
+
+                offset += data.byteLength;
+
+                options.onProgress && options.onProgress({
+                    lengthComputable: true,
+                    loaded: offset - start,
+                    total: end - start
+                });
+            }
+        } catch (error) {
+            throw this.createError(error, path, 'readFileInChunks');
+        }
+    }
+
+    /**
+     * Calculate the hash of a file. The file is read in chunks, so it doesn't need to fit in memory.
+     *
+     * @param path Relative path to the file.
+     * @param algorithm Algorithm: md5, sha1 or sha256. Defaults to sha256.
+     * @param options Options.
+     * @return Promise resolved with the hash in hexadecimal.
+     */
+    async hashFile(path: string, algorithm: string = 'sha256', options: CoreFileHashOptions = {}): Promise<string> {
+        try {
+            const hash = CoreHash.create(algorithm);
+
+            this.logger.debug('Calculate ' + algorithm + ' of file: ' + path);
+
+            await this.readFileInChunks(path, (chunk) => {
+                hash.update(<ArrayBuffer> chunk.data);
+            }, {
+                chunkSize: options.chunkSize,
+                onProgress: options.onProgress,
+                cancelToken: options.cancelToken
+            });
+
+            return hash.digest();
+        } catch (error) {
+            throw this.createError(error, path, 'hashFile');
+        }
+    }
+
+    /**
+     * Check whether a file matches a hash.
+     *
+     * @param path Relative path to the file.
+     * @param expectedHash Hash in hexadecimal. It can be prefixed with the algorithm (e.g. 'sha1:...'), otherwise the
+     *                     algorithm is guessed from the length of the hash.
+     * @param options Options.
+     * @return Promise resolved with whether the file matches. Rejected if the file cannot be read.
+     */
+    async verifyFile(path: string, expectedHash: string, options: CoreFileHashOptions = {}): Promise<boolean> {
+        try {
+            const expected = this.parseHash(expectedHash);
+            const hash = await this.hashFile(path, expected.algorithm, options);
+
+            if (hash != expected.hash) {
+                this.logger.warn('File ' + path + ' doesn\'t match the ' + expected.algorithm + ' hash.');
+
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            throw this.createError(error, path, 'verifyFile');
+        }
+    }
+
+    /**
+     * Check the files of a folder against a list of hashes, e.g. the contents of an unzipped package.
+     *
+     * @param folderPath Relative path to the folder.
+     * @param manifest Hashes indexed by the path of the file relative to the folder, or the contents of a checksum file
+     *                 (lines with a hash and a path, like the output of sha256sum).
+     * @param options Options.
+     * @return Promise resolved with the result.
+     */
+    async verifyManifest(folderPath: string, manifest: { [path: string]: string } | string,
+        options: CoreFileManifestOptions = {}): Promise<CoreFileManifestResult> {
+
+        try {
+            const hashes = typeof manifest == 'string' ? this.parseManifest(manifest) : manifest,
+                paths = Object.keys(hashes),
+                normalizedPaths: { [path: string]: boolean } = {};
+            const result: CoreFileManifestResult = {
+                valid: true,
+                mismatched: [],
+                missing: [],
+                extra: []
+            };
+
+            for (let i = 0; i < paths.length; i++) {
+                options.cancelToken && options.cancelToken.throwIfCanceled();
+
+                const relativePath = this.removeStartingSlash(paths[i].replace(/^\.\//, '')),
+                    hash = options.algorithm ? options.algorithm + ':' + hashes[paths[i]] : hashes[paths[i]];
+                let matches: boolean;
+
+                normalizedPaths[relativePath] = true;
+
+                try {
+                    matches = await this.verifyFile(this.textUtils.concatenatePaths(folderPath, relativePath), hash,
+                        { cancelToken: options.cancelToken });
+                } catch (error) {
+                    if (options.cancelToken && options.cancelToken.isCanceled()) {
+                        throw error;
                     }
 
-                    return parsed;
+                    result.missing.push(relativePath);
+                }
+
+                if (matches === false) {
+                    result.mismatched.push(relativePath);
+                }
+
+                options.onProgress && options.onProgress({
+                    lengthComputable: true,
+                    loaded: i + 1,
+                    total: paths.length
                 });
-            default:
-                return this.file.readAsText(this.basePath, path);
+            }
+
+            if (options.strict) {
+                await this.walkDirectory(folderPath, (walkEntry) => {
+                    if (!walkEntry.isDirectory && !normalizedPaths[walkEntry.relativePath]) {
+                        result.extra.push(walkEntry.relativePath);
+                    }
+                }, { cancelToken: options.cancelToken });
+            }
+
+            result.valid = !result.mismatched.length && !result.missing.length && !result.extra.length;
+
+            return result;
+        } catch (error) {
+            throw this.createError(error, folderPath, 'verifyManifest');
+        }
+    }
+
+    /**
+     * Get the algorithm and the value of a hash.
+     *
+     * @param hash Hash in hexadecimal, optionally prefixed with the algorithm (e.g. 'md5:...').
+     * @return Algorithm and hash in lowercase.
+     */
+    protected parseHash(hash: string): { algorithm: string, hash: string } {
+        const matches = hash.trim().toLowerCase().match(/^(?:([a-z0-9-]+):)?([0-9a-f]+)$/);
+        const lengths = { 32: 'md5', 40: 'sha1', 64: 'sha256' };
+
+        if (!matches || (!matches[1] && !lengths[matches[2].length])) {
+            throw new Error('Invalid hash: ' + hash);
         }
+
+        return {
+            algorithm: matches[1] || lengths[matches[2].length],
+            hash: matches[2]
+        };
+    }
+
+    /**
+     * Parse the contents of a checksum file. Each line contains a hash and a path, separated by spaces. The path can be
+     * preceded by an asterisk (binary mode). Empty lines and lines starting with # are ignored.
+     *
+     * @param contents Contents of the file.
+     * @return Hashes indexed by path.
+     */
+    protected parseManifest(contents: string): { [path: string]: string } {
+        const hashes = {};
+
+        contents.split(/\r?\n/).forEach((line) => {
+            const matches = line.match(/^\s*([0-9a-fA-F]+)\s+\*?(.+?)\s*$/);
+
+            if (matches && line.trim()[0] != '#') {
+                hashes[matches[2]] = matches[1];
+            }
+        });
+
+        return hashes;
     }
 
     /**
@@ -532,7 +1543,7 @@ export class CoreFileProvider {
         format = format || CoreFileProvider.FORMATTEXT;
         this.logger.debug('Read file from file data with format ' + format);
 
-        return new Promise((resolve, reject): void => {
+        return this.handleErrors(new Promise((resolve, reject): void => {
             const reader = new FileReader();
 
             reader.onloadend = (evt): void => {
@@ -543,7 +1554,7 @@ export class CoreFileProvider {
                         const parsed = this.textUtils.parseJSON(target.result, null);
 
                         if (parsed == null) {
-                            reject('Error parsing JSON file.');
+                            reject(new CoreFileCorruptError('Error parsing JSON file.', undefined, 'readFileData'));
                         }
 
                         resolve(parsed);
@@ -569,51 +1580,119 @@ export class CoreFileProvider {
                 }
             }, 3000);
 
-            switch (format) {
-                case CoreFileProvider.FORMATDATAURL:
-                    reader.readAsDataURL(fileData);
-                    break;
-                case CoreFileProvider.FORMATBINARYSTRING:
-                    reader.readAsBinaryString(fileData);
-                    break;
-                case CoreFileProvider.FORMATARRAYBUFFER:
-                    reader.readAsArrayBuffer(fileData);
-                    break;
-                default:
-                    reader.readAsText(fileData);
+            switch (format) {
+                case CoreFileProvider.FORMATDATAURL:
+                    reader.readAsDataURL(fileData);
+                    break;
+                case CoreFileProvider.FORMATBINARYSTRING:
+                    reader.readAsBinaryString(fileData);
+                    break;
+                case CoreFileProvider.FORMATARRAYBUFFER:
+                    reader.readAsArrayBuffer(fileData);
+                    break;
+                default:
+                    reader.readAsText(fileData);
+            }
+
+        }), fileData && fileData.name, 'readFileData');
+    }
+
+    /**
+     * Writes some data in a file.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write.
+     * @param append Whether to append the data to the end of the file.
+     * @param notify Whether to trigger a FILE_CHANGED event. Use false for files written very often that nobody watches,
+     *               e.g. the log file (the event is logged, so it would cause another write).
+     * @return Promise to be resolved when the file is written.
+     */
+    async writeFile(path: string, data: any, append?: boolean, notify: boolean = true): Promise<FileEntry> {
+        try {
+            await this.init();
+
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+
+            if (!notify) {
+                return await this.writeFileSilently(path, data, append);
             }
 
-        });
+            const existed = await this.entryExists(path, false);
+            const fileEntry = await this.writeFileSilently(path, data, append);
+
+            this.notifyChange(existed ? 'modified' : 'created', path, false);
+
+            return fileEntry;
+        } catch (error) {
+            throw this.createError(error, path, 'writeFile');
+        }
     }
 
     /**
-     * Writes some data in a file.
+     * Writes some data in a file without triggering a FILE_CHANGED event, used when the caller triggers its own event.
      *
      * @param path Relative path to the file.
      * @param data Data to write.
      * @param append Whether to append the data to the end of the file.
      * @return Promise to be resolved when the file is written.
      */
-    writeFile(path: string, data: any, append?: boolean): Promise<FileEntry> {
+    protected writeFileSilently(path: string, data: any, append?: boolean): Promise<FileEntry> {
         return this.init().then(() => {
             // Remove basePath if it's in the path.
             path = this.removeStartingSlash(path.replace(this.basePath, ''));
             this.logger.debug('Write file: ' + path);
 
-            // Create file (and parent folders) to prevent errors.
-            return this.createFile(path).then((fileEntry) => {
-                if (this.isHTMLAPI && !this.coreApp.isDesktop() &&
-                    (typeof data == 'string' || data.toString() == '[object ArrayBuffer]')) {
-                    // We need to write Blobs.
-                    const type = this.mimeUtils.getMimeType(this.mimeUtils.getFileExtension(path));
-                    data = new Blob([data], { type: type || 'text/plain' });
-                }
+            return this.backend.writeFile(path, data, append);
+        });
+    }
+
+    /**
+     * Write some data in a file atomically: the data is written in a temporary file that is moved over the original one,
+     * so the file is never left half written if the app is closed or the write fails.
+     *
+     * @param path Relative path to the file.
+     * @param data Data to write.
+     * @return Promise to be resolved when the file is written.
+     */
+    async writeFileAtomic(path: string, data: any): Promise<FileEntry> {
+        try {
+            await this.init();
+
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+
+            const tmpPath = path + '.' + Date.now() + CoreFileProvider.ATOMIC_SUFFIX,
+                existed = await this.entryExists(path, false);
+
+            this.logger.debug('Write file atomically: ' + path);
 
-                return this.file.writeFile(this.basePath, path, data, { replace: !append, append: !!append }).then(() => {
-                    return fileEntry;
+            try {
+                await this.writeFileSilently(tmpPath, data);
+                await this.backend.copyOrMove(tmpPath, path, false, false);
+            } catch (error) {
+                await this.backend.removeFile(tmpPath).catch(() => {
+                    // Ignore errors, maybe it wasn't created.
                 });
-            });
-        });
+
+                throw error;
+            }
+
+            this.notifyChange(existed ? 'modified' : 'created', path, false);
+
+            return await this.getFile(path);
+        } catch (error) {
+            throw this.createError(error, path, 'writeFileAtomic');
+        }
+    }
+
+    /**
+     * Create a transaction to apply a group of file operations. If one of them fails, the ones already done are reverted.
+     *
+     * @return Transaction. Add the operations and call commit.
+     */
+    createTransaction(): CoreFileTransaction {
+        return new CoreFileTransaction(this, this.logger);
     }
 
     /**
@@ -626,21 +1705,122 @@ export class CoreFileProvider {
      * @param onProgress Function to call on progress.
      * @param offset Offset where to start reading from.
      * @param append Whether to append the data to the end of the file.
+     * @param options Options to cancel or resume the write.
      * @return Promise resolved when done.
      */
     async writeFileDataInFile(file: Blob, path: string, onProgress?: CoreFileProgressFunction, offset: number = 0,
-        append?: boolean): Promise<FileEntry> {
+        append?: boolean, options: CoreFileWriteOptions = {}): Promise<FileEntry> {
+
+        const span = this.logger.time('writeFileDataInFile');
+
+        try {
+            await this.init();
+
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
+
+            const existed = await this.entryExists(path, false);
+
+            if (options.resumable && !offset) {
+                const resumeOffset = await this.getResumeOffset(file, path);
+
+                if (resumeOffset) {
+                    this.logger.debug('Resume write of ' + path + ' from ' + resumeOffset);
+                    offset = resumeOffset;
+                    append = true;
+                }
+            }
+
+            const fileEntry = await this.writeFileDataInFileChunks(file, path, onProgress, offset, append, options);
+
+            if (options.resumable) {
+                await this.backend.removeFile(path + CoreFileProvider.RESUME_SUFFIX).catch(() => {
+                    // Ignore errors, maybe it doesn't exist.
+                });
+            }
+
+            // Trigger a single event for the whole write.
+            this.notifyChange(existed ? 'modified' : 'created', path, false);
+
+            return fileEntry;
+        } catch (error) {
+            throw this.createError(error, path, 'writeFileDataInFile');
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * Get the offset where to continue an interrupted resumable write.
+     *
+     * @param file The data to write.
+     * @param path Path where to store the data.
+     * @return Promise resolved with the offset, 0 if the write cannot be resumed.
+     */
+    protected async getResumeOffset(file: Blob, path: string): Promise<number> {
+        let resumeData: CoreFileResumeData;
+
+        try {
+            resumeData = await this.readFile(path + CoreFileProvider.RESUME_SUFFIX, CoreFileProvider.FORMATJSON);
+        } catch (error) {
+            // No sidecar file, start from the beginning.
+            return 0;
+        }
+
+        const lastModified = (<any> file).lastModified;
+        if (!resumeData || resumeData.total != file.size || resumeData.offset >= resumeData.total ||
+            (resumeData.lastModified && lastModified && resumeData.lastModified != lastModified)) {
+            // The data to write is different.
+            return 0;
+        }
+
+        try {
+            // Make sure the file has the data of the last committed offset, it could've changed after writing the sidecar.
+            const size = await this.getFileSize(path);
+
+            return size == resumeData.offset ? size : 0;
+        } catch (error) {
+            return 0;
+        }
+    }
+
+    /**
+     * Write some file data into a filesystem file, one chunk at a time.
+     *
+     * @param file The data to write.
+     * @param path Path where to store the data.
+     * @param onProgress Function to call on progress.
+     * @param offset Offset where to start reading from.
+     * @param append Whether to append the data to the end of the file.
+     * @param options Options to cancel or resume the write.
+     * @return Promise resolved when done.
+     */
+    protected async writeFileDataInFileChunks(file: Blob, path: string, onProgress?: CoreFileProgressFunction,
+        offset: number = 0, append?: boolean, options: CoreFileWriteOptions = {}): Promise<FileEntry> {
 
         offset = offset || 0;
 
         try {
+            options.cancelToken && options.cancelToken.throwIfCanceled();
+
             // Get the chunk to write.
             const chunk = file.slice(offset, Math.min(offset + CoreFileProvider.CHUNK_SIZE, file.size));
 
-            const fileEntry = await this.writeFile(path, chunk, append);
+            const fileEntry = await this.writeFileSilently(path, chunk, append);
 
             offset += CoreFileProvider.CHUNK_SIZE;
 
+            if (options.resumable) {
+                // Store the committed offset.
+                const resumeData: CoreFileResumeData = {
+                    offset: Math.min(offset, file.size),
+                    total: file.size,
+                    lastModified: (<any> file).lastModified
+                };
+
+                await this.writeFileSilently(path + CoreFileProvider.RESUME_SUFFIX, JSON.stringify(resumeData));
+            }
+
             onProgress && onProgress({
                 lengthComputable: true,
                 loaded: offset,
@@ -653,7 +1833,7 @@ export class CoreFileProvider {
             }
 
             // Read the next chunk.
-            return this.writeFileDataInFile(file, path, onProgress, offset, true);
+            return this.writeFileDataInFileChunks(file, path, onProgress, offset, true, options);
         } catch (error) {
             if (error && error.target && error.target.error) {
                 // Error returned by the writer, get the "real" error.
@@ -671,9 +1851,9 @@ export class CoreFileProvider {
      * @return Promise to be resolved when the file is retrieved.
      */
     getExternalFile(fullPath: string): Promise<FileEntry> {
-        return this.file.resolveLocalFilesystemUrl(fullPath).then((entry) => {
+        return this.handleErrors(this.file.resolveLocalFilesystemUrl(fullPath).then((entry) => {
             return <FileEntry>entry;
-        });
+        }), fullPath, 'getExternalFile');
     }
 
     /**
@@ -683,9 +1863,13 @@ export class CoreFileProvider {
      * @return Promise to be resolved when the size is calculated.
      */
     async getExternalFileSize(path: string): Promise<number> {
-        const fileEntry = await this.getExternalFile(path);
+        try {
+            const fileEntry = await this.getExternalFile(path);
 
-        return this.getSize(fileEntry);
+            return await this.getSize(fileEntry);
+        } catch (error) {
+            throw this.createError(error, path, 'getExternalFileSize');
+        }
     }
 
     /**
@@ -698,7 +1882,7 @@ export class CoreFileProvider {
         const directory = fullPath.substring(0, fullPath.lastIndexOf('/')),
             filename = fullPath.substr(fullPath.lastIndexOf('/') + 1);
 
-        return this.file.removeFile(directory, filename);
+        return this.handleErrors(this.file.removeFile(directory, filename), fullPath, 'removeExternalFile');
     }
 
     /**
@@ -707,13 +1891,13 @@ export class CoreFileProvider {
      * @return Promise to be resolved when the base path is retrieved.
      */
     getBasePath(): Promise<string> {
-        return this.init().then(() => {
+        return this.handleErrors(this.init().then(() => {
             if (this.basePath.slice(-1) == '/') {
                 return this.basePath;
             } else {
                 return this.basePath + '/';
             }
-        });
+        }), undefined, 'getBasePath');
     }
 
     /**
@@ -724,7 +1908,7 @@ export class CoreFileProvider {
      * @return Promise to be resolved when the base path is retrieved.
      */
     getBasePathToDownload(): Promise<string> {
-        return this.init().then(() => {
+        return this.handleErrors(this.init().then(() => {
             if (this.coreApp.isIOS()) {
                 // In iOS we want the internal URL (cdvfile://localhost/persistent/...).
                 return this.file.resolveDirectoryUrl(this.basePath).then((dirEntry) => {
@@ -734,7 +1918,7 @@ export class CoreFileProvider {
                 // In the other platforms we use the basePath as it is (file://...).
                 return this.basePath;
             }
-        });
+        }), undefined, 'getBasePathToDownload');
     }
 
     /**
@@ -762,7 +1946,7 @@ export class CoreFileProvider {
      * @return Promise resolved when the entry is moved.
      */
     moveDir(originalPath: string, newPath: string, destDirExists?: boolean): Promise<any> {
-        return this.copyOrMoveFileOrDir(originalPath, newPath, true, false, destDirExists);
+        return this.handleErrors(this.copyOrMoveFileOrDir(originalPath, newPath, true, false, destDirExists), originalPath, 'moveDir');
     }
 
     /**
@@ -775,7 +1959,7 @@ export class CoreFileProvider {
      * @return Promise resolved when the entry is moved.
      */
     moveFile(originalPath: string, newPath: string, destDirExists?: boolean): Promise<any> {
-        return this.copyOrMoveFileOrDir(originalPath, newPath, false, false, destDirExists);
+        return this.handleErrors(this.copyOrMoveFileOrDir(originalPath, newPath, false, false, destDirExists), originalPath, 'moveFile');
     }
 
     /**
@@ -785,10 +1969,12 @@ export class CoreFileProvider {
      * @param to New path of the directory.
      * @param destDirExists Set it to true if you know the directory where to put the dir exists. If false, the function will
      *                      try to create it (slower).
+     * @param cancelToken Token to cancel the copy. The entries are copied one by one and the token is checked between them.
+     *                    The destination is only replaced once the copy is complete, it isn't modified if it's canceled.
      * @return Promise resolved when the entry is copied.
      */
-    copyDir(from: string, to: string, destDirExists?: boolean): Promise<any> {
-        return this.copyOrMoveFileOrDir(from, to, true, true, destDirExists);
+    copyDir(from: string, to: string, destDirExists?: boolean, cancelToken?: CoreCancellationToken): Promise<any> {
+        return this.handleErrors(this.copyOrMoveFileOrDir(from, to, true, true, destDirExists, cancelToken), from, 'copyDir');
     }
 
     /**
@@ -798,10 +1984,12 @@ export class CoreFileProvider {
      * @param to New path of the file.
      * @param destDirExists Set it to true if you know the directory where to put the file exists. If false, the function will
      *                      try to create it (slower).
+     * @param cancelToken Token to cancel the copy. The copy of the file cannot be stopped once started, if it's canceled
+     *                    while copying the copy is discarded when it finishes and the destination isn't modified.
      * @return Promise resolved when the entry is copied.
      */
-    copyFile(from: string, to: string, destDirExists?: boolean): Promise<any> {
-        return this.copyOrMoveFileOrDir(from, to, false, true, destDirExists);
+    copyFile(from: string, to: string, destDirExists?: boolean, cancelToken?: CoreCancellationToken): Promise<any> {
+        return this.handleErrors(this.copyOrMoveFileOrDir(from, to, false, true, destDirExists, cancelToken), from, 'copyFile');
     }
 
     /**
@@ -813,10 +2001,13 @@ export class CoreFileProvider {
      * @param copy Whether to copy. If false, it will move the file.
      * @param destDirExists Set it to true if you know the directory where to put the file/dir exists. If false, the function will
      *                      try to create it (slower).
+     * @param cancelToken Token to cancel the operation, only used when copying. See copyWithToken.
      * @return Promise resolved when the entry is copied.
      */
-    protected async copyOrMoveFileOrDir(from: string, to: string, isDir?: boolean, copy?: boolean, destDirExists?: boolean)
-        : Promise<Entry> {
+    protected async copyOrMoveFileOrDir(from: string, to: string, isDir?: boolean, copy?: boolean, destDirExists?: boolean,
+        cancelToken?: CoreCancellationToken): Promise<Entry> {
+
+        cancelToken && cancelToken.throwIfCanceled();
 
         const fileIsInAppFolder = this.isPathInAppFolder(from);
 
@@ -824,10 +2015,6 @@ export class CoreFileProvider {
             return this.copyOrMoveExternalFile(from, to, copy);
         }
 
-        const moveCopyFn = copy ?
-            (isDir ? this.file.copyDir.bind(this.file) : this.file.copyFile.bind(this.file)) :
-            (isDir ? this.file.moveDir.bind(this.file) : this.file.moveFile.bind(this.file));
-
         await this.init();
 
         // Paths cannot start with "/". Remove basePath if present.
@@ -841,21 +2028,92 @@ export class CoreFileProvider {
             await this.createDir(toFileAndDir.directory);
         }
 
+        let entry: Entry;
+        if (copy && cancelToken) {
+            entry = await this.copyWithToken(from, to, !!isDir, cancelToken);
+        } else {
+            entry = await this.backend.copyOrMove(from, to, !!isDir, !!copy);
+        }
+
+        if (copy) {
+            this.notifyChange('created', to, !!isDir);
+        } else {
+            this.notifyChange('moved', to, !!isDir, from);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Copy a file or directory that can be canceled. The copy is done in a temporary path that replaces the destination once
+     * the copy is complete, so the destination isn't modified if it's canceled. Directories are copied one entry at a time,
+     * checking the token between entries. Files are copied in a single operation that cannot be stopped.
+     *
+     * @param from Relative path to the file/dir.
+     * @param to Relative path of the copy. If it exists, it's replaced.
+     * @param isDir Whether it's a dir or a file.
+     * @param cancelToken Token to cancel the copy.
+     * @return Promise resolved with the new entry. Rejected with CoreCanceledError if canceled.
+     */
+    protected async copyWithToken(from: string, to: string, isDir: boolean, cancelToken: CoreCancellationToken): Promise<Entry> {
+        if (isDir && (to == from || to.indexOf(from + '/') === 0)) {
+            throw new CoreFileError('Cannot copy a directory inside itself.', from, 'copyDir', undefined,
+                CoreFileError.INVALID_MODIFICATION_ERR);
+        }
+
+        const tmpPath = to + '.' + Date.now() + CoreFileProvider.COPY_SUFFIX;
+
         try {
-            const entry = await moveCopyFn(this.basePath, from, this.basePath, to);
+            if (isDir) {
+                await this.copyDirEntries(from, tmpPath, cancelToken);
+            } else {
+                await this.backend.copyOrMove(from, tmpPath, false, true);
+            }
 
-            return entry;
+            cancelToken.throwIfCanceled();
+
+            if (isDir) {
+                await this.backend.removeDir(to).catch(() => {
+                    // Ignore errors, it might not exist.
+                });
+            }
+
+            return await this.backend.copyOrMove(tmpPath, to, isDir, false);
         } catch (error) {
-            // The copy can fail if the path has encoded characters. Try again if that's the case.
-            const decodedFrom = decodeURI(from);
-            const decodedTo = decodeURI(to);
+            // Discard the copy done so far.
+            await (isDir ? this.backend.removeDir(tmpPath) : this.backend.removeFile(tmpPath)).catch(() => {
+                // Ignore errors, maybe it wasn't created.
+            });
+
+            throw error;
+        }
+    }
+
+    /**
+     * Copy a directory one entry at a time. If the token is canceled, it stops copying and leaves the copy half done,
+     * the caller must discard it.
+     *
+     * @param from Relative path to the directory.
+     * @param to Relative path of the copy. It must not exist.
+     * @param cancelToken Token to stop copying.
+     * @return Promise resolved with the new directory.
+     */
+    protected async copyDirEntries(from: string, to: string, cancelToken: CoreCancellationToken): Promise<DirectoryEntry> {
+        const entries = await this.backend.listDir(from),
+            dirEntry = await this.backend.createDir(to);
+
+        for (let i = 0; i < entries.length && !cancelToken.isCanceled(); i++) {
+            const entryFrom = this.textUtils.concatenatePaths(from, entries[i].name),
+                entryTo = this.textUtils.concatenatePaths(to, entries[i].name);
 
-            if (from != decodedFrom || to != decodedTo) {
-                return moveCopyFn(this.basePath, decodedFrom, this.basePath, decodedTo);
+            if (entries[i].isDirectory) {
+                await this.copyDirEntries(entryFrom, entryTo, cancelToken);
             } else {
-                return Promise.reject(error);
+                await this.backend.copyOrMove(entryFrom, entryTo, false, true);
             }
         }
+
+        return dirEntry;
     }
 
     /**
@@ -932,13 +2190,23 @@ export class CoreFileProvider {
      *                   same location and name as the ZIP file (without extension).
      * @param onProgress Function to call on progress.
      * @param recreateDir Delete the dest directory before unzipping. Defaults to true.
+     * @param cancelToken Token to cancel the unzip. If it's canceled while unzipping, the dest folder is removed. When using
+     *                    the Zip plugin (Cordova in mobile) the unzip is done in a single operation that cannot be stopped,
+     *                    so the folder is removed when it finishes. Otherwise the token is checked between entries.
      * @return Promise resolved when the file is unzipped.
      */
-    unzipFile(path: string, destFolder?: string, onProgress?: Function, recreateDir: boolean = true): Promise<any> {
+    unzipFile(path: string, destFolder?: string, onProgress?: Function, recreateDir: boolean = true,
+        cancelToken?: CoreCancellationToken): Promise<any> {
+
+        const span = this.logger.time('unzipFile');
         // Get the source file.
         let fileEntry: FileEntry;
 
-        return this.getFile(path).then((fe) => {
+        return this.handleErrors(Promise.resolve().then(() => {
+            cancelToken && cancelToken.throwIfCanceled();
+
+            return this.getFile(path);
+        }).then((fe) => {
             fileEntry = fe;
 
             if (destFolder && recreateDir) {
@@ -950,16 +2218,239 @@ export class CoreFileProvider {
                     return this.createDir(destFolder);
                 });
             }
-        }).then(() => {
-            // If destFolder is not set, use same location as ZIP file. We need to use absolute paths (including basePath).
-            destFolder = this.addBasePathIfNeeded(destFolder || this.mimeUtils.removeExtension(path));
+        }).then((): Promise<any> => {
+            // If destFolder is not set, use same location as ZIP file.
+            destFolder = destFolder || this.mimeUtils.removeExtension(path);
+
+            if (!this.shouldUseZipPlugin()) {
+                return this.unzipFileWithReader(path, destFolder, onProgress, cancelToken);
+            }
 
-            return this.zip.unzip(fileEntry.toURL(), destFolder, onProgress);
+            // The plugin needs absolute paths (including basePath).
+            return this.zip.unzip(fileEntry.toURL(), this.addBasePathIfNeeded(destFolder), onProgress).then((result) => {
+                if (result != -1) {
+                    // The plugin doesn't notify each file, notify the folder.
+                    this.notifyChange('created', this.removeStartingSlash(destFolder.replace(this.basePath, '')), true);
+                }
+
+                return result;
+            });
         }).then((result) => {
             if (result == -1) {
                 return Promise.reject('Unzip failed.');
             }
+
+            if (cancelToken && cancelToken.isCanceled()) {
+                // Discard the unzipped files.
+                return this.removeDir(destFolder).catch(() => {
+                    // Ignore errors.
+                }).then(() => {
+                    cancelToken.throwIfCanceled();
+                });
+            }
+        }).then(() => {
+            span.end();
+        }, (error) => {
+            span.end();
+
+            return Promise.reject(error);
+        }), path, 'unzipFile');
+    }
+
+    /**
+     * Check whether to use the Zip plugin to unzip files. Otherwise they're unzipped using CoreZipReader, e.g. when using
+     * the HTML API, in desktop or with a backend that isn't Cordova.
+     *
+     * @return Whether to use the Zip plugin.
+     */
+    protected shouldUseZipPlugin(): boolean {
+        return this.backend == this.cordovaBackend && !this.isHTMLAPI && !this.coreApp.isDesktop() && !!(<any> window).zip;
+    }
+
+    /**
+     * Unzip a file using CoreZipReader. The zip is read in chunks: only the central directory and the entry being extracted
+     * are loaded in memory. If the cancel token is canceled, it stops after the current entry.
+     *
+     * @param path Path to the ZIP file.
+     * @param destFolder Path to the destination folder.
+     * @param onProgress Function to call on progress.
+     * @param cancelToken Token to cancel the unzip.
+     * @return Promise resolved when done.
+     */
+    protected async unzipFileWithReader(path: string, destFolder: string, onProgress?: Function,
+        cancelToken?: CoreCancellationToken): Promise<void> {
+
+        const metadata = await this.getMetadataFromPath(path);
+        const reader = await CoreZipReader.open(metadata.size, (offset, length) => {
+            return <Promise<ArrayBuffer>> this.readFileChunk(path, offset, length);
         });
+        const entries = reader.getEntries();
+        const total = entries.reduce((size, entry) => {
+            return size + entry.size;
+        }, 0);
+        let loaded = 0;
+
+        for (let i = 0; i < entries.length; i++) {
+            if (cancelToken && cancelToken.isCanceled()) {
+                // The unzipped files are discarded by unzipFile.
+                return;
+            }
+
+            const entry = entries[i];
+            const entryPath = this.removeStartingSlash(entry.name.replace(/\\/g, '/'));
+
+            if (entryPath.split('/').indexOf('..') != -1) {
+                // Don't allow writing outside the destination folder.
+                throw new CoreFileCorruptError('Invalid path in zip file: ' + entry.name);
+            }
+
+            if (entry.isDirectory) {
+                await this.createDir(this.textUtils.concatenatePaths(destFolder, entryPath));
+            } else {
+                await this.writeFile(this.textUtils.concatenatePaths(destFolder, entryPath), await reader.read(entry));
+            }
+
+            loaded += entry.size;
+            onProgress && onProgress({
+                lengthComputable: true,
+                loaded: loaded,
+                total: total
+            });
+        }
+    }
+
+    /**
+     * Create a zip file with some files. The files are added in the root of the zip, using their names.
+     *
+     * @param paths Relative paths of the files to add.
+     * @param zipPath Relative path of the zip file to create. If it exists, it's replaced.
+     * @param onProgress Function to call on progress.
+     * @param options Options.
+     * @return Promise resolved with the zip file entry.
+     */
+    async zipFiles(paths: string[], zipPath: string, onProgress?: CoreFileProgressFunction,
+        options: CoreFileZipOptions = {}): Promise<FileEntry> {
+
+        try {
+            const files = paths.map((path) => {
+                return {
+                    path: path,
+                    name: this.getFileAndDirectoryFromPath(path).name
+                };
+            });
+
+            return await this.createZip(files, [], zipPath, onProgress, options);
+        } catch (error) {
+            throw this.createError(error, zipPath, 'zipFiles');
+        }
+    }
+
+    /**
+     * Create a zip file with the contents of a folder, including its subfolders. The folder itself isn't included.
+     *
+     * @param folderPath Relative path of the folder to zip.
+     * @param zipPath Relative path of the zip file to create. If it exists, it's replaced. It shouldn't be inside the folder.
+     * @param onProgress Function to call on progress.
+     * @param options Options.
+     * @return Promise resolved with the zip file entry.
+     */
+    async zipFolder(folderPath: string, zipPath: string, onProgress?: CoreFileProgressFunction,
+        options: CoreFileZipOptions = {}): Promise<FileEntry> {
+
+        try {
+            const files: { path: string, name: string }[] = [],
+                dirs: string[] = [];
+
+            await this.walkDirectory(folderPath, (walkEntry) => {
+                if (walkEntry.isDirectory) {
+                    dirs.push(walkEntry.relativePath);
+                } else {
+                    files.push({ path: walkEntry.path, name: walkEntry.relativePath });
+                }
+            }, { cancelToken: options.cancelToken });
+
+            return await this.createZip(files, dirs, zipPath, onProgress, options);
+        } catch (error) {
+            throw this.createError(error, zipPath, 'zipFolder');
+        }
+    }
+
+    /**
+     * Create a zip file. Each file is written in the zip once it's compressed, so only one file is in memory at a time.
+     * The zip is written in a temporary file that replaces the zip file once it's complete.
+     *
+     * @param files Files to add: relative path of the file and name inside the zip.
+     * @param dirs Directories to add, in case some of them are empty.
+     * @param zipPath Relative path of the zip file to create.
+     * @param onProgress Function to call on progress.
+     * @param options Options.
+     * @return Promise resolved with the zip file entry.
+     */
+    protected async createZip(files: { path: string, name: string }[], dirs: string[], zipPath: string,
+        onProgress?: CoreFileProgressFunction, options: CoreFileZipOptions = {}): Promise<FileEntry> {
+
+        const span = this.logger.time('createZip');
+
+        try {
+            await this.init();
+
+            // Remove basePath if it's in the path.
+            zipPath = this.removeStartingSlash(zipPath.replace(this.basePath, ''));
+
+            const writer = new CoreZipWriter();
+            const tmpPath = zipPath + '.' + Date.now() + CoreFileProvider.ATOMIC_SUFFIX;
+            const metadatas: Metadata[] = await Promise.all(files.map((file) => {
+                return this.getMetadataFromPath(file.path);
+            }));
+            const total = metadatas.reduce((size, metadata) => {
+                return size + metadata.size;
+            }, 0);
+            const existed = await this.entryExists(zipPath, false);
+            let loaded = 0;
+
+            this.logger.debug('Create zip ' + zipPath + ' with ' + files.length + ' files');
+
+            dirs.forEach((dir) => {
+                writer.addDirectory(dir);
+            });
+
+            try {
+                await this.writeFileSilently(tmpPath, writer.flush());
+
+                for (let i = 0; i < files.length; i++) {
+                    options.cancelToken && options.cancelToken.throwIfCanceled();
+
+                    const data = await this.readFile(files[i].path, CoreFileProvider.FORMATARRAYBUFFER);
+
+                    writer.addFile(files[i].name, data, { compress: options.compress, date: metadatas[i].modificationTime });
+                    await this.writeFileSilently(tmpPath, writer.flush(), true);
+
+                    loaded += metadatas[i].size;
+                    onProgress && onProgress({
+                        lengthComputable: true,
+                        loaded: loaded,
+                        total: total
+                    });
+                }
+
+                options.cancelToken && options.cancelToken.throwIfCanceled();
+
+                await this.writeFileSilently(tmpPath, writer.finish(), true);
+                await this.backend.copyOrMove(tmpPath, zipPath, false, false);
+            } catch (error) {
+                await this.backend.removeFile(tmpPath).catch(() => {
+                    // Ignore errors, maybe it wasn't created.
+                });
+
+                throw error;
+            }
+
+            this.notifyChange(existed ? 'modified' : 'created', zipPath, false);
+
+            return await this.getFile(zipPath);
+        } finally {
+            span.end();
+        }
     }
 
     /**
@@ -971,9 +2462,9 @@ export class CoreFileProvider {
      * @return Promise resolved in success.
      */
     replaceInFile(path: string, search: string | RegExp, newValue: string): Promise<any> {
-        return this.readFile(path).then((content) => {
+        return this.handleErrors(this.readFile(path).then((content) => {
             if (typeof content == 'undefined' || content === null || !content.replace) {
-                return Promise.reject(null);
+                return Promise.reject(new CoreFileCorruptError('The file isn\'t a text file: ' + path));
             }
 
             if (content.match(search)) {
@@ -981,7 +2472,7 @@ export class CoreFileProvider {
 
                 return this.writeFile(path, content);
             }
-        });
+        }), path, 'replaceInFile');
     }
 
     /**
@@ -992,12 +2483,29 @@ export class CoreFileProvider {
      */
     getMetadata(fileEntry: Entry): Promise<Metadata> {
         if (!fileEntry || !fileEntry.getMetadata) {
-            return Promise.reject(null);
+            return Promise.reject(new CoreFileError('Invalid entry.', undefined, 'getMetadata'));
         }
 
-        return new Promise((resolve, reject): void => {
+        return this.handleErrors(new Promise((resolve, reject): void => {
             fileEntry.getMetadata(resolve, reject);
-        });
+        }), fileEntry.fullPath, 'getMetadata');
+    }
+
+    /**
+     * Get a file/dir metadata given the file's entry. If encryption is enabled, the size of the files inside the app
+     * folder is the size of the decrypted data.
+     *
+     * @param entry Entry.
+     * @return Promise resolved with metadata.
+     */
+    protected getEntryMetadata(entry: Entry): Promise<Metadata> {
+        const url = entry.toURL();
+
+        if (entry.isFile && this.backend instanceof CoreFileEncryptedBackend && this.basePath && url.indexOf(this.basePath) === 0) {
+            return this.getMetadataFromPath(url);
+        }
+
+        return this.getMetadata(entry);
     }
 
     /**
@@ -1008,16 +2516,12 @@ export class CoreFileProvider {
      * @return Promise resolved with metadata.
      */
     getMetadataFromPath(path: string, isDir?: boolean): Promise<any> {
-        let promise;
-        if (isDir) {
-            promise = this.getDir(path);
-        } else {
-            promise = this.getFile(path);
-        }
+        return this.handleErrors(this.init().then(() => {
+            // Remove basePath if it's in the path.
+            path = this.removeStartingSlash(path.replace(this.basePath, ''));
 
-        return promise.then((entry) => {
-            return this.getMetadata(entry);
-        });
+            return this.backend.getMetadata(path, isDir);
+        }), path, 'getMetadataFromPath');
     }
 
     /**
@@ -1069,7 +2573,7 @@ export class CoreFileProvider {
      * @return Promise resolved when the entry is copied.
      */
     copyExternalFile(from: string, to: string): Promise<any> {
-        return this.copyOrMoveExternalFile(from, to, true);
+        return this.handleErrors(this.copyOrMoveExternalFile(from, to, true), from, 'copyExternalFile');
     }
 
     /**
@@ -1080,7 +2584,7 @@ export class CoreFileProvider {
      * @return Promise resolved when the entry is moved.
      */
     moveExternalFile(from: string, to: string): Promise<any> {
-        return this.copyOrMoveExternalFile(from, to, false);
+        return this.handleErrors(this.copyOrMoveExternalFile(from, to, false), from, 'moveExternalFile');
     }
 
     /**
@@ -0,0 +1,322 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreLoggerProvider, CoreLogEntry } from './logger';
+import { CoreLogMemoryTransport, CoreLogJsonRenderer, CoreLogTextRenderer } from '../classess/log-transports';
+
+describe('CoreLoggerProvider redaction', () => {
+  let logger: CoreLoggerProvider;
+
+  beforeEach(() => {
+    logger = new CoreLoggerProvider();
+  });
+
+  it('hides the values of the sensitive keys in objects, arrays and errors', () => {
+    const error = new Error('Login failed for john@example.com');
+    const value = {
+      user: 'john',
+      Password: 'hunter2',
+      nested: [{ wstoken: 'abc', id: 1 }],
+      error: error
+    };
+
+    const redacted = logger.redact(value);
+
+    expect(redacted.user).toEqual('john');
+    expect(redacted.Password).toEqual(CoreLoggerProvider.REDACTED);
+    expect(redacted.nested[0]).toEqual({ wstoken: CoreLoggerProvider.REDACTED, id: 1 });
+    expect(redacted.error instanceof Error).toBe(true);
+    expect(redacted.error.message).toEqual('Login failed for ' + CoreLoggerProvider.REDACTED);
+
+    // The original value isn't modified.
+    expect(value.Password).toEqual('hunter2');
+    expect(error.message).toEqual('Login failed for john@example.com');
+  });
+
+  it('keeps circular references', () => {
+    const value: any = { token: 'abc' };
+    value.self = value;
+
+    const redacted = logger.redact(value);
+
+    expect(redacted.token).toEqual(CoreLoggerProvider.REDACTED);
+    expect(redacted.self).toBe(redacted);
+  });
+
+  it('keeps the name of the query params and hides their values', () => {
+    expect(logger.redact('GET https://example.com/file.php?id=3&wstoken=abc123&lang=en'))
+      .toEqual('GET https://example.com/file.php?id=3&wstoken=' + CoreLoggerProvider.REDACTED + '&lang=en');
+    expect(logger.redact('?TOKEN=abc')).toEqual('?TOKEN=' + CoreLoggerProvider.REDACTED);
+  });
+
+  it('hides the whole match of the patterns, including the capture groups', () => {
+    logger.setRedactionRules({ patterns: [/password=(\S+)/, /(pin) (\d+)/i] });
+
+    expect(logger.redact('login password=hunter2 done')).toEqual('login ' + CoreLoggerProvider.REDACTED + ' done');
+    expect(logger.redact('PIN 1234 and pin 5678')).toEqual(CoreLoggerProvider.REDACTED + ' and ' + CoreLoggerProvider.REDACTED);
+  });
+
+  it('replaces the default rules when setting new ones', () => {
+    logger.setRedactionRules({ keys: ['custom'] });
+
+    expect(logger.redact({ custom: 'a', password: 'b' })).toEqual({ custom: CoreLoggerProvider.REDACTED, password: 'b' });
+    expect(logger.redact('john@example.com?token=abc')).toEqual('john@example.com?token=abc');
+  });
+
+  it('redacts the entries before sending them to the transports', () => {
+    const transport = new CoreLogMemoryTransport();
+    logger.getTransports().forEach((existing) => {
+      logger.removeTransport(existing);
+    });
+    logger.addTransport(transport);
+    logger.setLevel('debug', false);
+    logger.setRedactionRules({ keys: ['token'], patterns: [/password=(\S+)/] });
+
+    logger.getInstance('Spec').withContext({ token: 'ctx' }).log('login password=hunter2', { token: 'arg' });
+
+    const entry: CoreLogEntry = transport.getEntries()[0];
+    expect(entry.message).toEqual('login ' + CoreLoggerProvider.REDACTED);
+    expect(entry.args).toEqual([{ token: CoreLoggerProvider.REDACTED }]);
+    expect(entry.context.token).toEqual(CoreLoggerProvider.REDACTED);
+    expect(JSON.stringify(entry)).not.toContain('hunter2');
+  });
+
+});
+
+describe('CoreLoggerProvider transports', () => {
+  let logger: CoreLoggerProvider;
+
+  beforeEach(() => {
+    logger = new CoreLoggerProvider();
+    logger.getTransports().forEach((transport) => {
+      logger.removeTransport(transport);
+    });
+  });
+
+  it('sends the entries to the rest of transports when one of them fails', () => {
+    const transport = new CoreLogMemoryTransport();
+    logger.addTransport({
+      write: (): void => {
+        throw new Error('Transport error');
+      }
+    });
+    logger.addTransport(transport);
+    spyOn(console, 'error');
+
+    logger.getInstance('Spec').warn('Message');
+
+    expect(transport.getEntries().map((entry) => entry.message)).toEqual(['Message']);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the last entries in the memory transport', () => {
+    const transport = new CoreLogMemoryTransport(2);
+    const instance = logger.getInstance('Spec');
+    logger.addTransport(transport);
+    logger.addTransport(transport);
+
+    instance.log('First');
+    instance.log('Second');
+    instance.log('Third');
+
+    expect(transport.getEntries().map((entry) => entry.message)).toEqual(['Second', 'Third']);
+    expect(logger.getTransports()).toEqual([transport]);
+  });
+
+});
+
+describe('CoreLoggerProvider levels', () => {
+  let logger: CoreLoggerProvider;
+  let storage: { [key: string]: string };
+
+  beforeEach(() => {
+    // Use a storage in memory, so the specs don't change the stored configuration.
+    storage = {};
+    spyOn(localStorage, 'getItem').and.callFake((key: string) => {
+      return typeof storage[key] == 'undefined' ? null : storage[key];
+    });
+    spyOn(localStorage, 'setItem').and.callFake((key: string, value: string) => {
+      storage[key] = value;
+    });
+    spyOn(localStorage, 'removeItem').and.callFake((key: string) => {
+      delete storage[key];
+    });
+
+    logger = new CoreLoggerProvider();
+  });
+
+  it('uses the most specific filter of each class', () => {
+    logger.setLevel('info', false);
+    logger.setFilters('Core*Provider=warn, CoreFileProvider=debug', false);
+
+    expect(logger.isLevelEnabled('debug', 'CoreFileProvider')).toBe(true);
+    expect(logger.isLevelEnabled('info', 'CoreEventsProvider')).toBe(false);
+    expect(logger.isLevelEnabled('warn', 'CoreEventsProvider')).toBe(true);
+    expect(logger.isLevelEnabled('debug', 'InitPage')).toBe(false);
+    expect(logger.isLevelEnabled('info', 'InitPage')).toBe(true);
+
+    logger.setFilters({ 'Core*': 'error' }, false);
+
+    expect(logger.isLevelEnabled('debug', 'CoreFileProvider')).toBe(false);
+    expect(logger.isLevelEnabled('warn', 'CoreEventsProvider')).toBe(false);
+  });
+
+  it('keeps the levels changed at runtime over the configuration', () => {
+    const config = { apiUrl: '', logger: { level: 'debug', filters: 'CoreFileProvider=error' } };
+
+    expect(new CoreLoggerProvider(config).getConfig().level).toEqual('debug');
+
+    logger.setLevel('warn');
+    logger.setFilters('CoreFileProvider=debug');
+
+    const restarted = new CoreLoggerProvider(config);
+    expect(restarted.getConfig().level).toEqual('warn');
+    expect(restarted.isLevelEnabled('debug', 'CoreFileProvider')).toBe(true);
+    expect(restarted.isLevelEnabled('info', 'InitPage')).toBe(false);
+
+    logger.clearStoredConfig();
+    expect(new CoreLoggerProvider(config).isLevelEnabled('warn', 'CoreFileProvider')).toBe(false);
+  });
+
+});
+
+describe('CoreLoggerProvider structured entries', () => {
+  let logger: CoreLoggerProvider;
+  let transport: CoreLogMemoryTransport;
+
+  beforeEach(() => {
+    logger = new CoreLoggerProvider();
+    transport = new CoreLogMemoryTransport();
+    logger.getTransports().forEach((existing) => {
+      logger.removeTransport(existing);
+    });
+    logger.addTransport(transport);
+    logger.setLevel('debug', false);
+  });
+
+  it('adds the context of the provider and the instances to the entries', () => {
+    const instance = logger.getInstance('CoreSiteProvider').withContext({ siteId: 'site1', page: 'Main' });
+
+    logger.setContext({ sessionId: 'session1', page: 'None' });
+    instance.withContext({ page: 'Login' }).info('Logged in', 3);
+    logger.setContext({ sessionId: undefined });
+    instance.error({ code: 1 });
+
+    const entries = transport.getEntries();
+    expect(entries[0].level).toEqual('info');
+    expect(entries[0].className).toEqual('CoreSiteProvider');
+    expect(entries[0].message).toEqual('Logged in');
+    expect(entries[0].args).toEqual([3]);
+    expect(entries[0].time).toEqual(new Date(entries[0].timestamp).toISOString());
+    expect(entries[0].context).toEqual({ sessionId: 'session1', siteId: 'site1', page: 'Login' });
+    expect(entries[1].message).toEqual('');
+    expect(entries[1].args).toEqual([{ code: 1 }]);
+    expect(entries[1].context).toEqual({ page: 'Main', siteId: 'site1' });
+  });
+
+  it('renders the entries as JSON or as text', () => {
+    logger.getInstance('Spec').withContext({ siteId: 'site1' }).warn('Failed', new Error('Error message'));
+    const entry = transport.getEntries()[0];
+
+    const json = JSON.parse(new CoreLogJsonRenderer().render(entry)[0]);
+    expect(json.level).toEqual('warn');
+    expect(json.time).toEqual(entry.time);
+    expect(json.args[0].message).toEqual('Error message');
+    expect(json.context).toEqual({ siteId: 'site1' });
+
+    const text = new CoreLogTextRenderer().render(entry);
+    expect(text[0]).toMatch(/ Spec: Failed$/);
+    expect(text[1]).toEqual(jasmine.any(Error));
+  });
+
+});
+
+describe('CoreLoggerProvider timings', () => {
+  let logger: CoreLoggerProvider;
+  let transport: CoreLogMemoryTransport;
+  let time: number;
+
+  beforeEach(() => {
+    logger = new CoreLoggerProvider();
+    transport = new CoreLogMemoryTransport();
+    logger.getTransports().forEach((existing) => {
+      logger.removeTransport(existing);
+    });
+    logger.addTransport(transport);
+
+    time = 0;
+    spyOn(<any> logger, 'now').and.callFake(() => {
+      return time;
+    });
+  });
+
+  it('records the duration of the spans and logs it', () => {
+    const span = logger.getInstance('Spec').time('unzip');
+    time = 10;
+    const nested = span.time('write');
+    time = 25;
+
+    expect(nested.label).toEqual('unzip > write');
+    expect(nested.end()).toEqual(15);
+    time = 40;
+    expect(span.end()).toEqual(40);
+    time = 100;
+    expect(span.end()).toEqual(40);
+
+    expect(transport.getEntries().map((entry) => entry.message)).toEqual(['unzip > write took 15.0 ms', 'unzip took 40.0 ms']);
+    expect(transport.getEntries()[1].args).toEqual([{ duration: 40 }]);
+  });
+
+  it('summarizes the durations of each label', () => {
+    const instance = logger.getInstance('Spec');
+
+    for (let duration = 1; duration <= 20; duration++) {
+      const span = instance.time('load');
+      time += duration;
+      span.end();
+    }
+    const other = instance.time('init');
+    time += 5;
+    other.end();
+
+    expect(logger.getTimingSummary()).toEqual([
+      { label: 'init', count: 1, p50: 5, p95: 5, max: 5 },
+      { label: 'load', count: 20, p50: 10, p95: 19, max: 20 }
+    ]);
+
+    logger.clearTimings();
+    expect(logger.getTimingSummary()).toEqual([]);
+  });
+
+  it('keeps the durations recorded even if the debug messages aren\'t logged', () => {
+    const maxSamples = CoreLoggerProvider.MAX_TIMING_SAMPLES;
+    CoreLoggerProvider.MAX_TIMING_SAMPLES = 3;
+    logger.setLevel('warn', false);
+
+    try {
+      [4, 1, 2, 3].forEach((duration) => {
+        const span = logger.getInstance('Spec').time('save');
+        time += duration;
+        span.end();
+      });
+
+      expect(transport.getEntries()).toEqual([]);
+      expect(logger.getTimingSummary()).toEqual([{ label: 'save', count: 3, p50: 2, p95: 3, max: 3 }]);
+    } finally {
+      CoreLoggerProvider.MAX_TIMING_SAMPLES = maxSamples;
+    }
+  });
+
+});
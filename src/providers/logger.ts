@@ -12,8 +12,167 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { Injectable } from '@angular/core';
-import * as moment from 'moment';
+import { Inject, Injectable, Optional } from '@angular/core';
+import { CoreLogConsoleTransport, CoreLogJsonRenderer, CoreLogTextRenderer } from '../classess/log-transports';
+import { LibConfig, LibConfigService } from '../lib/clean-lib.config';
+
+/**
+ * Entry written by the logger.
+ */
+export interface CoreLogEntry {
+  /**
+   * Level of the entry: debug, log, info, warn or error.
+   */
+  level: string;
+
+  /**
+   * Time when the entry was logged, in milliseconds.
+   */
+  timestamp: number;
+
+  /**
+   * Time when the entry was logged, in ISO 8601 format.
+   */
+  time: string;
+
+  /**
+   * Name of the class that logged the entry.
+   */
+  className: string;
+
+  /**
+   * Message logged. It's the first argument passed to the log function if it's a string, empty string otherwise.
+   */
+  message: string;
+
+  /**
+   * Rest of arguments passed to the log function.
+   */
+  args: any[];
+
+  /**
+   * Contextual fields of the entry, like the siteId, page name or session id.
+   */
+  context: { [name: string]: any };
+}
+
+/**
+ * Destination of the log entries (console, memory, file, server...).
+ */
+export interface CoreLogTransport {
+  /**
+   * Write an entry.
+   *
+   * @param entry Entry to write.
+   */
+  write(entry: CoreLogEntry): void;
+}
+
+/**
+ * Converts an entry into the arguments to pass to the console.
+ */
+export interface CoreLogRenderer {
+  /**
+   * Render an entry.
+   *
+   * @param entry Entry to render.
+   * @return Arguments to pass to the console.
+   */
+  render(entry: CoreLogEntry): any[];
+}
+
+/**
+ * Configuration of the logger.
+ */
+export interface CoreLoggerConfig {
+  /**
+   * Minimum level of the messages to log: debug, log, info, warn, error or none. Defaults to debug.
+   */
+  level?: string;
+
+  /**
+   * Levels for certain classes. The class names can use '*' as a wildcard. If several of them match a class, the most
+   * specific one is used. It can be a string like 'Core*Provider=warn, CoreFileProvider=debug' or an object like
+   * {'Core*Provider': 'warn', CoreFileProvider: 'debug'}.
+   */
+  filters?: string | { [className: string]: string };
+
+  /**
+   * Format of the messages written in the console: 'text' (time and class name followed by the message) or 'json' (one
+   * JSON object per entry, for machine parsing). Defaults to text.
+   */
+  format?: string;
+
+  /**
+   * Redaction rules to add to the default ones. They aren't stored when changed at runtime.
+   */
+  redaction?: CoreLoggerRedactionRules;
+}
+
+/**
+ * Rules to hide sensitive data (tokens, passwords, emails...) in the log entries.
+ */
+export interface CoreLoggerRedactionRules {
+  /**
+   * Names of the properties whose values are hidden, in any object logged. Case insensitive.
+   */
+  keys?: string[];
+
+  /**
+   * Regular expressions to find sensitive data in the strings logged. The matches are hidden.
+   */
+  patterns?: RegExp[];
+
+  /**
+   * Names of the URL query parameters whose values are hidden, in any string logged. Case insensitive.
+   */
+  queryParams?: string[];
+}
+
+/**
+ * Timing span started with the time function of a logger instance.
+ */
+export interface CoreLogSpan {
+  /**
+   * Label of the span. The label of a nested span includes the labels of its parents, e.g. 'unzip > write'.
+   */
+  label: string;
+
+  /**
+   * Start a nested span.
+   *
+   * @param label Label of the nested span.
+   * @return Nested span.
+   */
+  time(label: string): CoreLogSpan;
+
+  /**
+   * Stop the span and record its duration. Calling it again has no effect.
+   *
+   * @return Duration in milliseconds.
+   */
+  end(): number;
+}
+
+/**
+ * Summary of the durations recorded for a label.
+ */
+export interface CoreLogTimingSummary {
+  label: string;
+  count: number;
+  p50: number; // Median, in milliseconds.
+  p95: number; // 95th percentile, in milliseconds.
+  max: number; // In milliseconds.
+}
+
+/**
+ * Level set for the classes matching a pattern.
+ */
+interface CoreLoggerFilter {
+  regExp: RegExp;
+  level: number;
+  specificity: number; // Number of characters that aren't wildcards. The higher, the more specific.
+}
 
 /**
  * Helper service to display messages in the console.
@@ -25,14 +184,67 @@ import * as moment from 'moment';
  * this.logger = logger.getInstance('InitPage');
  *
  * Then you can call the log function you want to use in this logger instance.
+ *
+ * The messages are written to the console by default. Use addTransport to write them somewhere else too, e.g.:
+ * logger.addTransport(new CoreLogMemoryTransport(500));
+ *
+ * To add contextual fields to the entries, use setContext (for all the entries) or withContext (for the entries of an instance):
+ * this.logger = logger.getInstance('CoreSiteProvider').withContext({siteId: siteId});
+ *
+ * The levels to log can be configured in CleanLibModule.forRoot({logger: {...}}) and changed at runtime with setLevel and
+ * setFilters. The changes done at runtime are stored and have preference over the forRoot configuration.
+ *
+ * To measure how long an operation takes, start a span and end it when done. The duration is logged at debug level and
+ * recorded, use getTimingSummary or printTimingSummary to view the stats of each label:
+ * const span = this.logger.time('Unzip');
+ * ...
+ * span.end();
  */
 @Injectable()
 export class CoreLoggerProvider {
+  static LEVELS = { debug: 0, log: 1, info: 1, warn: 2, error: 3, none: 4 };
+  static CONFIG_STORAGE_KEY = 'CoreLoggerConfig';
+  static REDACTED = '[REDACTED]';
+  static DEFAULT_REDACTION_RULES: CoreLoggerRedactionRules = {
+    keys: ['password', 'token', 'wstoken', 'privatetoken', 'secret', 'authorization', 'cookie'],
+    patterns: [/[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi], // Emails.
+    queryParams: ['token', 'wstoken', 'privatetoken', 'password']
+  };
+  static MAX_REDACTION_DEPTH = 10;
+  static MAX_TIMING_SAMPLES = 1000; // Max durations to keep per label.
+
   /** Whether the logging is enabled. */
   enabled = true;
 
-  constructor() {
-    // Nothing to do.
+  protected consoleTransport = new CoreLogConsoleTransport();
+  protected transports: CoreLogTransport[] = [this.consoleTransport];
+  protected context: { [name: string]: any } = {}; // Context added to all the entries.
+  protected config: CoreLoggerConfig = {};
+  protected minLevel = 0;
+  protected filters: CoreLoggerFilter[] = [];
+  protected classLevels: { [className: string]: number } = {}; // Cache of the level of each class.
+  protected redactionKeys: string[] = [];
+  protected redactionPatterns: RegExp[] = [];
+  protected redactionQueryParams: RegExp[] = []; // Patterns of the query params, they capture the name of the param.
+  protected timings: { [label: string]: number[] } = {}; // Durations recorded for each span label.
+
+  constructor(@Optional() @Inject(LibConfigService) libConfig?: LibConfig) {
+    const storedConfig = this.getStoredConfig();
+    const config = (libConfig && libConfig.logger) || {};
+
+    this.applyConfig({
+      level: storedConfig.level || config.level,
+      filters: storedConfig.filters || config.filters,
+      format: storedConfig.format || config.format
+    });
+
+    const defaultRules = CoreLoggerProvider.DEFAULT_REDACTION_RULES,
+      configRules = config.redaction || {};
+    this.setRedactionRules({
+      keys: (defaultRules.keys || []).concat(configRules.keys || []),
+      patterns: (defaultRules.patterns || []).concat(configRules.patterns || []),
+      queryParams: (defaultRules.queryParams || []).concat(configRules.queryParams || [])
+    });
   }
 
   /**
@@ -42,34 +254,504 @@ export class CoreLoggerProvider {
    * @return Instance.
    */
   getInstance(className: string): any {
-    className = className || '';
+    return this.createInstance(className || '', {});
+  }
+
+  /**
+   * Set some contextual fields that will be added to all the entries, e.g. the session id.
+   *
+   * @param context Fields to add. Use undefined as the value of a field to remove it.
+   */
+  setContext(context: { [name: string]: any }): void {
+    this.context = Object.assign({}, this.context, context);
+
+    for (const name in this.context) {
+      if (typeof this.context[name] == 'undefined') {
+        delete this.context[name];
+      }
+    }
+  }
+
+  /**
+   * Get the contextual fields added to all the entries.
+   *
+   * @return Context.
+   */
+  getContext(): { [name: string]: any } {
+    return Object.assign({}, this.context);
+  }
+
+  /**
+   * Set the format of the messages written in the console.
+   *
+   * @param format Format: 'text' or 'json'.
+   * @param persist Whether to store the format so it's used after the app is restarted. Defaults to true.
+   */
+  setFormat(format: string, persist: boolean = true): void {
+    this.applyConfig(Object.assign({}, this.config, { format: format }));
+    persist && this.storeConfig();
+  }
+
+  /**
+   * Set the minimum level of the messages to log.
+   *
+   * @param level Level: debug, log, info, warn, error or none.
+   * @param persist Whether to store the level so it's used after the app is restarted. Defaults to true.
+   */
+  setLevel(level: string, persist: boolean = true): void {
+    this.applyConfig(Object.assign({}, this.config, { level: level }));
+    persist && this.storeConfig();
+  }
+
+  /**
+   * Set the levels of certain classes.
+   *
+   * @param filters Levels per class. E.g. 'Core*Provider=warn, CoreFileProvider=debug'.
+   * @param persist Whether to store the filters so they're used after the app is restarted. Defaults to true.
+   */
+  setFilters(filters: string | { [className: string]: string }, persist: boolean = true): void {
+    this.applyConfig(Object.assign({}, this.config, { filters: filters }));
+    persist && this.storeConfig();
+  }
+
+  /**
+   * Get the current configuration of the levels.
+   *
+   * @return Configuration.
+   */
+  getConfig(): CoreLoggerConfig {
+    return Object.assign({}, this.config);
+  }
+
+  /**
+   * Remove the configuration stored at runtime. It will be applied after the app is restarted.
+   */
+  clearStoredConfig(): void {
+    try {
+      localStorage.removeItem(CoreLoggerProvider.CONFIG_STORAGE_KEY);
+    } catch (error) {
+      // Storage not available, ignore.
+    }
+  }
+
+  /**
+   * Set the rules to hide sensitive data in the log entries. They replace the current rules, including the default ones.
+   * The rules are applied to the message, arguments and context of every entry before sending it to the transports.
+   *
+   * @param rules Rules.
+   */
+  setRedactionRules(rules: CoreLoggerRedactionRules): void {
+    this.redactionKeys = (rules.keys || []).map((key) => {
+      return key.toLowerCase();
+    });
+
+    // Make sure the patterns are global, so all the matches are replaced.
+    this.redactionPatterns = (rules.patterns || []).map((pattern) => {
+      return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+    });
+
+    this.redactionQueryParams = (rules.queryParams || []).map((param) => {
+      const name = param.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+      return new RegExp('([?&]' + name + '=)[^&#\\s]*', 'gi');
+    });
+  }
+
+  /**
+   * Hide the sensitive data of a value using the redaction rules. Objects, arrays and errors are traversed and copied,
+   * the original value isn't modified.
+   *
+   * @param value Value to redact.
+   * @return Redacted value.
+   */
+  redact(value: any): any {
+    return this.redactValue(value, 0, [], []);
+  }
+
+  /**
+   * Check whether a message will be logged.
+   *
+   * @param level Level of the message.
+   * @param className Name of the class.
+   * @return Whether it will be logged.
+   */
+  isLevelEnabled(level: string, className: string): boolean {
+    if (!this.enabled) {
+      return false;
+    }
+
+    if (typeof this.classLevels[className] == 'undefined') {
+      // Calculate the level of the class using the most specific filter.
+      let classLevel = this.minLevel,
+        specificity = -1;
+
+      this.filters.forEach((filter) => {
+        if (filter.specificity > specificity && filter.regExp.test(className)) {
+          classLevel = filter.level;
+          specificity = filter.specificity;
+        }
+      });
+
+      this.classLevels[className] = classLevel;
+    }
+
+    return this.getLevelValue(level) >= this.classLevels[className];
+  }
+
+  /**
+   * Apply a configuration.
+   *
+   * @param config Configuration.
+   */
+  protected applyConfig(config: CoreLoggerConfig): void {
+    this.config = config;
+    this.minLevel = this.getLevelValue(config.level || 'debug');
+    this.filters = [];
+    this.classLevels = {};
+    this.consoleTransport.setRenderer(config.format == 'json' ? new CoreLogJsonRenderer() : new CoreLogTextRenderer());
+
+    let filters = config.filters || {};
+    if (typeof filters == 'string') {
+      // Convert the string to an object.
+      filters = filters.split(',').reduce((result, filter) => {
+        const parts = filter.split('=');
+        if (parts.length == 2 && parts[0].trim()) {
+          result[parts[0].trim()] = parts[1].trim();
+        }
+
+        return result;
+      }, {});
+    }
+
+    for (const pattern in filters) {
+      const regExp = pattern.split('*').map((part) => {
+        return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+      }).join('.*');
+
+      this.filters.push({
+        regExp: new RegExp('^' + regExp + '$'),
+        level: this.getLevelValue(filters[pattern]),
+        specificity: pattern.replace(/\*/g, '').length
+      });
+    }
+  }
+
+  /**
+   * Hide the sensitive data of a value.
+   *
+   * @param value Value to redact.
+   * @param depth Depth of the value inside the original value.
+   * @param originals Objects already copied, to handle circular references.
+   * @param copies Copies of the objects in originals, in the same order.
+   * @return Redacted value.
+   */
+  protected redactValue(value: any, depth: number, originals: any[], copies: any[]): any {
+    if (typeof value == 'string') {
+      return this.redactString(value);
+    }
+
+    if (!value || typeof value != 'object' || depth > CoreLoggerProvider.MAX_REDACTION_DEPTH) {
+      return value;
+    }
+
+    const index = originals.indexOf(value);
+    if (index != -1) {
+      // Circular reference, point to the redacted copy.
+      return copies[index];
+    }
+
+    let copy;
+    if (Array.isArray(value)) {
+      copy = [];
+    } else if (value instanceof Error) {
+      // Keep the prototype so it's still displayed as an error.
+      copy = Object.create(Object.getPrototypeOf(value));
+      copy.name = value.name;
+      copy.message = this.redactString(value.message);
+      copy.stack = value.stack && this.redactString(value.stack);
+    } else if (Object.prototype.toString.call(value) == '[object Object]') {
+      copy = {};
+    } else {
+      // Don't traverse other objects like dates, blobs or DOM elements.
+      return value;
+    }
+
+    originals.push(value);
+    copies.push(copy);
+    Object.keys(value).forEach((key) => {
+      if (this.redactionKeys.indexOf(key.toLowerCase()) != -1) {
+        copy[key] = CoreLoggerProvider.REDACTED;
+      } else {
+        copy[key] = this.redactValue(value[key], depth + 1, originals, copies);
+      }
+    });
+
+    return copy;
+  }
+
+  /**
+   * Hide the sensitive data of a string.
+   *
+   * @param text String to redact.
+   * @return Redacted string.
+   */
+  protected redactString(text: string): string {
+    this.redactionPatterns.forEach((pattern) => {
+      // Hide the whole match, the capture groups of the patterns can contain the sensitive data.
+      text = text.replace(pattern, CoreLoggerProvider.REDACTED);
+    });
+
+    this.redactionQueryParams.forEach((pattern) => {
+      // Keep the name of the param.
+      text = text.replace(pattern, '$1' + CoreLoggerProvider.REDACTED);
+    });
+
+    return text;
+  }
+
+  /**
+   * Get the numeric value of a level.
+   *
+   * @param level Level name.
+   * @return Level value. Unknown levels are treated as debug.
+   */
+  protected getLevelValue(level: string): number {
+    const value = CoreLoggerProvider.LEVELS[(level || '').toLowerCase()];
+
+    return typeof value == 'number' ? value : 0;
+  }
+
+  /**
+   * Get the configuration stored at runtime.
+   *
+   * @return Stored configuration.
+   */
+  protected getStoredConfig(): CoreLoggerConfig {
+    try {
+      return JSON.parse(localStorage.getItem(CoreLoggerProvider.CONFIG_STORAGE_KEY)) || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  /**
+   * Store the current configuration.
+   */
+  protected storeConfig(): void {
+    try {
+      localStorage.setItem(CoreLoggerProvider.CONFIG_STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      // Storage not available, ignore.
+    }
+  }
+
+  /**
+   * Add a transport to write the log entries to.
+   *
+   * @param transport Transport to add.
+   */
+  addTransport(transport: CoreLogTransport): void {
+    if (this.transports.indexOf(transport) == -1) {
+      this.transports.push(transport);
+    }
+  }
+
+  /**
+   * Remove a transport. The console transport can be removed too.
+   *
+   * @param transport Transport to remove.
+   */
+  removeTransport(transport: CoreLogTransport): void {
+    const index = this.transports.indexOf(transport);
+    if (index != -1) {
+      this.transports.splice(index, 1);
+    }
+  }
+
+  /**
+   * Get the transports in use.
+   *
+   * @return Transports.
+   */
+  getTransports(): CoreLogTransport[] {
+    return this.transports.slice();
+  }
+
+  /**
+   * Get the stats of the durations recorded for each span label.
+   *
+   * @return Summaries, sorted by label.
+   */
+  getTimingSummary(): CoreLogTimingSummary[] {
+    return Object.keys(this.timings).sort().map((label) => {
+      const durations = this.timings[label].slice().sort((a, b) => {
+        return a - b;
+      });
+
+      return {
+        label: label,
+        count: durations.length,
+        p50: this.getPercentile(durations, 50),
+        p95: this.getPercentile(durations, 95),
+        max: durations[durations.length - 1]
+      };
+    });
+  }
+
+  /**
+   * Print a table with the timing summary in the console. Meant to be used in development builds.
+   */
+  printTimingSummary(): void {
+    const summary = this.getTimingSummary();
+
     /* tslint:disable no-console */
+    if (console.table) {
+      console.table(summary);
+    } else {
+      console.log(JSON.stringify(summary, null, 2));
+    }
+    /* tslint:enable no-console */
+  }
+
+  /**
+   * Remove all the durations recorded.
+   */
+  clearTimings(): void {
+    this.timings = {};
+  }
+
+  /**
+   * Record the duration of a span.
+   *
+   * @param label Label of the span.
+   * @param duration Duration in milliseconds.
+   */
+  protected recordTiming(label: string, duration: number): void {
+    const durations = this.timings[label] = this.timings[label] || [];
+
+    durations.push(duration);
+    if (durations.length > CoreLoggerProvider.MAX_TIMING_SAMPLES) {
+      durations.splice(0, durations.length - CoreLoggerProvider.MAX_TIMING_SAMPLES);
+    }
+  }
+
+  /**
+   * Get a percentile of some durations using the nearest-rank method.
+   *
+   * @param durations Durations, sorted in ascending order.
+   * @param percentile Percentile to get (0-100).
+   * @return Value of the percentile.
+   */
+  protected getPercentile(durations: number[], percentile: number): number {
+    const rank = Math.ceil(percentile / 100 * durations.length);
+
+    return durations[Math.max(rank, 1) - 1];
+  }
+
+  /**
+   * Get the current time with the highest precision available.
+   *
+   * @return Time in milliseconds.
+   */
+  protected now(): number {
+    return typeof performance != 'undefined' && performance.now ? performance.now() : Date.now();
+  }
+
+  /**
+   * Start a timing span.
+   *
+   * @param label Label of the span.
+   * @param debug Function to log the duration when the span ends.
+   * @return Span.
+   */
+  protected startSpan(label: string, debug: Function): CoreLogSpan {
+    const start = this.now();
+    let duration: number;
 
     return {
-      log: this.prepareLogFn(console.log.bind(console), className),
-      info: this.prepareLogFn(console.info.bind(console), className),
-      warn: this.prepareLogFn(console.warn.bind(console), className),
-      debug: this.prepareLogFn(console.debug.bind(console), className),
-      error: this.prepareLogFn(console.error.bind(console), className)
+      label: label,
+      time: (childLabel: string): CoreLogSpan => {
+        return this.startSpan(label + ' > ' + childLabel, debug);
+      },
+      end: (): number => {
+        if (typeof duration == 'undefined') {
+          duration = this.now() - start;
+          this.recordTiming(label, duration);
+          debug(label + ' took ' + duration.toFixed(1) + ' ms', { duration: duration });
+        }
+
+        return duration;
+      }
     };
   }
 
   /**
-   * Prepare a logging function, concatenating the timestamp and class name to all messages.
+   * Create a logger instance.
    *
-   * @param logFn Log function to use.
    * @param className Name to use in the messages.
+   * @param context Contextual fields of the instance.
+   * @return Instance.
+   */
+  protected createInstance(className: string, context: { [name: string]: any }): any {
+    const debug = this.prepareLogFn('debug', className, context);
+
+    return {
+      log: this.prepareLogFn('log', className, context),
+      info: this.prepareLogFn('info', className, context),
+      warn: this.prepareLogFn('warn', className, context),
+      debug: debug,
+      error: this.prepareLogFn('error', className, context),
+      time: (label: string): CoreLogSpan => {
+        return this.startSpan(label, debug);
+      },
+      withContext: (childContext: { [name: string]: any }): any => {
+        // Create a child instance that adds some fields to the context of this instance.
+        return this.createInstance(className, Object.assign({}, context, childContext));
+      }
+    };
+  }
+
+  /**
+   * Prepare a logging function that sends the entries to the transports.
+   *
+   * @param level Level of the messages.
+   * @param className Name to use in the messages.
+   * @param context Contextual fields of the instance.
    * @return Prepared function.
    */
-  private prepareLogFn(logFn: Function, className: string): Function {
-    // Return our own function that will call the logging function with the treated message.
+  private prepareLogFn(level: string, className: string, context: { [name: string]: any }): Function {
+    // Return our own function that will build the entry and send it to the transports.
     return (...args): void => {
-      if (this.enabled) {
-        const now = moment().format('l LTS');
-        args[0] = now + ' ' + className + ': ' + args[0]; // Prepend timestamp and className to the original message.
-        logFn.apply(null, args);
+      if (this.isLevelEnabled(level, className)) {
+        const now = Date.now();
+        const hasMessage = typeof args[0] == 'string';
+
+        this.write({
+          level: level,
+          timestamp: now,
+          time: new Date(now).toISOString(),
+          className: className,
+          message: hasMessage ? this.redactString(args[0]) : '',
+          args: this.redact(hasMessage ? args.slice(1) : args),
+          context: this.redact(Object.assign({}, this.context, context))
+        });
       }
     };
   }
-}
 
+  /**
+   * Send an entry to all the transports. An error in a transport doesn't prevent the rest from receiving the entry.
+   *
+   * @param entry Entry to write.
+   */
+  protected write(entry: CoreLogEntry): void {
+    this.transports.forEach((transport) => {
+      try {
+        transport.write(entry);
+      } catch (error) {
+        // Don't use the logger, the error could happen again.
+        console.error('Error writing log entry.', error); // tslint:disable-line no-console
+      }
+    });
+  }
+}
@@ -0,0 +1,86 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreStorageManagerProvider } from './storage-manager';
+import { CoreEventsProvider } from './events';
+import { CoreFileProvider } from './file';
+import { createTestFileProvider } from '../test-utils';
+
+describe('CoreStorageManagerProvider', () => {
+    const enforceDelay = CoreStorageManagerProvider.ENFORCE_DELAY;
+    let fileProvider: CoreFileProvider;
+    let events: CoreEventsProvider;
+    let storageManager: CoreStorageManagerProvider;
+
+    /**
+     * Wait some time.
+     *
+     * @param ms Milliseconds to wait.
+     * @return Promise resolved after the time.
+     */
+    function wait(ms: number): Promise<void> {
+        return new Promise<void>((resolve): void => {
+            setTimeout(resolve, ms);
+        });
+    }
+
+    beforeEach(() => {
+        const test = createTestFileProvider();
+        fileProvider = test.fileProvider;
+        events = test.events;
+
+        CoreStorageManagerProvider.ENFORCE_DELAY = 20;
+        storageManager = new CoreStorageManagerProvider(test.logger, fileProvider, events);
+    });
+
+    afterEach(() => {
+        CoreStorageManagerProvider.ENFORCE_DELAY = enforceDelay;
+    });
+
+    it('removes the least recently written files when a quota is exceeded', async () => {
+        const thresholds = [];
+        events.on(CoreEventsProvider.STORAGE_QUOTA_THRESHOLD, (data) => {
+            thresholds.push(data.threshold);
+        }, 'site');
+
+        await storageManager.setQuota('site', 10);
+        await fileProvider.writeFile('sites/site/a.txt', 'AAAA');
+        await wait(5);
+        await fileProvider.writeFile('sites/site/b.txt', 'BBBB');
+        await wait(5);
+        await fileProvider.writeFile('sites/site/a.txt', 'AAAAA');
+        await wait(5);
+        await fileProvider.writeFile('sites/site/c.txt', 'CCCC');
+        await wait(100);
+
+        expect((await fileProvider.getDirectoryContents('sites/site')).map((entry) => entry.name).sort()).toEqual(['a.txt', 'c.txt']);
+        expect(thresholds).toEqual([0.9]);
+    });
+
+    it('enforces the quotas of the components', async () => {
+        await storageManager.setQuota('site', 4, 'comp');
+        await storageManager.pin('sites/site/comp/pinned.txt');
+        await fileProvider.writeFile('sites/site/comp/pinned.txt', 'PP');
+        await fileProvider.writeFile('sites/site/comp/a.txt', 'AA');
+        await wait(5);
+        await fileProvider.writeFile('sites/site/comp/b.txt', 'BB');
+        await fileProvider.writeFile('sites/site/other.txt', 'OOOO');
+        await wait(100);
+
+        expect((await fileProvider.getDirectoryContents('sites/site/comp')).map((entry) => entry.name).sort())
+            .toEqual(['b.txt', 'pinned.txt']);
+        expect(await storageManager.enforceQuotas('site')).toEqual([]);
+    });
+});
@@ -0,0 +1,571 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { Injectable } from '@angular/core';
+import { CoreEventsProvider, CoreEventFileChangedData } from './events';
+import { CoreFileProvider, CoreFileWalkEntry } from './file';
+import { CoreLoggerProvider } from './logger';
+import { CoreQuotaExceededError } from '../classess/file-error';
+
+/**
+ * Storage used by a site, in bytes.
+ */
+export interface CoreStorageUsage {
+    /**
+     * Bytes used by the whole site.
+     */
+    total: number;
+
+    /**
+     * Bytes used by each component (first folder inside the site folder).
+     */
+    components: { [component: string]: number };
+}
+
+/**
+ * Data stored by the storage manager.
+ */
+interface CoreStorageManagerData {
+    quotas: { [key: string]: number }; // Quotas in bytes, indexed by siteId or siteId/component.
+    pinned: { [path: string]: boolean }; // Pinned paths, relative to the base path.
+    accessed: { [path: string]: number }; // Last access time of the files, relative to the base path.
+}
+
+/**
+ * Service to enforce storage quotas for each site and component. The components are the first level folders inside the
+ * site folder (see CoreFileProvider.getSiteFolder).
+ *
+ * When a quota is exceeded, the least recently used files are removed. The last access of a file is the last time it was
+ * written or recordAccess was called for it, or its modification time if it was never called. Pinned files are never removed.
+ *
+ * The writes done with CoreFileProvider in the site folders are detected using the FILE_CHANGED event, and the quotas
+ * of the site are enforced shortly after them. Use ensureSpace before writing to make sure the write fits in the quota.
+ *
+ * A STORAGE_QUOTA_THRESHOLD event is triggered each time the usage crosses one of the thresholds, so the user can be warned
+ * before the writes fail.
+ */
+@Injectable()
+export class CoreStorageManagerProvider {
+    static FILE_PATH = 'storage/manager.json';
+    static DEFAULT_THRESHOLDS = [0.8, 0.9, 1];
+    static SAVE_DELAY = 1000; // Time to wait before saving the access times, to group several accesses.
+    static ENFORCE_DELAY = 1000; // Time to wait before enforcing the quotas after a write, to group several writes.
+
+    protected logger;
+    protected dataPromise: Promise<CoreStorageManagerData>;
+    protected thresholds = CoreStorageManagerProvider.DEFAULT_THRESHOLDS;
+    protected levels: { [key: string]: number } = {}; // Number of thresholds crossed by each quota.
+    protected saveTimeout: any;
+    protected enforceTimeouts: { [siteId: string]: any } = {}; // Pending enforcements of the quotas of each site.
+
+    constructor(loggerProvider: CoreLoggerProvider,
+        protected fileProvider: CoreFileProvider,
+        protected eventsProvider: CoreEventsProvider
+    ) {
+        this.logger = loggerProvider.getInstance('CoreStorageManagerProvider');
+
+        this.fileProvider.onChange(CoreFileProvider.SITESFOLDER, (data) => {
+            this.fileChanged(data);
+        });
+    }
+
+    /**
+     * Set the thresholds that trigger a STORAGE_QUOTA_THRESHOLD event.
+     *
+     * @param thresholds Fractions of the quota, e.g. [0.8, 1]. If not set, use the default ones.
+     */
+    setThresholds(thresholds?: number[]): void {
+        this.thresholds = (thresholds || CoreStorageManagerProvider.DEFAULT_THRESHOLDS).slice().sort((a, b) => {
+            return a - b;
+        });
+        this.levels = {};
+    }
+
+    /**
+     * Set the quota of a site or a component.
+     *
+     * @param siteId Site ID.
+     * @param quota Quota in bytes. Use 0 to remove the quota.
+     * @param component Component. If not set, the quota applies to the whole site.
+     * @return Promise resolved when done.
+     */
+    async setQuota(siteId: string, quota: number, component?: string): Promise<void> {
+        const data = await this.getData(),
+            key = this.getQuotaKey(siteId, component);
+
+        if (quota > 0) {
+            data.quotas[key] = quota;
+        } else {
+            delete data.quotas[key];
+        }
+        delete this.levels[key];
+
+        await this.save();
+    }
+
+    /**
+     * Get the quota of a site or a component.
+     *
+     * @param siteId Site ID.
+     * @param component Component. If not set, get the quota of the whole site.
+     * @return Promise resolved with the quota in bytes, 0 if there's no quota.
+     */
+    async getQuota(siteId: string, component?: string): Promise<number> {
+        const data = await this.getData();
+
+        return data.quotas[this.getQuotaKey(siteId, component)] || 0;
+    }
+
+    /**
+     * Pin a file or directory so it's never removed to free space. Pinning a directory protects all its contents.
+     *
+     * @param path Path relative to the base path.
+     * @return Promise resolved when done.
+     */
+    async pin(path: string): Promise<void> {
+        const data = await this.getData();
+
+        data.pinned[this.normalizePath(path)] = true;
+        await this.save();
+    }
+
+    /**
+     * Unpin a file or directory.
+     *
+     * @param path Path relative to the base path.
+     * @return Promise resolved when done.
+     */
+    async unpin(path: string): Promise<void> {
+        const data = await this.getData();
+
+        delete data.pinned[this.normalizePath(path)];
+        await this.save();
+    }
+
+    /**
+     * Check whether a file or directory is pinned, either itself or any of its parent directories.
+     *
+     * @param path Path relative to the base path.
+     * @return Promise resolved with whether it's pinned.
+     */
+    async isPinned(path: string): Promise<boolean> {
+        return this.isPinnedInData(await this.getData(), this.normalizePath(path));
+    }
+
+    /**
+     * Record that a file has been used, so it's the last one to be removed to free space.
+     *
+     * @param path Path relative to the base path.
+     * @return Promise resolved when done. The data is saved later.
+     */
+    async recordAccess(path: string): Promise<void> {
+        const data = await this.getData();
+
+        data.accessed[this.normalizePath(path)] = Date.now();
+        this.scheduleSave();
+    }
+
+    /**
+     * Calculate the storage used by a site and its components.
+     *
+     * @param siteId Site ID.
+     * @return Promise resolved with the usage.
+     */
+    async getUsage(siteId: string): Promise<CoreStorageUsage> {
+        const usage: CoreStorageUsage = {
+            total: 0,
+            components: {}
+        };
+
+        await this.walkSiteFiles(siteId, undefined, (walkEntry) => {
+            const component = walkEntry.relativePath.split('/')[0];
+
+            usage.total += walkEntry.size;
+            if (walkEntry.depth > 1) {
+                usage.components[component] = (usage.components[component] || 0) + walkEntry.size;
+            }
+        });
+
+        return usage;
+    }
+
+    /**
+     * Check the usage of a site against its quotas, triggering the threshold events if needed.
+     *
+     * @param siteId Site ID.
+     * @return Promise resolved with the usage.
+     */
+    async checkQuotas(siteId: string): Promise<CoreStorageUsage> {
+        const data = await this.getData(),
+            usage = await this.getUsage(siteId),
+            prefix = this.getQuotaKey(siteId) + '/';
+
+        this.checkThresholds(siteId, undefined, usage.total, data.quotas[this.getQuotaKey(siteId)]);
+
+        Object.keys(data.quotas).forEach((key) => {
+            if (key.indexOf(prefix) === 0) {
+                const component = key.substr(prefix.length);
+                this.checkThresholds(siteId, component, usage.components[component] || 0, data.quotas[key]);
+            }
+        });
+
+        return usage;
+    }
+
+    /**
+     * Make sure there's space to store some data in a site, removing the least recently used files if needed.
+     * Call it before writing files in the site folder.
+     *
+     * @param siteId Site ID.
+     * @param bytes Bytes that will be written.
+     * @param component Component where the data will be written. If set, its quota is checked too.
+     * @return Promise resolved with the paths of the files removed. Rejected with CoreQuotaExceededError if there isn't enough space.
+     */
+    async ensureSpace(siteId: string, bytes: number, component?: string): Promise<string[]> {
+        const removed: string[] = [];
+        const scopes = component ? [component, undefined] : [undefined];
+
+        for (let i = 0; i < scopes.length; i++) {
+            const quota = await this.getQuota(siteId, scopes[i]);
+            if (!quota) {
+                continue;
+            }
+
+            const usage = await this.getUsage(siteId),
+                used = scopes[i] ? usage.components[scopes[i]] || 0 : usage.total,
+                excess = used + bytes - quota;
+
+            if (excess <= 0) {
+                continue;
+            }
+
+            const candidates = await this.getRemovableFiles(siteId, scopes[i]);
+            const removable = candidates.reduce((size, file) => {
+                return size + file.size;
+            }, 0);
+
+            if (removable < excess) {
+                // Don't remove anything if it won't be enough.
+                await this.checkQuotas(siteId);
+
+                throw new CoreQuotaExceededError('Storage quota exceeded for ' + this.getQuotaKey(siteId, scopes[i]) + '.',
+                    this.fileProvider.getSiteFolder(siteId), 'ensureSpace');
+            }
+
+            removed.push.apply(removed, await this.removeFiles(candidates, excess));
+        }
+
+        await this.checkQuotas(siteId);
+
+        return removed;
+    }
+
+    /**
+     * Remove the least recently used files of a site or component until some space is freed. Pinned files aren't removed.
+     *
+     * @param siteId Site ID.
+     * @param bytes Bytes to free.
+     * @param component Component. If not set, remove files of any component of the site.
+     * @return Promise resolved with the paths of the files removed.
+     */
+    async evict(siteId: string, bytes: number, component?: string): Promise<string[]> {
+        const removed = await this.removeFiles(await this.getRemovableFiles(siteId, component), bytes);
+
+        await this.checkQuotas(siteId);
+
+        return removed;
+    }
+
+    /**
+     * Remove the least recently used files of a site until all its quotas are met.
+     *
+     * @param siteId Site ID.
+     * @return Promise resolved with the paths of the files removed. Rejected with CoreQuotaExceededError if a quota
+     *         cannot be met removing the files that aren't pinned.
+     */
+    async enforceQuotas(siteId: string): Promise<string[]> {
+        const data = await this.getData(),
+            prefix = this.getQuotaKey(siteId) + '/',
+            removed: string[] = [];
+
+        const components = Object.keys(data.quotas).filter((key) => {
+            return key.indexOf(prefix) === 0;
+        }).map((key) => {
+            return key.substr(prefix.length);
+        });
+
+        for (let i = 0; i < components.length; i++) {
+            removed.push.apply(removed, await this.ensureSpace(siteId, 0, components[i]));
+        }
+
+        removed.push.apply(removed, await this.ensureSpace(siteId, 0));
+
+        return removed;
+    }
+
+    /**
+     * A file or directory changed in a site folder: record the access of the files written and enforce the quotas.
+     *
+     * @param data Data of the FILE_CHANGED event.
+     */
+    protected fileChanged(data: CoreEventFileChangedData): void {
+        if (!data.siteId || data.action == 'removed') {
+            // Removing files doesn't exceed the quotas.
+            return;
+        }
+
+        if (!data.isDirectory) {
+            this.recordAccess(data.path).catch((error) => {
+                this.logger.error('Error recording the access of ' + data.path, error);
+            });
+        }
+
+        this.scheduleEnforceQuotas(data.siteId);
+    }
+
+    /**
+     * Enforce the quotas of a site in a while, grouping several writes.
+     *
+     * @param siteId Site ID.
+     */
+    protected scheduleEnforceQuotas(siteId: string): void {
+        if (this.enforceTimeouts[siteId]) {
+            return;
+        }
+
+        this.enforceTimeouts[siteId] = setTimeout(() => {
+            delete this.enforceTimeouts[siteId];
+
+            this.enforceQuotas(siteId).catch((error) => {
+                this.logger.warn('Cannot enforce the storage quotas of site ' + siteId, error);
+            });
+        }, CoreStorageManagerProvider.ENFORCE_DELAY);
+    }
+
+    /**
+     * Get the files of a site or component that can be removed to free space, sorted by last access (oldest first).
+     *
+     * @param siteId Site ID.
+     * @param component Component. If not set, get the files of any component of the site.
+     * @return Promise resolved with the files.
+     */
+    protected async getRemovableFiles(siteId: string, component?: string)
+        : Promise<{ path: string, size: number, lastAccess: number }[]> {
+
+        const data = await this.getData(),
+            files: { path: string, size: number, lastAccess: number }[] = [];
+
+        await this.walkSiteFiles(siteId, component, (walkEntry) => {
+            const path = this.normalizePath(walkEntry.path);
+
+            if (!this.isPinnedInData(data, path)) {
+                files.push({
+                    path: path,
+                    size: walkEntry.size,
+                    lastAccess: data.accessed[path] || new Date(walkEntry.modificationTime).getTime() || 0
+                });
+            }
+        });
+
+        return files.sort((a, b) => {
+            return a.lastAccess - b.lastAccess;
+        });
+    }
+
+    /**
+     * Remove files in order until some space is freed.
+     *
+     * @param files Files to remove, in the order to remove them.
+     * @param bytes Bytes to free.
+     * @return Promise resolved with the paths of the files removed.
+     */
+    protected async removeFiles(files: { path: string, size: number }[], bytes: number): Promise<string[]> {
+        const data = await this.getData(),
+            removed: string[] = [];
+        let freed = 0;
+
+        for (let i = 0; i < files.length && freed < bytes; i++) {
+            try {
+                await this.fileProvider.removeFile(files[i].path);
+            } catch (error) {
+                this.logger.warn('Error removing file to free space: ' + files[i].path, error);
+                continue;
+            }
+
+            delete data.accessed[files[i].path];
+            removed.push(files[i].path);
+            freed += files[i].size;
+        }
+
+        if (removed.length) {
+            this.logger.debug('Removed ' + removed.length + ' files to free ' + freed + ' bytes.');
+            await this.save();
+        }
+
+        return removed;
+    }
+
+    /**
+     * Call a function for each file of a site or component. Does nothing if the folder doesn't exist.
+     *
+     * @param siteId Site ID.
+     * @param component Component. If not set, walk the whole site.
+     * @param onFile Function to call for each file.
+     * @return Promise resolved when done.
+     */
+    protected async walkSiteFiles(siteId: string, component: string, onFile: (walkEntry: CoreFileWalkEntry) => void)
+        : Promise<void> {
+
+        const folder = this.fileProvider.getSiteFolder(siteId) + (component ? '/' + component : '');
+
+        try {
+            await this.fileProvider.getDir(folder);
+        } catch (error) {
+            // The folder doesn't exist, nothing to walk.
+            return;
+        }
+
+        await this.fileProvider.walkDirectory(folder, (walkEntry) => {
+            if (!walkEntry.isDirectory) {
+                onFile(walkEntry);
+            }
+        });
+    }
+
+    /**
+     * Trigger a STORAGE_QUOTA_THRESHOLD event if the usage crossed a threshold since the last check.
+     *
+     * @param siteId Site ID.
+     * @param component Component. Undefined for the whole site.
+     * @param usage Bytes used.
+     * @param quota Quota in bytes.
+     */
+    protected checkThresholds(siteId: string, component: string, usage: number, quota: number): void {
+        const key = this.getQuotaKey(siteId, component),
+            previousLevel = this.levels[key] || 0;
+
+        if (!quota) {
+            return;
+        }
+
+        const level = this.thresholds.filter((threshold) => {
+            return usage >= quota * threshold;
+        }).length;
+
+        if (level == previousLevel) {
+            return;
+        }
+
+        this.levels[key] = level;
+        this.eventsProvider.trigger(CoreEventsProvider.STORAGE_QUOTA_THRESHOLD, {
+            component: component,
+            usage: usage,
+            quota: quota,
+            threshold: level > previousLevel ? this.thresholds[level - 1] : this.thresholds[level],
+            direction: level > previousLevel ? 'up' : 'down'
+        }, siteId);
+    }
+
+    /**
+     * Get the stored data, loading it if needed.
+     *
+     * @return Promise resolved with the data.
+     */
+    protected getData(): Promise<CoreStorageManagerData> {
+        if (!this.dataPromise) {
+            this.dataPromise = this.fileProvider.init().then(() => {
+                return this.fileProvider.readFile(CoreStorageManagerProvider.FILE_PATH, CoreFileProvider.FORMATJSON);
+            }).catch(() => {
+                // The file doesn't exist yet.
+                return {};
+            }).then((data) => {
+                return {
+                    quotas: data.quotas || {},
+                    pinned: data.pinned || {},
+                    accessed: data.accessed || {}
+                };
+            });
+        }
+
+        return this.dataPromise;
+    }
+
+    /**
+     * Save the data in a while, grouping several changes.
+     */
+    protected scheduleSave(): void {
+        if (!this.saveTimeout) {
+            this.saveTimeout = setTimeout(() => {
+                this.save().catch((error) => {
+                    this.logger.error('Error saving the storage data.', error);
+                });
+            }, CoreStorageManagerProvider.SAVE_DELAY);
+        }
+    }
+
+    /**
+     * Save the data.
+     *
+     * @return Promise resolved when done.
+     */
+    protected async save(): Promise<void> {
+        clearTimeout(this.saveTimeout);
+        delete this.saveTimeout;
+
+        const data = await this.getData();
+
+        await this.fileProvider.writeFileAtomic(CoreStorageManagerProvider.FILE_PATH, JSON.stringify(data));
+    }
+
+    /**
+     * Check whether a path or any of its parents is pinned.
+     *
+     * @param data Stored data.
+     * @param path Normalized path.
+     * @return Whether it's pinned.
+     */
+    protected isPinnedInData(data: CoreStorageManagerData, path: string): boolean {
+        const parts = path.split('/');
+
+        for (let i = parts.length; i > 0; i--) {
+            if (data.pinned[parts.slice(0, i).join('/')]) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Get the key used to store the quota of a site or component.
+     *
+     * @param siteId Site ID.
+     * @param component Component.
+     * @return Key.
+     */
+    protected getQuotaKey(siteId: string, component?: string): string {
+        return component ? siteId + '/' + component : siteId;
+    }
+
+    /**
+     * Normalize a path: remove the starting and trailing slashes.
+     *
+     * @param path Path relative to the base path.
+     * @return Normalized path.
+     */
+    protected normalizePath(path: string): string {
+        return path.replace(/^\/+|\/+$/g, '');
+    }
+}
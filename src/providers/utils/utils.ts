@@ -4,6 +4,7 @@ import { InAppBrowser, InAppBrowserObject } from '@ionic-native/in-app-browser';
 import { CoreDomUtilsProvider } from './dom';
 import { CoreAppProvider } from '../app';
 import { CoreEventsProvider } from '../events';
+import { CoreEventsBridge } from '../../classess/events-bridge';
 @Injectable()
 export class CoreUtilsProvider {
     protected iabInstance: InAppBrowserObject;
@@ -214,6 +215,12 @@ export class CoreUtilsProvider {
         if (this.coreApp.isDesktop() || this.coreApp.isMobile()) {
             let loadStopSubscription;
             const loadStartUrls = [];
+            const iabInstance = this.iabInstance;
+            const eventsBridge = this.eventsProvider.getBridge();
+
+            // Exchange the bridged events with the InAppBrowser window, only while it displays pages from the opened site.
+            const origin = CoreEventsBridge.getUrlOrigin(url);
+            eventsBridge && origin && eventsBridge.addInAppBrowser(iabInstance, [origin]);
 
             // Trigger global events when a url is loaded or the window is closed. This is to make it work like in Ionic 1.
             const loadStartSubscription = this.iabInstance.on('loadstart').subscribe((event) => {
@@ -248,6 +255,7 @@ export class CoreUtilsProvider {
                     loadStartSubscription.unsubscribe();
                     loadStopSubscription && loadStopSubscription.unsubscribe();
                     exitSubscription.unsubscribe();
+                    eventsBridge && eventsBridge.removeInAppBrowser(iabInstance);
                     this.eventsProvider.trigger(CoreEventsProvider.IAB_EXIT, event);
                 });
             });
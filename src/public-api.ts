@@ -7,3 +7,41 @@ export { CleanLibComponent } from './lib/clean-lib.component';
 export { CleanLibModule } from './lib/clean-lib.module';
 export { Test1Component } from './lib/test1/test1.component';
 export { Test2Component } from './lib/test2/test2.component';
+export {
+  CoreEventsProvider, CoreEventsMap, CoreEventName, CoreEventObserver, CoreEventFileChangedData, CoreEventsStore, CoreEventStoredEvent,
+  CoreEventNotification, CoreEventCollectOptions, CoreEventCollectStrategy, CoreEventDeliveryPolicy
+} from './providers/events';
+export { CoreEventsFileStore } from './classess/events-file-store';
+export { CoreEventsBridge, CoreEventsBridgeOptions, CoreEventsBridgeMessage } from './classess/events-bridge';
+export { CoreEventsRecorder, CoreEventRecord, CoreEventsReplayOptions } from './classess/events-recorder';
+export {
+  CoreLoggerProvider, CoreLoggerConfig, CoreLoggerRedactionRules, CoreLogEntry, CoreLogRenderer, CoreLogTransport, CoreLogSpan,
+  CoreLogTimingSummary
+} from './providers/logger';
+export {
+  CoreLogConsoleTransport, CoreLogMemoryTransport, CoreLogFileTransport, CoreLogHttpTransport, CoreLogTextRenderer,
+  CoreLogJsonRenderer
+} from './classess/log-transports';
+export { CoreBugReportProvider, CoreBugReport, CoreBugReportOptions } from './providers/bug-report';
+export { CoreStorageManagerProvider, CoreStorageUsage } from './providers/storage-manager';
+export {
+  CoreFileProvider, CoreFileBackend, CoreFileProgressEvent, CoreFileProgressFunction, CoreFileChunk, CoreFileChunkFunction,
+  CoreFileReadChunksOptions, CoreFileWriteOptions, CoreFileZipOptions, CoreFileWalkEntry,
+  CoreFileWalkFunction, CoreFileWalkOptions, CoreFileFindOptions, CoreFileHashOptions, CoreFileManifestOptions, CoreFileManifestResult,
+  CoreFileKeyProvider, CoreFileEncryptionOptions
+} from './providers/file';
+export { CoreFileCordovaBackend } from './classess/file-cordova-backend';
+export { CoreFileVirtualBackend, CoreFileVirtualEntry, CoreFileVirtualRecord } from './classess/file-virtual-backend';
+export { CoreFileMemoryBackend } from './classess/file-memory-backend';
+export { CoreFileIndexedDBBackend } from './classess/file-indexeddb-backend';
+export { CoreFileEncryptedBackend } from './classess/file-encrypted-backend';
+export { CoreFileTransaction } from './classess/file-transaction';
+export { CoreDeflate } from './classess/deflate';
+export { CoreZipWriter, CoreZipReader, CoreZipEntry, CoreZipAddOptions, CoreZipChunkReader } from './classess/zip';
+export { CoreHash, CoreMd5Hash, CoreSha1Hash, CoreSha256Hash } from './classess/hash';
+export { CoreError } from './classess/error';
+export { CoreCanceledError } from './classess/canceled-error';
+export {
+  CoreFileError, CoreFileNotFoundError, CoreFileExistsError, CoreQuotaExceededError, CoreFileCorruptError, CoreFileCanceledError
+} from './classess/file-error';
+export { CoreCancellationToken } from './classess/cancellation-token';
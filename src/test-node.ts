@@ -0,0 +1,63 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+// Setup to run the specs in Node with Jasmine (npm test). The specs can also run in the browser with Karma (src/test.ts).
+
+declare const require: any;
+declare const global: any;
+
+const Module = require('module');
+const load = Module._load;
+
+// Ionic and the Ionic Native plugins are only published as ES modules, use empty classes instead.
+const BROWSER_ONLY_MODULES = /^(ionic-angular|@ionic-native\/[\w-]+)$/i;
+const browserOnlyModule = new Proxy({}, {
+    get: (target: any, name: PropertyKey): any => {
+        if (typeof name != 'string' || name == '__esModule') {
+            return undefined;
+        }
+
+        return target[name] = target[name] || class { };
+    }
+});
+
+Module._load = function (request: string): any {
+    if (BROWSER_ONLY_MODULES.test(request)) {
+        return browserOnlyModule;
+    }
+
+    return load.apply(this, arguments);
+};
+
+// Minimal DOM used by the providers.
+global.window = global;
+global.document = global.document || {
+    documentElement: { style: {} },
+    createElement: (): any => {
+        return { style: {} };
+    }
+};
+global.localStorage = global.localStorage || {
+    getItem: (): string => null,
+    setItem: (): void => {
+        // Nothing is stored.
+    },
+    removeItem: (): void => {
+        // Nothing is stored.
+    }
+};
+if (!global.navigator) {
+    global.navigator = { userAgent: 'Node.js' };
+}
@@ -0,0 +1,51 @@
+// (C) Copyright 2015 Moodle Pty Ltd.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { CoreFileProvider } from './providers/file';
+import { CoreEventsProvider } from './providers/events';
+import { CoreLoggerProvider } from './providers/logger';
+import { CoreTextUtilsProvider } from './providers/utils/text';
+import { CoreFileMemoryBackend } from './classess/file-memory-backend';
+
+/**
+ * Create a file provider that stores the files in memory, to be used in the specs.
+ *
+ * The logger doesn't have any transport, add one to check the entries.
+ *
+ * @return File provider, its events provider and its logger provider.
+ */
+export function createTestFileProvider(): { fileProvider: CoreFileProvider, events: CoreEventsProvider, logger: CoreLoggerProvider } {
+    const logger = new CoreLoggerProvider();
+    logger.getTransports().forEach((transport) => {
+        logger.removeTransport(transport);
+    });
+
+    const events = new CoreEventsProvider(logger);
+    const app = <any> {
+        isAndroid: (): boolean => false,
+        isIOS: (): boolean => false,
+        isDesktop: (): boolean => true
+    };
+    const mimeUtils = <any> {
+        removeExtension: (name: string): string => name.replace(/\.[^.]+$/, ''),
+        getFileExtension: (name: string): string => (name.match(/\.([^.]+)$/) || [])[1]
+    };
+    const fileProvider = new CoreFileProvider(logger, app, <any> {}, <any> {}, new CoreTextUtilsProvider(), <any> {}, app,
+        mimeUtils, events);
+
+    fileProvider.setBackend(new CoreFileMemoryBackend());
+
+    return { fileProvider: fileProvider, events: events, logger: logger };
+}